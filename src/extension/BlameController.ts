@@ -0,0 +1,227 @@
+import * as vscode from 'vscode';
+import { GitRunner } from './git/GitRunner';
+import { GitContentProvider } from './git/GitContentProvider';
+import { BlameLine, GitBlameParser, UNCOMMITTED_BLAME_SHA } from './git/GitBlameParser';
+import { GitGraphViewProvider } from './GitGraphViewProvider';
+
+interface Annotation {
+  root: string;
+  path: string;
+  /** Revision the document shows; undefined for the working tree file. */
+  rev?: string;
+  /** Sorted by line number. */
+  lines: BlameLine[];
+}
+
+const AUTHOR_WIDTH = 16;
+// Decoration text collapses regular spaces, so pad with non-breaking ones to keep the gutter aligned.
+const NBSP = '\u00a0';
+
+/**
+ * Annotates editors with `git blame` (author, date and commit per line) for files on disk and `gitbit:` revisions.
+ * Clicking an annotated line selects its commit in the graph.
+ */
+export class BlameController implements vscode.Disposable {
+  private readonly _decorationType = vscode.window.createTextEditorDecorationType({
+    before: {
+      color: new vscode.ThemeColor('editorCodeLens.foreground'),
+      margin: '0 1.5em 0 0'
+    }
+  });
+  private readonly _annotations = new Map<string, Annotation>();
+  private readonly _disposables: vscode.Disposable[] = [];
+  private _lastRevealed?: string;
+
+  constructor(private readonly _provider: GitGraphViewProvider) {
+    this._disposables.push(
+      this._decorationType,
+      vscode.window.onDidChangeVisibleTextEditors(editors => editors.forEach(e => this._render(e))),
+      vscode.window.onDidChangeActiveTextEditor(() => this._updateContext()),
+      vscode.window.onDidChangeTextEditorSelection(e => this._onSelectionChanged(e)),
+      // Line numbers no longer match the blame once the file is edited.
+      vscode.workspace.onDidChangeTextDocument(e => {
+        if (e.contentChanges.length > 0) this._clear(e.document.uri);
+      }),
+      vscode.workspace.onDidCloseTextDocument(doc => this._annotations.delete(doc.uri.toString()))
+    );
+  }
+
+  /**
+   * Turns annotations on or off for `uri` (defaults to the active editor).
+   * With `keepIfAnnotated`, an already annotated document is left as is (used when opening blame from the webview).
+   */
+  public async toggle(uri?: vscode.Uri, keepIfAnnotated = false) {
+    const target = uri instanceof vscode.Uri ? uri : vscode.window.activeTextEditor?.document.uri;
+    if (!target) {
+      vscode.window.showWarningMessage('GitBit: open a file to annotate it.');
+      return;
+    }
+    if (this._annotations.has(target.toString())) {
+      if (keepIfAnnotated) {
+        await vscode.window.showTextDocument(target, { preview: false });
+      } else {
+        this._clear(target);
+      }
+      return;
+    }
+
+    const rev = target.scheme === GitContentProvider.scheme
+      ? (new URLSearchParams(target.query).get('rev') || undefined)
+      : undefined;
+    if (rev === 'EMPTY') {
+      vscode.window.showWarningMessage('GitBit: this file does not exist in that revision.');
+      return;
+    }
+    if (!rev && vscode.workspace.textDocuments.some(d => d.uri.toString() === target.toString() && d.isDirty)) {
+      vscode.window.showWarningMessage('GitBit: save the file before annotating it.');
+      return;
+    }
+
+    const located = await this._provider.resolveRepoPath(target);
+    if (!located) {
+      vscode.window.showWarningMessage('GitBit: this file is not inside a Git repository.');
+      return;
+    }
+    await this._annotate(target, located.root, located.path, rev);
+  }
+
+  /**
+   * Re-blames the revision before the commit that last changed `line`, so the user can walk back through history.
+   * Without arguments, uses the cursor line of the active editor.
+   */
+  public async blamePrevious(uriString?: string, line?: number) {
+    const editor = vscode.window.activeTextEditor;
+    const uri = uriString ? vscode.Uri.parse(uriString) : editor?.document.uri;
+    const annotation = uri ? this._annotations.get(uri.toString()) : undefined;
+    if (!uri || !annotation) {
+      vscode.window.showInformationMessage('GitBit: annotate the file first.');
+      return;
+    }
+
+    const lineNumber = line ?? ((editor?.selection.active.line ?? 0) + 1);
+    const entry = annotation.lines.find(l => l.line === lineNumber);
+    if (!entry) return;
+
+    // Uncommitted lines continue from the last commit.
+    const previous = entry.sha === UNCOMMITTED_BLAME_SHA
+      ? { sha: 'HEAD', filename: annotation.path }
+      : entry.previous;
+    if (!previous) {
+      vscode.window.showInformationMessage(`GitBit: ${entry.sha.substring(0, 8)} added this line; there is no earlier revision of it.`);
+      return;
+    }
+
+    const previousUri = GitContentProvider.createUri(previous.sha, previous.filename, annotation.root);
+    await this._annotate(previousUri, annotation.root, previous.filename, previous.sha, entry.origLine);
+  }
+
+  private async _annotate(uri: vscode.Uri, root: string, path: string, rev: string | undefined, revealLine?: number) {
+    const args = ['blame', '--porcelain'];
+    if (rev) args.push(rev);
+    args.push('--', path);
+
+    const res = await new GitRunner(root).run(args, 60000);
+    if (res.exitCode !== 0) {
+      vscode.window.showErrorMessage(`GitBit: blame failed: ${res.stderr.trim()}`);
+      return;
+    }
+
+    const lines = GitBlameParser.parse(res.stdout).sort((a, b) => a.line - b.line);
+    this._annotations.set(uri.toString(), { root, path, rev, lines });
+
+    const editor = await vscode.window.showTextDocument(uri, { preview: false });
+    if (revealLine !== undefined) {
+      const line = Math.min(Math.max(revealLine - 1, 0), editor.document.lineCount - 1);
+      editor.selection = new vscode.Selection(line, 0, line, 0);
+      editor.revealRange(new vscode.Range(line, 0, line, 0), vscode.TextEditorRevealType.InCenter);
+    }
+    for (const visible of vscode.window.visibleTextEditors) {
+      if (visible.document.uri.toString() === uri.toString()) this._render(visible);
+    }
+    this._updateContext();
+  }
+
+  private _clear(uri: vscode.Uri) {
+    if (!this._annotations.delete(uri.toString())) return;
+    for (const editor of vscode.window.visibleTextEditors) {
+      if (editor.document.uri.toString() === uri.toString()) editor.setDecorations(this._decorationType, []);
+    }
+    this._updateContext();
+  }
+
+  private _render(editor: vscode.TextEditor) {
+    const annotation = this._annotations.get(editor.document.uri.toString());
+    if (!annotation || annotation.lines.length === 0) {
+      editor.setDecorations(this._decorationType, []);
+      return;
+    }
+
+    const blank = NBSP.repeat(this._label(annotation.lines[0]).length);
+    const decorations = annotation.lines.map((entry, index): vscode.DecorationOptions => {
+      // Only label the first line of each run of lines from the same commit.
+      const startsRun = index === 0 || annotation.lines[index - 1].sha !== entry.sha;
+      return {
+        range: new vscode.Range(entry.line - 1, 0, entry.line - 1, 0),
+        hoverMessage: this._hover(editor.document.uri, annotation, entry),
+        renderOptions: { before: { contentText: startsRun ? this._label(entry) : blank } }
+      };
+    });
+    editor.setDecorations(this._decorationType, decorations);
+  }
+
+  private _label(entry: BlameLine) {
+    if (entry.sha === UNCOMMITTED_BLAME_SHA) {
+      return 'Not committed yet'.padEnd(8 + 1 + AUTHOR_WIDTH + 1 + 10).replace(/ /g, NBSP);
+    }
+    const author = entry.authorName.length > AUTHOR_WIDTH
+      ? `${entry.authorName.substring(0, AUTHOR_WIDTH - 1)}…`
+      : entry.authorName.padEnd(AUTHOR_WIDTH);
+    const date = new Date(entry.authorTime * 1000).toISOString().slice(0, 10);
+    return `${entry.sha.substring(0, 8)} ${author} ${date}`.replace(/ /g, NBSP);
+  }
+
+  private _hover(uri: vscode.Uri, annotation: Annotation, entry: BlameLine) {
+    const md = new vscode.MarkdownString(undefined, true);
+    md.isTrusted = true;
+    const commandLink = (command: string, args: unknown[]) =>
+      `command:${command}?${encodeURIComponent(JSON.stringify(args))}`;
+
+    if (entry.sha === UNCOMMITTED_BLAME_SHA) {
+      md.appendMarkdown('**Not committed yet**\n\n');
+    } else {
+      md.appendText(entry.summary);
+      md.appendMarkdown('\n\n');
+      md.appendText(`${entry.authorName} <${entry.authorEmail}> • ${new Date(entry.authorTime * 1000).toLocaleString()}`);
+      md.appendMarkdown(`\n\n\`${entry.sha.substring(0, 8)}\`${entry.filename !== annotation.path ? ` in \`${entry.filename}\`` : ''}\n\n`);
+    }
+    const revealSha = entry.sha === UNCOMMITTED_BLAME_SHA ? GitGraphViewProvider.UNCOMMITTED_SHA : entry.sha;
+    md.appendMarkdown(`[$(git-commit) Show in GitBit](${commandLink('gitbit.revealCommit', [annotation.root, revealSha])})`);
+    md.appendMarkdown(` | [$(history) Blame previous revision](${commandLink('gitbit.blamePrevious', [uri.toString(), entry.line])})`);
+    return md;
+  }
+
+  private _onSelectionChanged(e: vscode.TextEditorSelectionChangeEvent) {
+    if (e.kind !== vscode.TextEditorSelectionChangeKind.Mouse || e.selections.length !== 1 || !e.selections[0].isEmpty) return;
+    const annotation = this._annotations.get(e.textEditor.document.uri.toString());
+    if (!annotation) return;
+    const entry = annotation.lines.find(l => l.line === e.selections[0].active.line + 1);
+    if (!entry) return;
+
+    const sha = entry.sha === UNCOMMITTED_BLAME_SHA ? GitGraphViewProvider.UNCOMMITTED_SHA : entry.sha;
+    const key = `${annotation.root}:${sha}`;
+    // Clicking around inside the same commit's lines shouldn't keep re-selecting it.
+    if (key === this._lastRevealed) return;
+    this._lastRevealed = key;
+    void this._provider.revealCommit(annotation.root, sha, true);
+  }
+
+  private _updateContext() {
+    const uri = vscode.window.activeTextEditor?.document.uri;
+    void vscode.commands.executeCommand('setContext', 'gitbit.blameActive', !!uri && this._annotations.has(uri.toString()));
+  }
+
+  public dispose() {
+    this._disposables.forEach(d => d.dispose());
+    this._annotations.clear();
+  }
+}
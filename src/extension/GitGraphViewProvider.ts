@@ -2,19 +2,37 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
-import { GitRunner } from './git/GitRunner';
+import { GitRunner, GitResult } from './git/GitRunner';
 import { GitLogParser } from './git/GitLogParser';
-import { RequestMessage, ResponseMessage, RepoInfo } from './protocol/types';
+import { SearchQueryParser } from './git/SearchQueryParser';
+import { RebaseTodo } from './git/RebaseTodo';
+import { GitOperationState } from './git/GitOperationState';
+import { GitBisect } from './git/GitBisect';
+import { PatchBuilder } from './git/PatchBuilder';
+import { GitWorktreeParser } from './git/GitWorktreeParser';
+import { GitRemoteParser } from './git/GitRemoteParser';
+import { OperationJournal } from './git/OperationJournal';
+import { RepoScanner, RepoScanOptions } from './git/RepoScanner';
+import { RequestMessage, ResponseMessage, RepoInfo, Commit, CommitPage, RebasePlan, RebaseTodoEntry, Stash, FileHunks, PartialFileSelection, FileHistoryPage, Change, CompareMode, RefComparison, Worktree, SubmoduleSummary, RepoList, RepoOverview, RepoBulkResult, Branch, Remote, JournalEntry, RefSnapshot, CommitSignature, SignatureStatus, CommitTrailer } from './protocol/types';
 import { GitContentProvider } from './git/GitContentProvider';
 
 export class GitGraphViewProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'gitbit.view';
   public static readonly UNCOMMITTED_SHA = 'UNCOMMITTED';
+  /** File mode git uses for submodule entries (a commit of another repository rather than a blob). */
+  private static readonly GITLINK_MODE = '160000';
+  // Tab-separated fields understood by GitLogParser.parseLog.
+  private static readonly LOG_FORMAT = '%H%x09%P%x09%an%x09%ae%x09%ad%x09%s%x09%D%x09%cn%x09%ce%x09%cd';
+  // Repos read at once for the overview; each one starts several git processes.
+  private static readonly REPO_OVERVIEW_CONCURRENCY = 4;
 
   private _view?: vscode.WebviewView;
   private _gitRunner?: GitRunner;
   private _gitRunnersByRoot = new Map<string, GitRunner>();
   private _reposCache: RepoInfo[] | null = null;
+  private _repoScanGeneration = 0;
+  private _repoScanRunning = false;
+  private _reposChangedTimer: NodeJS.Timeout | undefined;
   private _selectedRepoRoot: string | null = null;
   private _outputChannel: vscode.OutputChannel;
   private _disposables: vscode.Disposable[] = [];
@@ -23,6 +41,18 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
   private _ephemeralDiffKeys = new Set<string>();
   private _ephemeralDiffCloser?: vscode.Disposable;
   private _moveModeActive = false;
+  private _pendingEvent?: { type: string; payload: any };
+  // `<repo root>:<branch>` of gone branches the user was already offered to delete, so fetches don't nag again.
+  private _offeredGoneBranches = new Set<string>();
+  // Operations that moved HEAD or branches, oldest first, per repo root (see OperationJournal).
+  private _journal = new Map<string, JournalEntry[]>();
+  private _journalSeq = 0;
+  // Settles once every finished operation is in the journal; readers wait on it so they never miss the latest one.
+  private _journalWrites: Promise<void> = Promise.resolve();
+  // Last command given to `git bisect run`, offered again next time.
+  private _lastBisectCommand = '';
+  // Reword message files of an interactive rebase stopped at an `edit`, per repo root; removed once the rebase ends.
+  private _rebaseTmpDirs = new Map<string, string>();
 
   constructor(private readonly _extensionUri: vscode.Uri) {
     this._outputChannel = vscode.window.createOutputChannel('GitBit');
@@ -46,19 +76,77 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
     return this._gitRunner;
   }
 
+  /**
+   * Repository root and repo-relative path of a file on disk, or of a `gitbit:` document.
+   */
+  public async resolveRepoPath(uri: vscode.Uri): Promise<{ root: string; path: string } | undefined> {
+    if (uri.scheme === GitContentProvider.scheme) {
+      const root = this.getGitRunnerForUri(uri)?.cwd;
+      return root ? { root, path: uri.path.replace(/^\//, '') } : undefined;
+    }
+    const root = await GitRunner.getRepoRoot(uri);
+    if (!root) return undefined;
+    let fsPath = uri.fsPath;
+    try {
+      fsPath = fs.realpathSync(fsPath);
+    } catch {
+      // ignore
+    }
+    return { root, path: path.relative(root, fsPath).split(path.sep).join('/') };
+  }
+
+  /**
+   * Opens the graph filtered to the history of `uri` (editor title / explorer command).
+   * Switches the graph to the file's repository first if needed.
+   */
+  public async showFileHistory(uri: vscode.Uri) {
+    const located = await this.resolveRepoPath(uri);
+    if (!located) {
+      vscode.window.showWarningMessage('GitBit: this file is not inside a Git repository.');
+      return;
+    }
+    await this._focusAndPost('event/showFileHistory', located);
+  }
+
+  /**
+   * Selects `sha` in the graph (e.g. from a blame annotation), switching to its repository first if needed.
+   * With `preserveFocus`, keyboard focus stays where it is (clicking through annotated lines).
+   */
+  public async revealCommit(root: string, sha: string, preserveFocus = false) {
+    await this._focusAndPost('event/revealCommit', { root, sha }, preserveFocus);
+  }
+
+  public async undoLastOperation() {
+    await this._undoLastOperation();
+  }
+
+  /**
+   * Shows the GitBit view and sends it an event. A webview that isn't loaded yet would drop the event,
+   * so it's held back until the webview sends its first request.
+   */
+  private async _focusAndPost(type: string, payload: any, preserveFocus = false) {
+    const webviewReady = !!this._view;
+    this._pendingEvent = { type, payload };
+    if (webviewReady && preserveFocus) {
+      this._view!.show(true);
+    } else {
+      await vscode.commands.executeCommand(`${GitGraphViewProvider.viewType}.focus`);
+    }
+    if (webviewReady) this._flushPendingEvent();
+  }
+
+  private _flushPendingEvent() {
+    if (!this._view || !this._pendingEvent) return;
+    this._view.webview.postMessage(this._pendingEvent);
+    this._pendingEvent = undefined;
+  }
+
   private _currentRepoRoot() {
     return this._gitRunner?.cwd || this._selectedRepoRoot || undefined;
   }
 
   private _createContentUri(rev: string, p: string) {
-    const root = this._currentRepoRoot();
-    const query = `rev=${encodeURIComponent(rev)}${root ? `&repo=${encodeURIComponent(root)}` : ''}&t=${Date.now()}`;
-    return vscode.Uri.from({
-      scheme: GitContentProvider.scheme,
-      authority: 'commit',
-      path: '/' + p,
-      query
-    });
+    return GitContentProvider.createUri(rev, p, this._currentRepoRoot());
   }
 
   private _ensureEphemeralDiffCloser() {
@@ -92,70 +180,94 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  /**
+   * Repos in the workspace. Workspace folders that are repos themselves are listed right away; nested repos
+   * are found by a background scan (see `_scanNestedRepos`) and announced with `event/reposChanged`.
+   */
   private async _discoverRepos(): Promise<RepoInfo[]> {
     if (this._reposCache) return this._reposCache;
 
-    const folders = vscode.workspace.workspaceFolders || [];
-    const seen = new Set<string>();
+    const generation = ++this._repoScanGeneration;
     const repos: RepoInfo[] = [];
+    this._reposCache = repos;
 
-    const addRepo = (root: string, label: string) => {
-      if (!root || seen.has(root)) return;
-      seen.add(root);
-      repos.push({ root, label });
-    };
-
-    for (const folder of folders) {
+    for (const folder of vscode.workspace.workspaceFolders || []) {
       // Include the workspace folder itself if it's a repo.
       const top = await GitRunner.getRepoRoot(folder.uri);
-      if (top) addRepo(top, folder.name);
-
-      // Find repos one level down (direct children only).
-      // We avoid vscode.workspace.findFiles('**/.git/config') because many VS Code setups exclude `.git` from search.
-      const folderFsPath = folder.uri.fsPath;
-      let entries: fs.Dirent[] = [];
-      try {
-        entries = await fs.promises.readdir(folderFsPath, { withFileTypes: true });
-      } catch {
-        entries = [];
-      }
+      if (generation !== this._repoScanGeneration) return this._reposCache ?? repos;
+      if (top) await this._addDiscoveredRepo(repos, top, folder.name);
+    }
 
-      const ignoreNames = new Set(['node_modules', 'dist', '.git']);
-      for (const ent of entries) {
-        if (ignoreNames.has(ent.name)) continue;
-        // Skip hidden folders to reduce noise (e.g. .Trash, .config, etc.)
-        if (ent.name.startsWith('.')) continue;
+    this._repoScanRunning = true;
+    void this._scanNestedRepos(repos, generation).finally(() => {
+      if (generation !== this._repoScanGeneration) return;
+      this._repoScanRunning = false;
+      this._notifyReposChanged();
+    });
+    return repos;
+  }
 
-        const childRoot = path.join(folderFsPath, ent.name);
-        // On macOS, Desktop entries may be symlinks (e.g. iCloud Drive) — treat symlinked directories as candidates.
-        if (!ent.isDirectory()) {
-          if (!ent.isSymbolicLink()) continue;
-          try {
-            const st = await fs.promises.stat(childRoot);
-            if (!st.isDirectory()) continue;
-          } catch {
-            continue;
-          }
-        }
+  private async _scanNestedRepos(repos: RepoInfo[], generation: number) {
+    const config = vscode.workspace.getConfiguration('gitbit.repositoryScan');
+    const options: RepoScanOptions = {
+      depth: Math.max(0, Math.min(Number(config.get('depth', 1)) || 0, 10)),
+      include: config.get<string[]>('include', []),
+      exclude: config.get<string[]>('exclude', [])
+    };
+    const multiRoot = (vscode.workspace.workspaceFolders || []).length > 1;
 
-        const gitMarker = path.join(childRoot, '.git');
-        try {
-          // `.git` can be a directory (normal repo) or a file (worktrees/submodules) — both count as repo markers.
-          await fs.promises.stat(gitMarker);
-        } catch {
-          continue;
-        }
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      try {
+        await RepoScanner.scan(
+          folder.uri.fsPath,
+          options,
+          async (dir, relativePath) => {
+            const root = await GitRunner.getRepoRoot(vscode.Uri.file(dir));
+            if (!root || generation !== this._repoScanGeneration) return;
+            if (await this._addDiscoveredRepo(repos, root, multiRoot ? `${folder.name}/${relativePath}` : relativePath)) {
+              this._notifyReposChanged();
+            }
+          },
+          () => generation !== this._repoScanGeneration
+        );
+      } catch (err: any) {
+        this._outputChannel.appendLine(`Repository scan of ${folder.uri.fsPath} failed: ${err?.message ?? String(err)}`);
+      }
+    }
+  }
 
-        const childRepoRoot = await GitRunner.getRepoRoot(vscode.Uri.file(childRoot));
-        if (childRepoRoot) {
-          // Since we only scan one level down, label can just be the folder name.
-          addRepo(childRepoRoot, ent.name);
-        }
+  /** Adds a repo and its linked worktrees to `repos`; returns false if it was already listed. */
+  private async _addDiscoveredRepo(repos: RepoInfo[], root: string, label: string) {
+    if (repos.some(r => r.root === root)) return false;
+    repos.push({ root, label });
+
+    // Linked worktrees usually live next to the repo rather than inside the workspace; list them with their repo.
+    const res = await new GitRunner(root).run(['worktree', 'list', '--porcelain']);
+    if (res.exitCode === 0) {
+      for (const worktree of GitWorktreeParser.parse(res.stdout)) {
+        if (worktree.main || worktree.bare || worktree.prunable || repos.some(r => r.root === worktree.path)) continue;
+        repos.push({ root: worktree.path, label: `${path.basename(worktree.path)} (${label} worktree)` });
       }
     }
+    return true;
+  }
 
-    this._reposCache = repos;
-    return repos;
+  /** Drops the repo list and starts a new scan the next time it's requested. */
+  private _invalidateRepos(reason: string) {
+    this._outputChannel.appendLine(`Repository list invalidated (${reason}).`);
+    this._repoScanGeneration++;
+    this._repoScanRunning = false;
+    this._reposCache = null;
+    this._notifyReposChanged();
+  }
+
+  private _notifyReposChanged() {
+    if (this._reposChangedTimer) return;
+    // Scans can find many repos in a burst; let the webview re-list them at most twice a second.
+    this._reposChangedTimer = setTimeout(() => {
+      this._reposChangedTimer = undefined;
+      this._view?.webview.postMessage({ type: 'event/reposChanged' });
+    }, 500);
   }
 
   private async _getRepoMeta(root: string): Promise<Pick<RepoInfo, 'lastCommitUnix' | 'hasUncommittedChanges' | 'currentBranch'>> {
@@ -185,6 +297,84 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  /** Everything the repo overview shows for one repo: the dropdown meta plus upstream, stash and fetch state. */
+  private async _getRepoOverview(repo: RepoInfo): Promise<RepoOverview> {
+    const runner = this._gitRunnersByRoot.get(repo.root) || new GitRunner(repo.root);
+    if (!this._gitRunnersByRoot.has(repo.root)) this._gitRunnersByRoot.set(repo.root, runner);
+
+    const [meta, upstreamRes, countsRes, stashRes, fetchHeadRes] = await Promise.all([
+      this._getRepoMeta(repo.root),
+      runner.run(['rev-parse', '--abbrev-ref', '--symbolic-full-name', '@{upstream}']),
+      runner.run(['rev-list', '--left-right', '--count', 'HEAD...@{upstream}']),
+      runner.run(['rev-list', '--walk-reflogs', '--count', 'refs/stash']),
+      runner.run(['rev-parse', '--git-path', 'FETCH_HEAD'])
+    ]);
+
+    const overview: RepoOverview = { ...repo, ...meta, stashCount: 0 };
+    if (upstreamRes.exitCode === 0 && countsRes.exitCode === 0) {
+      const [ahead, behind] = countsRes.stdout.trim().split(/\s+/).map(Number);
+      overview.upstream = upstreamRes.stdout.trim();
+      overview.ahead = ahead || 0;
+      overview.behind = behind || 0;
+    }
+    // Without any stash, refs/stash doesn't exist and rev-list fails.
+    if (stashRes.exitCode === 0) overview.stashCount = Number(stashRes.stdout.trim()) || 0;
+    if (fetchHeadRes.exitCode === 0) {
+      try {
+        // --git-path is relative to the repo root unless the git dir lives elsewhere.
+        const stat = await fs.promises.stat(path.resolve(repo.root, fetchHeadRes.stdout.trim()));
+        overview.lastFetchUnix = Math.floor(stat.mtimeMs / 1000);
+      } catch {
+        // Never fetched.
+      }
+    }
+    return overview;
+  }
+
+  /**
+   * Runs `action` in each of the given repos one after another under a progress notification, and warns about
+   * the repos where it failed. Repos outside the discovered list are ignored.
+   */
+  private async _runAcrossRepos(
+    title: string,
+    roots: string[],
+    action: (runner: GitRunner, repo: RepoInfo) => Promise<RepoBulkResult>
+  ): Promise<RepoBulkResult[]> {
+    const repos = (await this._discoverRepos()).filter(r => roots.includes(r.root));
+    const results: RepoBulkResult[] = [];
+
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title, cancellable: true },
+      async (progress, token) => {
+        for (const repo of repos) {
+          if (token.isCancellationRequested) {
+            results.push({ root: repo.root, status: 'skipped', message: 'Cancelled' });
+            continue;
+          }
+          progress.report({ message: repo.label, increment: 100 / repos.length });
+          const runner = this._gitRunnersByRoot.get(repo.root) || new GitRunner(repo.root);
+          try {
+            results.push(await action(runner, repo));
+          } catch (err: any) {
+            results.push({ root: repo.root, status: 'failed', message: err?.message ?? String(err) });
+          }
+        }
+      }
+    );
+
+    const failed = results.filter(r => r.status === 'failed');
+    for (const result of failed) {
+      this._outputChannel.appendLine(`${title} failed in ${result.root}: ${result.message}`);
+    }
+    if (failed.length > 0) {
+      const labels = failed.map(f => repos.find(r => r.root === f.root)?.label ?? f.root);
+      vscode.window.showWarningMessage(`${title} failed in ${failed.length} of ${repos.length} repos: ${labels.join(', ')}`);
+    }
+    const current = this._currentRepoRoot();
+    if (current && roots.includes(current)) this._notifyRepoChanged(title.toLowerCase());
+    return results;
+  }
+
   private _notifyRepoChanged(reason?: string) {
     if (this._repoChangedTimer) clearTimeout(this._repoChangedTimer);
     this._repoChangedTimer = setTimeout(() => {
@@ -210,7 +400,13 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
 
     webviewView.webview.onDidReceiveMessage(async (message: RequestMessage) => {
       this._outputChannel.appendLine(`Received message: ${message.type} (${message.requestId})`);
+      this._flushPendingEvent();
+      // Operations that can move HEAD or a branch are journaled when they do, so they can be undone later.
+      // Bisect steps only check out commits to test and are ended with a bisect reset instead.
+      const journalRunner = OperationJournal.isJournaled(message.type) ? this._gitRunner : undefined;
+      let journalBefore: RefSnapshot | null = null;
       try {
+        if (journalRunner) journalBefore = await OperationJournal.snapshot(journalRunner);
         switch (message.type) {
           case 'ui/moveMode': {
             this._moveModeActive = !!message.payload?.active;
@@ -234,7 +430,48 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
               return a.label.localeCompare(b.label);
             });
 
-            this._sendResponse(message.requestId, enriched);
+            this._sendResponse(message.requestId, { repos: enriched, scanning: this._repoScanRunning } as RepoList);
+            break;
+          }
+          case 'repos/overview': {
+            const base = await this._discoverRepos();
+            const overview: RepoOverview[] = [];
+            let nextRepo = 0;
+            const workers = Math.min(GitGraphViewProvider.REPO_OVERVIEW_CONCURRENCY, base.length);
+            await Promise.all(Array.from({ length: workers }, async () => {
+              while (nextRepo < base.length) overview.push(await this._getRepoOverview(base[nextRepo++]));
+            }));
+            overview.sort((a, b) => a.label.localeCompare(b.label));
+            this._sendResponse(message.requestId, { repos: overview, scanning: this._repoScanRunning });
+            break;
+          }
+          case 'repos/fetchAll': {
+            const roots: string[] = Array.isArray(message.payload?.roots) ? message.payload.roots.map(String) : [];
+            const results = await this._runAcrossRepos('Fetch', roots, async (runner, repo) => {
+              // Same as the toolbar Fetch, but slow remotes get longer since repos are fetched one after another.
+              const res = await runner.run(['fetch', '--all', '--prune', '--tags'], 60000);
+              return res.exitCode === 0
+                ? { root: repo.root, status: 'ok' }
+                : { root: repo.root, status: 'failed', message: res.stderr.trim() };
+            });
+            this._sendResponse(message.requestId, results);
+            break;
+          }
+          case 'repos/pullAll': {
+            const roots: string[] = Array.isArray(message.payload?.roots) ? message.payload.roots.map(String) : [];
+            const results = await this._runAcrossRepos('Pull', roots, async (runner, repo) => {
+              const upstreamRes = await runner.run(['rev-parse', '--abbrev-ref', '--symbolic-full-name', '@{upstream}']);
+              if (upstreamRes.exitCode !== 0) {
+                return { root: repo.root, status: 'skipped', message: 'No upstream branch' };
+              }
+              // --ff-only never creates merges or conflicts, so it's safe to run unattended, even with local changes:
+              // git refuses instead of overwriting them. Each repo journals its pull, as a single-repo pull would.
+              const res = await this._journaled(runner, 'git/pull', () => runner.run(['pull', '--ff-only', '--tags'], 60000));
+              return res.exitCode === 0
+                ? { root: repo.root, status: 'ok' }
+                : { root: repo.root, status: 'failed', message: res.stderr.trim() };
+            });
+            this._sendResponse(message.requestId, results);
             break;
           }
           case 'repo/select': {
@@ -287,17 +524,24 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
               this._sendError(message.requestId, 'No repository found');
               return;
             }
-            const limit = message.payload?.limit || 500;
+            const limit = Math.max(1, Number(message.payload?.limit) || 500);
+            const skip = Math.max(0, Number(message.payload?.skip) || 0);
+            const afterSha = typeof message.payload?.afterSha === 'string' ? message.payload.afterSha : '';
             const branch = message.payload?.branch || 'HEAD';
-            const logFormat = '%H%x09%P%x09%an%x09%ae%x09%ad%x09%s%x09%D';
-            
+            // Paging: when continuing after a known commit, re-read that commit as well so we can verify
+            // the cursor still points at the same place in history. Ask for one extra commit to learn "hasMore".
+            const verifyCursor = skip > 0 && !!afterSha;
+            const effectiveSkip = verifyCursor ? skip - 1 : skip;
+            const effectiveLimit = limit + 1 + (verifyCursor ? 1 : 0);
+
             const args = [
               'log',
               '--topo-order',
-              `-n`, `${limit}`,
+              `-n`, `${effectiveLimit}`,
               '--date=iso-strict',
-              `--pretty=format:${logFormat}`
+              `--pretty=format:${GitGraphViewProvider.LOG_FORMAT}`
             ];
+            if (effectiveSkip > 0) args.push(`--skip=${effectiveSkip}`);
 
             if (branch === '--all') {
               args.push('--all');
@@ -311,13 +555,25 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
             const { stdout, exitCode, stderr } = await this._gitRunner.run(args);
 
             if (exitCode === 0) {
-              const commits = GitLogParser.parseLog(stdout).map(c => ({
+              let commits = GitLogParser.parseLog(stdout).map(c => ({
                 ...c,
                 refs: GitLogParser.parseDecorations(c.decorations)
               }));
 
-              // Check for uncommitted changes
-              if (branch === 'HEAD' || branch === '--all') {
+              if (verifyCursor) {
+                if (commits[0]?.sha !== afterSha) {
+                  this._outputChannel.appendLine(`commits/list cursor mismatch at skip=${skip}; history changed.`);
+                  this._sendResponse(message.requestId, { commits: [], hasMore: false, cursorMismatch: true } as CommitPage);
+                  break;
+                }
+                commits = commits.slice(1);
+              }
+
+              const hasMore = commits.length > limit;
+              if (hasMore) commits = commits.slice(0, limit);
+
+              // Check for uncommitted changes (first page only)
+              if (skip === 0 && (branch === 'HEAD' || branch === '--all')) {
                 const statusRes = await this._gitRunner.run(['status', '--porcelain']);
                 if (statusRes.exitCode === 0 && statusRes.stdout.trim().length > 0) {
                   const lines = statusRes.stdout.trim().split('\n');
@@ -334,13 +590,184 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
                 }
               }
 
-              this._outputChannel.appendLine(`Successfully fetched ${commits.length} commits.`);
-              this._sendResponse(message.requestId, commits);
+              this._outputChannel.appendLine(`Successfully fetched ${commits.length} commits (skip=${skip}, hasMore=${hasMore}).`);
+              this._sendResponse(message.requestId, { commits, hasMore } as CommitPage);
             } else {
               this._outputChannel.appendLine(`Git log failed: ${stderr}`);
               this._sendError(message.requestId, 'Failed to fetch commits', stderr);
             }
             break;
+          case 'commits/search': {
+            if (!this._gitRunner) {
+              await this._resolveRepo();
+            }
+            if (!this._gitRunner) {
+              this._sendError(message.requestId, 'No repository found');
+              return;
+            }
+            const query = String(message.payload?.query || '');
+            const limit = Math.max(1, Number(message.payload?.limit) || 500);
+            const skip = Math.max(0, Number(message.payload?.skip) || 0);
+            const branch = message.payload?.branch || 'HEAD';
+
+            const filters = SearchQueryParser.parse(query);
+            if (SearchQueryParser.isEmpty(filters)) {
+              this._sendResponse(message.requestId, { commits: [], hasMore: false } as CommitPage);
+              break;
+            }
+
+            const args = [
+              'log',
+              '--topo-order',
+              '-n', `${limit + 1}`,
+              '--date=iso-strict',
+              `--pretty=format:${GitGraphViewProvider.LOG_FORMAT}`,
+              ...SearchQueryParser.toLogArgs(filters)
+            ];
+            if (skip > 0) args.push(`--skip=${skip}`);
+            args.push(branch === '--all' ? '--all' : branch);
+            if (filters.paths.length > 0) args.push('--', ...filters.paths);
+
+            this._outputChannel.appendLine(`Searching: git ${args.join(' ')}`);
+            // Pickaxe and path searches walk the whole history, so allow more time than a plain log.
+            const searchRes = await this._gitRunner.run(args, 60000);
+            if (searchRes.exitCode !== 0) {
+              this._sendError(message.requestId, 'Search failed', searchRes.stderr);
+              break;
+            }
+
+            let commits = GitLogParser.parseLog(searchRes.stdout).map(c => ({
+              ...c,
+              refs: GitLogParser.parseDecorations(c.decorations)
+            }));
+            const hasMore = commits.length > limit;
+            if (hasMore) commits = commits.slice(0, limit);
+
+            const hashLike = SearchQueryParser.hashPrefix(filters);
+            let hashMatch: Commit | undefined;
+            if (hashLike && skip === 0 && !commits.some(c => c.sha.startsWith(hashLike))) {
+              const byHashRes = await this._gitRunner.run([
+                'log',
+                '-n', '1',
+                '--date=iso-strict',
+                `--pretty=format:${GitGraphViewProvider.LOG_FORMAT}`,
+                `${hashLike}^{commit}`
+              ]);
+              if (byHashRes.exitCode === 0) {
+                hashMatch = GitLogParser.parseLog(byHashRes.stdout).map(c => ({
+                  ...c,
+                  refs: GitLogParser.parseDecorations(c.decorations)
+                }))[0];
+              }
+            }
+
+            this._sendResponse(message.requestId, { commits, hasMore, hashMatch } as CommitPage);
+            break;
+          }
+          case 'commits/fileHistory': {
+            if (!this._gitRunner) {
+              await this._resolveRepo();
+            }
+            if (!this._gitRunner) {
+              this._sendError(message.requestId, 'No repository found');
+              return;
+            }
+            const historyPath = String(message.payload?.path || '');
+            if (!historyPath) {
+              this._sendError(message.requestId, 'Missing file path');
+              break;
+            }
+            const limit = Math.max(1, Number(message.payload?.limit) || 500);
+            const skip = Math.max(0, Number(message.payload?.skip) || 0);
+            const branch = message.payload?.branch || 'HEAD';
+
+            // `--follow` only works with a single path, which is exactly what we have. Both runs walk the same
+            // history, so their pages line up: one gives the rows, the other the file's name in each commit.
+            const rangeArgs = ['--follow', '-n', `${limit + 1}`];
+            if (skip > 0) rangeArgs.push(`--skip=${skip}`);
+            rangeArgs.push(branch === '--all' ? '--all' : branch, '--', historyPath);
+
+            const [logRes, namesRes] = await Promise.all([
+              this._gitRunner.run(['log', '--date=iso-strict', `--pretty=format:${GitGraphViewProvider.LOG_FORMAT}`, ...rangeArgs], 60000),
+              this._gitRunner.run(['log', '--format=%x1e%H', '--name-status', ...rangeArgs], 60000)
+            ]);
+            if (logRes.exitCode !== 0) {
+              this._sendError(message.requestId, 'Failed to load file history', logRes.stderr);
+              break;
+            }
+
+            let commits = GitLogParser.parseLog(logRes.stdout).map(c => ({
+              ...c,
+              refs: GitLogParser.parseDecorations(c.decorations)
+            }));
+            const hasMore = commits.length > limit;
+            if (hasMore) commits = commits.slice(0, limit);
+
+            const changes: Record<string, Change> = {};
+            if (namesRes.exitCode === 0) {
+              for (const record of namesRes.stdout.split('\x1e')) {
+                const newline = record.indexOf('\n');
+                if (newline < 0) continue;
+                const sha = record.substring(0, newline).trim();
+                // Merge commits have no name-status lines; their rows simply don't get a file diff.
+                const [change] = this._parseChanges(record.substring(newline + 1));
+                if (sha && change) changes[sha] = change;
+              }
+            }
+
+            this._sendResponse(message.requestId, { commits, hasMore, changes } as FileHistoryPage);
+            break;
+          }
+          case 'commits/reflog': {
+            if (!this._gitRunner) {
+              await this._resolveRepo();
+            }
+            if (!this._gitRunner) {
+              this._sendError(message.requestId, 'No repository found');
+              return;
+            }
+            const limit = Math.max(1, Number(message.payload?.limit) || 500);
+            const skip = Math.max(0, Number(message.payload?.skip) || 0);
+            this._sendResponse(message.requestId, await this._readReflog(this._gitRunner, skip, limit));
+            break;
+          }
+          case 'commits/signatures': {
+            if (!this._gitRunner) return;
+            const signatureShas: string[] = Array.isArray(message.payload?.shas)
+              ? (message.payload.shas as any[]).map(s => String(s)).filter(s => /^[0-9a-f]{40}$/i.test(s))
+              : [];
+            if (signatureShas.length === 0) {
+              this._sendResponse(message.requestId, {});
+              break;
+            }
+            // Kept out of commits/list because verifying runs gpg / ssh-keygen once per signed commit.
+            const signaturesRes = await this._gitRunner.run(
+              ['show', '-s', '--no-walk=unsorted', '--format=%H%x09%G?', ...signatureShas],
+              60000
+            );
+            if (signaturesRes.exitCode !== 0) {
+              this._outputChannel.appendLine(`Failed to verify signatures: ${signaturesRes.stderr.trim()}`);
+              this._sendError(message.requestId, 'Failed to verify signatures', signaturesRes.stderr);
+              break;
+            }
+            const statuses: Record<string, SignatureStatus> = {};
+            for (const line of signaturesRes.stdout.split('\n')) {
+              const [sha, status] = line.split('\t');
+              if (sha && status) statuses[sha] = status as SignatureStatus;
+            }
+            // As in commit/details: a signed commit git can't verify (SSH without allowedSignersFile) reads as 'N'.
+            const unsignedShas = Object.keys(statuses).filter(sha => statuses[sha] === 'N');
+            if (unsignedShas.length > 0) {
+              const rawRes = await this._gitRunner.run(['show', '-s', '--no-walk=unsorted', '--pretty=raw', ...unsignedShas], 60000);
+              let rawSha = '';
+              for (const line of rawRes.exitCode === 0 ? rawRes.stdout.split('\n') : []) {
+                if (line.startsWith('commit ')) rawSha = line.substring(7).trim();
+                else if (/^gpgsig(-sha256)? /.test(line) && statuses[rawSha] === 'N') statuses[rawSha] = 'E';
+              }
+            }
+            this._sendResponse(message.requestId, statuses);
+            break;
+          }
           case 'branches/list':
             if (!this._gitRunner) {
               await this._resolveRepo();
@@ -351,23 +778,38 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
               return;
             }
             this._outputChannel.appendLine('Fetching branches...');
-            const branchesRes = await this._gitRunner.run([
+            const branchesRes = await this._runWithWorktreePath(this._gitRunner, [
               'branch',
               '-a',
               '--sort=-committerdate',
               // Use full refname to correctly detect remotes (refname:short returns "origin/foo" for refs/remotes/origin/foo).
-              '--format=%(refname)%09%(refname:short)%09%(HEAD)'
+              '--format=%(refname)%09%(refname:short)%09%(HEAD)%09%(worktreepath)%09%(upstream:short)%09%(upstream:track,nobracket)%09%(committerdate:unix)'
             ]);
             if (branchesRes.exitCode === 0) {
               const branches = branchesRes.stdout.split('\n')
                 .filter(l => l.trim().length > 0)
                 .map(line => {
-                  const [refname, shortName, head] = line.split('\t');
-                  return {
+                  const [refname, shortName, head, worktreePath, upstream, track, committerUnix] = line.split('\t');
+                  const current = head.trim() === '*';
+                  const branch: Branch = {
                     name: shortName,
                     remote: refname.startsWith('refs/remotes/'),
-                    current: head.trim() === '*'
+                    current,
+                    // %(worktreepath) is also set for the branch checked out here; only other worktrees lock a branch.
+                    worktree: !current && worktreePath ? worktreePath : undefined,
+                    lastCommitUnix: Number(committerUnix) || undefined
                   };
+                  if (upstream) {
+                    // The track is e.g. "ahead 2, behind 1", empty when in sync, or "gone" when the upstream was deleted.
+                    branch.upstream = upstream;
+                    if (track === 'gone') {
+                      branch.upstreamGone = true;
+                    } else {
+                      branch.ahead = Number(/ahead (\d+)/.exec(track || '')?.[1] || 0);
+                      branch.behind = Number(/behind (\d+)/.exec(track || '')?.[1] || 0);
+                    }
+                  }
+                  return branch;
                 });
               this._sendResponse(message.requestId, branches);
             } else {
@@ -392,17 +834,41 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
               'show',
               '-s',
               '--date=iso-strict',
-              '--pretty=format:%H%n%an%n%ae%n%ad%n%P%n%B',
+              // %G? verifies the signature (runs gpg / ssh-keygen), which is fine for a single commit.
+              // Trailers come unfolded on one line, separated by \x1f.
+              '--pretty=format:%H%n%an%n%ae%n%ad%n%cn%n%ce%n%cd%n%P%n%G?%n%GS%n%GK%n%(trailers:only,unfold,separator=%x1f)%n%B',
               message.payload.sha
             ]);
             if (detailsResult.exitCode === 0) {
-              const [sha, authorName, authorEmail, authorDateIso, parentsRaw, ...messageBodyLines] = detailsResult.stdout.split('\n');
+              const [
+                sha, authorName, authorEmail, authorDateIso, committerName, committerEmail, committerDateIso,
+                parentsRaw, signatureStatus, signer, signingKey, trailersRaw, ...messageBodyLines
+              ] = detailsResult.stdout.split('\n');
+              const trailers: CommitTrailer[] = (trailersRaw || '').split('\x1f')
+                .map(trailer => {
+                  const colon = trailer.indexOf(':');
+                  return { key: trailer.substring(0, colon).trim(), value: trailer.substring(colon + 1).trim() };
+                })
+                .filter(trailer => trailer.key && trailer.value);
+              const signature: CommitSignature = { status: (signatureStatus || 'N') as SignatureStatus };
+              if (signature.status === 'N') {
+                // SSH signatures read as unsigned when gpg.ssh.allowedSignersFile isn't set up; don't claim that.
+                const rawRes = await this._gitRunner.run(['cat-file', 'commit', sha]);
+                if (/^gpgsig(-sha256)? /m.test(rawRes.stdout.split('\n\n')[0])) signature.status = 'E';
+              }
+              if (signer) signature.signer = signer;
+              if (signingKey) signature.key = signingKey;
               this._sendResponse(message.requestId, {
                 sha,
                 authorName,
                 authorEmail,
                 authorDateIso,
+                committerName,
+                committerEmail,
+                committerDateIso,
                 parents: parentsRaw ? parentsRaw.split(' ') : [],
+                signature,
+                trailers,
                 subject: messageBodyLines[0] || '',
                 message: messageBodyLines.join('\n')
               });
@@ -428,8 +894,19 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
                     // If X is not space, it's staged. If Y is not space, it's unstaged.
                     // For simplicity, we just take the first non-space character as status.
                     const char = status[0] !== ' ' ? status[0] : status[1];
-                    return { status: char as any, path: rest };
+                    return { status: char as any, path: rest } as Change;
                   });
+                // Porcelain status has no file modes; look up submodule pointers separately when the repo has any.
+                if (fs.existsSync(path.join(this._gitRunner.cwd, '.gitmodules'))) {
+                  const rawRes = await this._gitRunner.run(['diff', '--raw', '--no-abbrev', 'HEAD']);
+                  if (rawRes.exitCode === 0) {
+                    const submodules = new Map(this._parseChanges(rawRes.stdout).filter(c => c.submodule).map(c => [c.path, c.submodule]));
+                    for (const change of changes) {
+                      const submodule = submodules.get(change.path);
+                      if (submodule) change.submodule = submodule;
+                    }
+                  }
+                }
                 this._sendResponse(message.requestId, changes);
               } else {
                 this._sendError(message.requestId, 'Failed to fetch uncommitted changes');
@@ -446,7 +923,9 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
             const baseArgs = [
               'diff-tree',
               '--no-commit-id',
-              '--name-status',
+              // Raw output includes file modes, which is how submodule (gitlink) entries are told apart.
+              '--raw',
+              '--no-abbrev',
               '-r',
               '-M', // detect renames
               '-C', // detect copies
@@ -475,7 +954,8 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
             const targetRef = message.payload.target === GitGraphViewProvider.UNCOMMITTED_SHA ? '' : message.payload.target;
             const rangeArgs = [
               'diff',
-              '--name-status',
+              '--raw',
+              '--no-abbrev',
               '--find-renames',
               message.payload.base
             ];
@@ -489,6 +969,227 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
               this._sendError(message.requestId, 'Failed to fetch range changes');
             }
             break;
+          case 'submodule/summary': {
+            if (!this._gitRunner) return;
+            const subPath = String(message.payload?.path || '');
+            const subRoot = path.join(this._gitRunner.cwd, subPath);
+            const summaryLimit = 50;
+            const summary: SubmoduleSummary = { initialized: false, added: [], removed: [], hasMore: false };
+            // An uninitialized submodule is just an empty folder (no `.git` file or directory inside).
+            if (!subPath || !fs.existsSync(path.join(subRoot, '.git'))) {
+              this._sendResponse(message.requestId, summary);
+              break;
+            }
+            const subRunner = new GitRunner(subRoot);
+            summary.initialized = true;
+            summary.oldSha = message.payload?.oldSha || undefined;
+            // Uncommitted pointer changes don't record a new sha; use what the submodule has checked out.
+            summary.newSha = message.payload?.newSha || (await subRunner.run(['rev-parse', 'HEAD'])).stdout.trim() || undefined;
+
+            const subLog = (range: string[]) => subRunner.run([
+              'log',
+              '-n', `${summaryLimit + 1}`,
+              '--date=iso-strict',
+              `--pretty=format:${GitGraphViewProvider.LOG_FORMAT}`,
+              ...range
+            ], 60000);
+            const toCommits = (stdout: string) => GitLogParser.parseLog(stdout).map(c => ({
+              ...c,
+              refs: GitLogParser.parseDecorations(c.decorations)
+            }));
+            const shas = [summary.oldSha, summary.newSha].filter((s): s is string => !!s);
+            const missing = await Promise.all(shas.map(async s => (await subRunner.run(['cat-file', '-e', `${s}^{commit}`])).exitCode !== 0));
+            if (missing.some(Boolean)) {
+              summary.missingCommits = true;
+              this._sendResponse(message.requestId, summary);
+              break;
+            }
+
+            if (summary.newSha) {
+              const addedRes = await subLog(summary.oldSha ? [`${summary.oldSha}..${summary.newSha}`] : [summary.newSha]);
+              const added = addedRes.exitCode === 0 ? toCommits(addedRes.stdout) : [];
+              summary.added = added.slice(0, summaryLimit);
+              summary.hasMore = added.length > summaryLimit;
+            }
+            if (summary.oldSha && summary.newSha) {
+              const removedRes = await subLog([`${summary.newSha}..${summary.oldSha}`]);
+              const removed = removedRes.exitCode === 0 ? toCommits(removedRes.stdout) : [];
+              summary.removed = removed.slice(0, summaryLimit);
+              summary.hasMore = summary.hasMore || removed.length > summaryLimit;
+            }
+            this._sendResponse(message.requestId, summary);
+            break;
+          }
+          case 'submodule/open': {
+            if (!this._gitRunner) return;
+            const subPath = String(message.payload?.path || '');
+            const subRoot = path.join(this._gitRunner.cwd, subPath);
+            if (!subPath || !fs.existsSync(path.join(subRoot, '.git'))) {
+              const init = await vscode.window.showWarningMessage(
+                `The submodule "${subPath}" is not initialized. Clone it now?`,
+                { modal: true },
+                'Initialize'
+              );
+              if (init !== 'Initialize') {
+                this._sendError(message.requestId, 'Open cancelled: submodule not initialized');
+                break;
+              }
+              const initRes = await this._gitRunner.run(['submodule', 'update', '--init', '--', subPath], 300000);
+              if (initRes.exitCode !== 0) {
+                vscode.window.showErrorMessage(`Failed to initialize submodule "${subPath}": ${initRes.stderr.trim()}`);
+                this._sendError(message.requestId, 'Failed to initialize submodule', initRes.stderr);
+                break;
+              }
+              this._notifyRepoChanged('submodule init');
+            }
+            const topRes = await new GitRunner(subRoot).run(['rev-parse', '--show-toplevel']);
+            if (topRes.exitCode !== 0) {
+              vscode.window.showErrorMessage(`"${subPath}" is not a git repository.`);
+              this._sendError(message.requestId, 'Not a git repository', topRes.stderr);
+              break;
+            }
+            const subTop = topRes.stdout.trim();
+            // Make sure the repo dropdown can show it, even though discovery doesn't descend into submodules.
+            const repos = await this._discoverRepos();
+            if (!repos.some(r => r.root === subTop)) {
+              const parentLabel = repos.find(r => r.root === this._gitRunner!.cwd)?.label || path.basename(this._gitRunner.cwd);
+              repos.push({ root: subTop, label: `${parentLabel}/${subPath}` });
+            }
+            this._sendResponse(message.requestId, { root: subTop });
+            break;
+          }
+          case 'compare/pickRef': {
+            if (!this._gitRunner) return;
+            const exclude = String(message.payload?.exclude || '');
+            const refsRes = await this._gitRunner.run([
+              'for-each-ref',
+              '--sort=-committerdate',
+              '--format=%(refname)%09%(refname:short)%09%(objectname:short)%09%(contents:subject)',
+              'refs/heads',
+              'refs/remotes',
+              'refs/tags'
+            ]);
+            type RefItem = vscode.QuickPickItem & { ref?: string };
+            const items: RefItem[] = [{ label: 'HEAD', description: 'current checkout', ref: 'HEAD' }];
+            const sections: Record<string, RefItem[]> = { heads: [], remotes: [], tags: [] };
+            if (refsRes.exitCode === 0) {
+              for (const line of refsRes.stdout.split('\n').filter(Boolean)) {
+                const [refname, shortName, sha, subject] = line.split('\t');
+                const section = refname.split('/')[1];
+                if (!sections[section] || shortName === exclude || refname.endsWith('/HEAD')) continue;
+                sections[section].push({ label: shortName, description: sha, detail: subject, ref: shortName });
+              }
+            }
+            for (const [label, list] of [['Branches', sections.heads], ['Remote branches', sections.remotes], ['Tags', sections.tags]] as const) {
+              if (list.length === 0) continue;
+              items.push({ label, kind: vscode.QuickPickItemKind.Separator }, ...list);
+            }
+            items.push({ label: '', kind: vscode.QuickPickItemKind.Separator }, { label: '$(edit) Other revision…', ref: '' });
+
+            const picked = await vscode.window.showQuickPick(items, {
+              title: message.payload?.title || 'Compare with…',
+              placeHolder: 'Pick a branch, tag or commit',
+              matchOnDescription: true
+            });
+            if (!picked) {
+              this._sendResponse(message.requestId, null);
+              break;
+            }
+            let pickedRef = picked.ref;
+            if (!pickedRef) {
+              pickedRef = (await vscode.window.showInputBox({
+                prompt: 'Commit, branch, tag or any other revision (e.g. HEAD~3, v1.2^)',
+                validateInput: async (value) => {
+                  if (!value.trim()) return 'Enter a revision';
+                  const res = await this._gitRunner!.run(['rev-parse', '--verify', '--quiet', `${value.trim()}^{commit}`]);
+                  return res.exitCode === 0 ? undefined : `"${value.trim()}" is not a commit`;
+                }
+              }))?.trim();
+            }
+            this._sendResponse(message.requestId, pickedRef || null);
+            break;
+          }
+          case 'compare/refs': {
+            if (!this._gitRunner) return;
+            const leftRef = String(message.payload?.left || '').trim();
+            const rightRef = String(message.payload?.right || '').trim();
+            const compareMode: CompareMode = message.payload?.mode === 'three-dot' ? 'three-dot' : 'two-dot';
+            const commitLimit = 200;
+            // The working tree can only be the right side; its history is HEAD's.
+            const isWorkingTree = rightRef === GitGraphViewProvider.UNCOMMITTED_SHA;
+            if (leftRef === GitGraphViewProvider.UNCOMMITTED_SHA) {
+              this._sendError(message.requestId, 'The working tree can only be compared on the right side');
+              break;
+            }
+
+            const resolveCommit = async (ref: string) => {
+              const res = await this._gitRunner!.run(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+              return res.exitCode === 0 ? res.stdout.trim() : '';
+            };
+            const [leftSha, rightSha] = await Promise.all([resolveCommit(leftRef), resolveCommit(isWorkingTree ? 'HEAD' : rightRef)]);
+            if (!leftSha || !rightSha) {
+              this._sendError(message.requestId, !leftSha
+                ? `"${leftRef}" is not a commit`
+                : isWorkingTree ? 'The repository has no commits yet' : `"${rightRef}" is not a commit`);
+              break;
+            }
+
+            const mergeBaseRes = await this._gitRunner.run(['merge-base', leftSha, rightSha]);
+            const mergeBase = mergeBaseRes.exitCode === 0 ? mergeBaseRes.stdout.trim() : undefined;
+            if (compareMode === 'three-dot' && !mergeBase) {
+              this._sendError(message.requestId, `${leftRef} and ${rightRef} have no common history; use a direct comparison instead.`);
+              break;
+            }
+            const diffBase = compareMode === 'three-dot' ? mergeBase! : leftSha;
+
+            const uniqueCommits = (from: string, to: string) => this._gitRunner!.run([
+              'log',
+              '-n', `${commitLimit + 1}`,
+              '--date=iso-strict',
+              `--pretty=format:${GitGraphViewProvider.LOG_FORMAT}`,
+              `${from}..${to}`
+            ], 60000);
+            const [diffRes, untrackedRes, leftOnlyRes, rightOnlyRes] = await Promise.all([
+              // Without a second revision, git diffs against the files on disk.
+              this._gitRunner.run(isWorkingTree
+                ? ['diff', '--raw', '--no-abbrev', '--find-renames', diffBase]
+                : ['diff', '--raw', '--no-abbrev', '--find-renames', diffBase, rightSha]),
+              isWorkingTree ? this._gitRunner.run(['ls-files', '--others', '--exclude-standard']) : Promise.resolve(undefined),
+              uniqueCommits(rightSha, leftSha),
+              uniqueCommits(leftSha, rightSha)
+            ]);
+            if (diffRes.exitCode !== 0) {
+              this._sendError(message.requestId, 'Failed to compare', diffRes.stderr);
+              break;
+            }
+            const toCommits = (stdout: string) => GitLogParser.parseLog(stdout).map(c => ({
+              ...c,
+              refs: GitLogParser.parseDecorations(c.decorations)
+            }));
+            const leftOnly = leftOnlyRes.exitCode === 0 ? toCommits(leftOnlyRes.stdout) : [];
+            const rightOnly = rightOnlyRes.exitCode === 0 ? toCommits(rightOnlyRes.stdout) : [];
+            const changes = this._parseChanges(diffRes.stdout);
+            if (untrackedRes?.exitCode === 0) {
+              for (const untrackedPath of untrackedRes.stdout.split('\n').filter(Boolean)) {
+                changes.push({ path: untrackedPath, status: '?' });
+              }
+            }
+
+            const comparison: RefComparison = {
+              left: { ref: leftRef, sha: leftSha },
+              right: { ref: rightRef, sha: isWorkingTree ? GitGraphViewProvider.UNCOMMITTED_SHA : rightSha },
+              mode: compareMode,
+              mergeBase,
+              diffBase,
+              changes,
+              leftOnly: leftOnly.slice(0, commitLimit),
+              rightOnly: rightOnly.slice(0, commitLimit),
+              leftOnlyHasMore: leftOnly.length > commitLimit,
+              rightOnlyHasMore: rightOnly.length > commitLimit
+            };
+            this._sendResponse(message.requestId, comparison);
+            break;
+          }
           case 'file/diff':
             const { base, target, path: filePath, oldPath, status } = message.payload;
             
@@ -498,14 +1199,16 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
             let rightUri: vscode.Uri;
 
             if (target === GitGraphViewProvider.UNCOMMITTED_SHA) {
-              // For uncommitted changes, left is HEAD (or nothing if added), 
-              // right is the actual file on disk.
+              // For uncommitted changes, left is the base commit (HEAD unless comparing against another commit),
+              // or nothing if added; right is the actual file on disk, so the diff can be edited directly.
               leftUri = status === 'A' || status === '?'
                 ? createUri('EMPTY', filePath)
-                : createUri('HEAD', oldPath || filePath);
+                : createUri(base || 'HEAD', oldPath || filePath);
               
               const fullPath = path.join(this._gitRunner!.cwd, filePath);
-              rightUri = vscode.Uri.file(fullPath);
+              rightUri = status === 'D'
+                ? createUri('EMPTY', filePath)
+                : vscode.Uri.file(fullPath);
             } else {
               leftUri = status === 'A' 
                 ? createUri('EMPTY', filePath)
@@ -560,6 +1263,44 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
               // Fallback: stay in the current column if moving fails
             }
             break;
+          case 'file/hunks': {
+            if (!this._gitRunner) return;
+            const hunksPath = String(message.payload?.path || '');
+            if (!hunksPath) {
+              this._sendError(message.requestId, 'Missing file path');
+              break;
+            }
+            const diffRes = await this._diffAgainstHead(hunksPath);
+            if (diffRes.exitCode !== 0) {
+              this._sendError(message.requestId, 'Failed to load file changes', diffRes.stderr);
+              break;
+            }
+            const parsed = PatchBuilder.parse(diffRes.stdout);
+            const result: FileHunks = {
+              path: hunksPath,
+              fingerprint: PatchBuilder.fingerprint(diffRes.stdout),
+              binary: parsed.binary,
+              hunks: parsed.hunks
+            };
+            this._sendResponse(message.requestId, result);
+            break;
+          }
+          case 'file/blame': {
+            if (!this._gitRunner) return;
+            const blameSha = String(message.payload?.sha || '');
+            const blamePath = String(message.payload?.path || '');
+            if (!blameSha || !blamePath) {
+              this._sendError(message.requestId, 'Missing commit or file path');
+              break;
+            }
+            // Deleted files are annotated as they were right before the deletion.
+            const blameUri = blameSha === GitGraphViewProvider.UNCOMMITTED_SHA
+              ? vscode.Uri.file(path.join(this._gitRunner.cwd, blamePath))
+              : this._createContentUri(message.payload?.status === 'D' ? `${blameSha}^` : blameSha, blamePath);
+            await vscode.commands.executeCommand('gitbit.annotate', blameUri, true);
+            this._sendResponse(message.requestId, 'ok');
+            break;
+          }
           case 'file/revealInOS': {
             if (!this._gitRunner) return;
             const relPathRaw: unknown = message.payload?.path;
@@ -657,7 +1398,7 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
 
             if (rewordSha === headSha) {
               // Simple amend
-              const amendRes = await this._gitRunner.run(['commit', '--amend', '-m', newMessage]);
+              const amendRes = await this._gitRunner.run([...this._signingConfigArgs(), 'commit', '--amend', '-m', newMessage]);
               if (amendRes.exitCode === 0) {
                 this._sendResponse(message.requestId, 'ok');
               } else {
@@ -672,11 +1413,11 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
               const treeRes = await this._gitRunner.run(['rev-parse', `${rewordSha}^{tree}`]);
               const treeSha = treeRes.stdout.trim();
               
-              const commitTreeRes = await this._gitRunner.run(['commit-tree', treeSha, '-p', parentSha, '-m', newMessage]);
+              const commitTreeRes = await this._gitRunner.run([...this._signingConfigArgs(), 'commit-tree', ...(await this._commitTreeSignArgs()), treeSha, '-p', parentSha, '-m', newMessage]);
               const newCommitSha = commitTreeRes.stdout.trim();
               
               if (commitTreeRes.exitCode === 0) {
-                const rebaseOntoRes = await this._gitRunner.run(['rebase', '--onto', newCommitSha, rewordSha]);
+                const rebaseOntoRes = await this._gitRunner.run([...this._signingConfigArgs(), 'rebase', '--onto', newCommitSha, rewordSha]);
                 if (rebaseOntoRes.exitCode === 0) {
                   this._sendResponse(message.requestId, 'ok');
                 } else {
@@ -736,8 +1477,9 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
             for (const sha of sortedShas) {
               this._outputChannel.appendLine(`Reverting commit ${sha.substring(0, 8)}...`);
               // --no-edit to use default "Revert '...'" message
-              const revertRes = await this._gitRunner.run(['revert', '--no-edit', sha]);
+              const revertRes = await this._gitRunner.run([...this._signingConfigArgs(), 'revert', '--no-edit', sha]);
               if (revertRes.exitCode !== 0) {
+                this._notifyRepoChanged('revert');
                 this._sendError(message.requestId, `Failed to revert ${sha.substring(0, 8)}: Conflicts occurred.`, revertRes.stderr);
                 return; // Stop on first conflict
               }
@@ -775,7 +1517,7 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
             }
 
             this._outputChannel.appendLine(`Cherry-picking ${commits.length} commit(s): ${commits.map(s => s.substring(0, 8)).join(', ')}`);
-            const cherryRes = await this._gitRunner.run(['cherry-pick', ...commits], 120000);
+            const cherryRes = await this._gitRunner.run([...this._signingConfigArgs(), 'cherry-pick', ...commits], 120000);
 
             if (cherryRes.exitCode === 0) {
               this._notifyRepoChanged('cherry-pick');
@@ -784,7 +1526,7 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
             } else {
               this._notifyRepoChanged('cherry-pick');
               await vscode.window.showErrorMessage(
-                `Cherry-pick failed. If there are conflicts, resolve them and run "git cherry-pick --continue" (or "git cherry-pick --abort").`,
+                `Cherry-pick failed. If there are conflicts, resolve them from the conflict banner in GitBit, then Continue (or Abort).`,
                 { modal: true }
               );
               this._sendError(message.requestId, 'Cherry-pick failed', cherryRes.stderr);
@@ -1125,19 +1867,325 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
             }
             break;
           }
-          case 'git/fetch': {
+          case 'git/branchSetUpstream': {
             if (!this._gitRunner) return;
-            // Include tags so tag-heavy workflows stay in sync (fetch does not always fetch all tags by default).
-            const fetchRes = await this._gitRunner.run(['fetch', '--all', '--prune', '--tags']);
-            if (fetchRes.exitCode === 0) {
-              // Treat fetch as a "manual refresh" as well.
-              this._notifyRepoChanged('fetch');
-              this._sendResponse(message.requestId, 'ok');
-            } else {
-              this._sendError(message.requestId, 'Fetch failed', fetchRes.stderr);
+            const branchName = String(message.payload?.name || '').trim();
+            const localCheck = await this._gitRunner.run(['show-ref', '--verify', '--quiet', `refs/heads/${branchName}`]);
+            if (!branchName || localCheck.exitCode !== 0) {
+              this._sendError(message.requestId, `Set upstream failed: "${branchName}" is not a local branch`);
+              return;
             }
-            break;
-          }
+
+            const [remotesRes, currentRes] = await Promise.all([
+              this._gitRunner.run(['for-each-ref', 'refs/remotes', '--format=%(refname:short)%09%(symref)']),
+              this._gitRunner.run(['rev-parse', '--abbrev-ref', '--symbolic-full-name', `${branchName}@{upstream}`])
+            ]);
+            const currentUpstream = currentRes.exitCode === 0 ? currentRes.stdout.trim() : '';
+            const remoteBranches = remotesRes.stdout.split('\n')
+              .map(line => line.split('\t'))
+              // Skip symbolic refs such as origin/HEAD.
+              .filter(([name, symref]) => name && !symref)
+              .map(([name]) => name);
+            if (remoteBranches.length === 0) {
+              this._sendError(message.requestId, 'Set upstream failed: no remote branches found. Fetch or push the branch first.');
+              return;
+            }
+
+            // Suggest the same-named branch on each remote first.
+            const sameName = (name: string) => name.substring(name.indexOf('/') + 1) === branchName;
+            remoteBranches.sort((a, b) => Number(sameName(b)) - Number(sameName(a)));
+            const picked = await vscode.window.showQuickPick(
+              remoteBranches.map(name => ({
+                label: name,
+                description: name === currentUpstream ? 'current upstream' : ''
+              })),
+              {
+                title: currentUpstream ? `Change upstream of ${branchName}` : `Set upstream of ${branchName}`,
+                placeHolder: 'Remote branch to track'
+              }
+            );
+            if (!picked) {
+              this._sendError(message.requestId, 'Set upstream cancelled');
+              return;
+            }
+
+            const setRes = await this._gitRunner.run(['branch', `--set-upstream-to=${picked.label}`, branchName]);
+            if (setRes.exitCode === 0) {
+              this._notifyRepoChanged('set upstream');
+              this._sendResponse(message.requestId, 'ok');
+            } else {
+              this._sendError(message.requestId, 'Set upstream failed', setRes.stderr);
+            }
+            break;
+          }
+          case 'git/branchUnsetUpstream': {
+            if (!this._gitRunner) return;
+            const branchName = String(message.payload?.name || '').trim();
+            if (!branchName) {
+              this._sendError(message.requestId, 'Unset upstream failed: missing branch name');
+              return;
+            }
+            const unsetRes = await this._gitRunner.run(['branch', '--unset-upstream', branchName]);
+            if (unsetRes.exitCode === 0) {
+              this._notifyRepoChanged('unset upstream');
+              this._sendResponse(message.requestId, 'ok');
+            } else {
+              this._sendError(message.requestId, 'Unset upstream failed', unsetRes.stderr);
+            }
+            break;
+          }
+          case 'git/deleteGoneBranches': {
+            if (!this._gitRunner) return;
+            const gone = await this._listGoneBranches(this._gitRunner);
+            if (gone.length === 0) {
+              vscode.window.showInformationMessage('No local branches have a deleted upstream.');
+              this._sendResponse(message.requestId, 'ok');
+              return;
+            }
+            const deleted = await this._deleteGoneBranches(this._gitRunner, gone);
+            if (deleted === null) {
+              this._sendError(message.requestId, 'Delete cancelled');
+              return;
+            }
+            this._sendResponse(message.requestId, 'ok');
+            break;
+          }
+          case 'remotes/list': {
+            if (!this._gitRunner) return;
+            const remotesRes = await this._gitRunner.run(['remote', '-v']);
+            if (remotesRes.exitCode !== 0) {
+              this._sendError(message.requestId, 'Failed to list remotes', remotesRes.stderr);
+              return;
+            }
+            this._sendResponse(message.requestId, GitRemoteParser.parse(remotesRes.stdout));
+            break;
+          }
+          case 'git/remoteAdd': {
+            if (!this._gitRunner) return;
+            const existing = GitRemoteParser.parse((await this._gitRunner.run(['remote', '-v'])).stdout).map(r => r.name);
+            const name = await vscode.window.showInputBox({
+              title: 'Add Remote',
+              prompt: 'Remote name',
+              value: existing.includes('origin') ? (existing.includes('upstream') ? '' : 'upstream') : 'origin',
+              validateInput: (value) => this._validateRemoteName(value, existing)
+            });
+            if (!name) {
+              this._sendError(message.requestId, 'Add remote cancelled');
+              return;
+            }
+            const url = await vscode.window.showInputBox({
+              title: 'Add Remote',
+              prompt: `URL of "${name.trim()}"`,
+              placeHolder: 'https://github.com/owner/repo.git or git@github.com:owner/repo.git',
+              validateInput: (value) => (value.trim() ? null : 'URL is required')
+            });
+            if (!url) {
+              this._sendError(message.requestId, 'Add remote cancelled');
+              return;
+            }
+
+            const addRes = await this._gitRunner.run(['remote', 'add', name.trim(), url.trim()]);
+            if (addRes.exitCode !== 0) {
+              this._sendError(message.requestId, 'Add remote failed', addRes.stderr);
+              return;
+            }
+            // Fetch right away so the remote's branches show up; the remote stays configured even if this fails.
+            const fetchRes = await this._gitRunner.run(['fetch', '--prune', '--tags', name.trim()], 60000);
+            if (fetchRes.exitCode !== 0) {
+              vscode.window.showWarningMessage(`Added remote "${name.trim()}", but fetching it failed: ${fetchRes.stderr.trim()}`);
+            }
+            this._notifyRepoChanged('remote add');
+            this._sendResponse(message.requestId, 'ok');
+            break;
+          }
+          case 'git/remoteRename': {
+            if (!this._gitRunner) return;
+            const oldName = String(message.payload?.name || '').trim();
+            const existing = GitRemoteParser.parse((await this._gitRunner.run(['remote', '-v'])).stdout).map(r => r.name);
+            if (!existing.includes(oldName)) {
+              this._sendError(message.requestId, `Rename failed: no remote named "${oldName}"`);
+              return;
+            }
+            const newName = await vscode.window.showInputBox({
+              title: 'Rename Remote',
+              prompt: `Rename "${oldName}" to:`,
+              value: oldName,
+              validateInput: (value) => (value.trim() === oldName ? 'New name must be different' : this._validateRemoteName(value, existing))
+            });
+            if (!newName) {
+              this._sendError(message.requestId, 'Rename cancelled');
+              return;
+            }
+            // Also renames the remote-tracking branches and the upstream settings that point at them.
+            const renameRes = await this._gitRunner.run(['remote', 'rename', oldName, newName.trim()], 60000);
+            if (renameRes.exitCode === 0) {
+              this._notifyRepoChanged('remote rename');
+              this._sendResponse(message.requestId, 'ok');
+            } else {
+              this._sendError(message.requestId, 'Rename failed', renameRes.stderr);
+            }
+            break;
+          }
+          case 'git/remoteRemove': {
+            if (!this._gitRunner) return;
+            const name = String(message.payload?.name || '').trim();
+            if (!name) {
+              this._sendError(message.requestId, 'Remove failed: missing remote name');
+              return;
+            }
+            const confirm = await vscode.window.showWarningMessage(
+              `Remove remote "${name}"?`,
+              {
+                modal: true,
+                detail: 'Its remote-tracking branches are deleted and local branches tracking it lose their upstream. Nothing is changed on the remote itself.'
+              },
+              'Remove'
+            );
+            if (confirm !== 'Remove') {
+              this._sendError(message.requestId, 'Remove cancelled');
+              return;
+            }
+            const removeRes = await this._gitRunner.run(['remote', 'remove', name], 60000);
+            if (removeRes.exitCode === 0) {
+              this._notifyRepoChanged('remote remove');
+              this._sendResponse(message.requestId, 'ok');
+            } else {
+              this._sendError(message.requestId, 'Remove failed', removeRes.stderr);
+            }
+            break;
+          }
+          case 'git/remoteSetUrl': {
+            if (!this._gitRunner) return;
+            const name = String(message.payload?.name || '').trim();
+            const isPush = !!message.payload?.push;
+            const remote = GitRemoteParser.parse((await this._gitRunner.run(['remote', '-v'])).stdout).find(r => r.name === name);
+            if (!remote) {
+              this._sendError(message.requestId, `Edit failed: no remote named "${name}"`);
+              return;
+            }
+            const url = await vscode.window.showInputBox({
+              title: isPush ? `Push URL of ${name}` : `URL of ${name}`,
+              prompt: isPush ? 'Leave empty to push to the fetch URL' : undefined,
+              value: isPush ? (remote.pushUrl !== remote.fetchUrl ? remote.pushUrl : '') : remote.fetchUrl,
+              validateInput: (value) => (isPush || value.trim() ? null : 'URL is required')
+            });
+            if (url === undefined) {
+              this._sendError(message.requestId, 'Edit cancelled');
+              return;
+            }
+
+            let setRes;
+            if (isPush && !url.trim()) {
+              // Without a pushurl, git pushes to the fetch URL. Exit code 5 means there was none to remove.
+              setRes = await this._gitRunner.run(['config', '--unset-all', `remote.${name}.pushurl`]);
+              if (setRes.exitCode === 5) setRes = { ...setRes, exitCode: 0 };
+            } else {
+              setRes = await this._gitRunner.run(['remote', 'set-url', ...(isPush ? ['--push'] : []), name, url.trim()]);
+            }
+            if (setRes.exitCode === 0) {
+              this._notifyRepoChanged('remote url');
+              this._sendResponse(message.requestId, 'ok');
+            } else {
+              this._sendError(message.requestId, 'Edit failed', setRes.stderr);
+            }
+            break;
+          }
+          case 'git/fetchRemote': {
+            if (!this._gitRunner) return;
+            const name = String(message.payload?.name || '').trim();
+            if (!name) {
+              this._sendError(message.requestId, 'Fetch failed: missing remote name');
+              return;
+            }
+            const fetchRes = await this._gitRunner.run(['fetch', '--prune', '--tags', name], 60000);
+            if (fetchRes.exitCode === 0) {
+              this._notifyRepoChanged('fetch');
+              this._sendResponse(message.requestId, 'ok');
+              void this._offerGoneBranchCleanup(this._gitRunner);
+            } else {
+              this._sendError(message.requestId, 'Fetch failed', fetchRes.stderr);
+            }
+            break;
+          }
+          case 'journal/list': {
+            await this._journalWrites;
+            const root = this._currentRepoRoot();
+            this._sendResponse(message.requestId, ((root && this._journal.get(root)) || []).slice().reverse());
+            break;
+          }
+          case 'git/undo': {
+            if (await this._undoLastOperation()) {
+              this._sendResponse(message.requestId, 'ok');
+            } else {
+              this._sendError(message.requestId, 'Undo cancelled');
+            }
+            break;
+          }
+          case 'git/reflogRestore': {
+            if (!this._gitRunner) return;
+            const sha = String(message.payload?.sha || '').trim();
+            const verify = await this._gitRunner.run(['rev-parse', '--verify', '--quiet', `${sha}^{commit}`]);
+            if (!sha || verify.exitCode !== 0) {
+              this._sendError(message.requestId, 'Restore failed: commit not found');
+              return;
+            }
+            const opState = await GitOperationState.detect(this._gitRunner);
+            if (opState) {
+              await vscode.window.showErrorMessage(`Finish or abort the ${opState.kind} in progress before restoring.`, { modal: true });
+              this._sendError(message.requestId, 'Restore cancelled');
+              return;
+            }
+
+            const [branchRes, lostRes, statusRes] = await Promise.all([
+              this._gitRunner.run(['symbolic-ref', '--quiet', '--short', 'HEAD']),
+              this._gitRunner.run(['rev-list', '--count', `${sha}..HEAD`]),
+              this._gitRunner.run(['status', '--porcelain', '--untracked-files=no'])
+            ]);
+            const target = branchRes.exitCode === 0 ? `"${branchRes.stdout.trim()}"` : 'the detached HEAD';
+            const lost = Number(lostRes.stdout.trim()) || 0;
+            const dirty = statusRes.stdout.trim().length > 0;
+            const choice = await vscode.window.showWarningMessage(
+              `Move ${target} to ${sha.substring(0, 8)}?`,
+              {
+                modal: true,
+                detail: [
+                  lost > 0 ? `${lost} commit(s) will no longer be on ${target}; they stay reachable from the reflog.` : '',
+                  dirty ? 'You have uncommitted changes. "Restore" keeps them and stops if they conflict; "Restore and Discard Changes" throws them away.' : '',
+                  'You can undo this from the History panel.'
+                ].filter(Boolean).join('\n\n')
+              },
+              'Restore',
+              ...(dirty ? ['Restore and Discard Changes'] : [])
+            );
+            if (!choice) {
+              this._sendError(message.requestId, 'Restore cancelled');
+              return;
+            }
+            const restoreRes = await this._gitRunner.run(['reset', choice === 'Restore' ? '--keep' : '--hard', sha]);
+            this._notifyRepoChanged('reflog restore');
+            if (restoreRes.exitCode === 0) {
+              this._sendResponse(message.requestId, 'ok');
+            } else {
+              await vscode.window.showErrorMessage(`Restore failed: ${restoreRes.stderr.trim()}`, { modal: true });
+              this._sendError(message.requestId, 'Restore failed', restoreRes.stderr);
+            }
+            break;
+          }
+          case 'git/fetch': {
+            if (!this._gitRunner) return;
+            // Include tags so tag-heavy workflows stay in sync (fetch does not always fetch all tags by default).
+            const fetchRes = await this._gitRunner.run(['fetch', '--all', '--prune', '--tags']);
+            if (fetchRes.exitCode === 0) {
+              // Treat fetch as a "manual refresh" as well.
+              this._notifyRepoChanged('fetch');
+              this._sendResponse(message.requestId, 'ok');
+              // --prune may have removed the upstreams of merged branches.
+              void this._offerGoneBranchCleanup(this._gitRunner);
+            } else {
+              this._sendError(message.requestId, 'Fetch failed', fetchRes.stderr);
+            }
+            break;
+          }
           case 'git/rebase': {
             if (!this._gitRunner) return;
             const onto = String(message.payload?.onto || '').trim();
@@ -1161,19 +2209,668 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
               return;
             }
 
-            const rebaseRes = await this._gitRunner.run(['rebase', onto], 600000);
+            const rebaseRes = await this._gitRunner.run([...this._signingConfigArgs(), 'rebase', onto], 600000);
             if (rebaseRes.exitCode === 0) {
               this._notifyRepoChanged('rebase');
               this._sendResponse(message.requestId, 'ok');
             } else {
+              this._notifyRepoChanged('rebase');
               await vscode.window.showErrorMessage(
-                'Rebase failed (likely conflicts). Resolve conflicts and run `git rebase --continue`, or abort with `git rebase --abort`.',
+                'Rebase failed (likely conflicts). Resolve conflicts from the conflict banner in GitBit, then Continue (or Abort).',
                 { modal: false }
               );
               this._sendError(message.requestId, 'Rebase failed', rebaseRes.stderr);
             }
             break;
           }
+          case 'git/merge': {
+            if (!this._gitRunner) return;
+            const mergeRef = String(message.payload?.ref || '').trim();
+            if (!mergeRef) {
+              this._sendError(message.requestId, 'Merge failed: missing branch or commit');
+              return;
+            }
+
+            const mergeTargetRes = await this._gitRunner.run(['rev-parse', '--verify', '--quiet', `${mergeRef}^{commit}`]);
+            if (mergeTargetRes.exitCode !== 0) {
+              this._sendError(message.requestId, `Merge failed: "${mergeRef}" is not a commit`);
+              return;
+            }
+            const mergeLabel = /^[0-9a-f]{40}$/i.test(mergeRef) ? mergeRef.substring(0, 8) : mergeRef;
+
+            const currentRes = await this._gitRunner.run(['symbolic-ref', '--quiet', '--short', 'HEAD']);
+            const currentBranch = currentRes.exitCode === 0 ? currentRes.stdout.trim() : 'HEAD';
+
+            // Preview what the merge brings in (same idea as the "ahead" list shown before a push).
+            const incomingRes = await this._gitRunner.run(['log', '--oneline', '--no-decorate', `HEAD..${mergeRef}`]);
+            const incoming = incomingRes.exitCode === 0 ? incomingRes.stdout.trim().split('\n').filter(l => l.length > 0) : [];
+            if (incoming.length === 0) {
+              vscode.window.showInformationMessage(`${currentBranch} already contains ${mergeLabel}. Nothing to merge.`);
+              this._sendResponse(message.requestId, 'ok');
+              break;
+            }
+            const canFastForward = (await this._gitRunner.run(['merge-base', '--is-ancestor', 'HEAD', mergeRef])).exitCode === 0;
+
+            let mode = String(message.payload?.mode || '');
+            if (mode !== 'ff-only' && mode !== 'no-ff' && mode !== 'squash') {
+              const picked = await vscode.window.showQuickPick(
+                [
+                  {
+                    label: 'Fast-forward only',
+                    description: canFastForward ? '' : 'not possible: branches have diverged',
+                    detail: `Move ${currentBranch} forward to ${mergeLabel} without creating a merge commit.`,
+                    mode: 'ff-only'
+                  },
+                  {
+                    label: 'Merge commit',
+                    description: '--no-ff',
+                    detail: 'Always create a merge commit, even when a fast-forward is possible.',
+                    mode: 'no-ff'
+                  },
+                  {
+                    label: 'Squash',
+                    description: '--squash',
+                    detail: `Combine the ${incoming.length} incoming commit(s) into a single new commit.`,
+                    mode: 'squash'
+                  }
+                ],
+                { title: `Merge ${mergeLabel} into ${currentBranch}`, placeHolder: 'How should the changes be merged?' }
+              );
+              if (!picked) {
+                this._sendError(message.requestId, 'Merge cancelled');
+                break;
+              }
+              mode = picked.mode;
+            }
+
+            if (mode === 'ff-only' && !canFastForward) {
+              await vscode.window.showErrorMessage(
+                `Cannot fast-forward ${currentBranch} to ${mergeLabel}: the branches have diverged. Use a merge commit or squash instead.`,
+                { modal: true }
+              );
+              this._sendError(message.requestId, 'Merge failed: not a fast-forward');
+              break;
+            }
+
+            if (!(await this._ensureClean('You have local changes. Merging might cause conflicts. Continue?'))) {
+              this._sendError(message.requestId, 'Merge cancelled');
+              break;
+            }
+
+            const modeLabel = mode === 'ff-only' ? 'Fast-forward' : mode === 'squash' ? 'Squash-merge' : 'Merge';
+            const commitList = incoming.slice(0, 5).join('\n');
+            const extraCount = incoming.length > 5 ? `\n...and ${incoming.length - 5} more` : '';
+            const confirm = await vscode.window.showWarningMessage(
+              `${modeLabel} ${incoming.length} commit(s) from ${mergeLabel} into ${currentBranch}:\n\n${commitList}${extraCount}\n\nAre you sure?`,
+              { modal: true },
+              modeLabel
+            );
+            if (confirm !== modeLabel) {
+              this._sendError(message.requestId, 'Merge cancelled');
+              break;
+            }
+
+            const mergeArgs =
+              mode === 'ff-only' ? ['merge', '--ff-only', mergeRef] :
+              mode === 'squash' ? ['merge', '--squash', mergeRef] :
+              ['merge', '--no-ff', '--no-edit', mergeRef];
+            this._outputChannel.appendLine(`Running: git ${mergeArgs.join(' ')}`);
+            const mergeRes = await this._gitRunner.run([...this._signingConfigArgs(), ...mergeArgs], 600000);
+            if (mergeRes.exitCode !== 0) {
+              this._notifyRepoChanged('merge');
+              const conflicted = /CONFLICT/.test(mergeRes.stdout + mergeRes.stderr);
+              await vscode.window.showErrorMessage(
+                conflicted
+                  ? mode === 'squash'
+                    ? 'Squash merge stopped on conflicts. Resolve them, then commit the result.'
+                    : 'Merge stopped on conflicts. Resolve them from the conflict banner in GitBit, then Continue (or Abort).'
+                  : `Merge failed: ${(mergeRes.stderr || mergeRes.stdout).trim()}`,
+                { modal: false }
+              );
+              this._sendError(message.requestId, 'Merge failed', mergeRes.stderr || mergeRes.stdout);
+              break;
+            }
+
+            if (mode === 'squash') {
+              // `git merge --squash` only stages the result; commit it with a message the user can edit.
+              const squashTitle = await vscode.window.showInputBox({
+                title: 'Squash Merge',
+                prompt: 'Commit message for the squashed changes',
+                value: `Squashed merge of ${mergeLabel}`,
+                ignoreFocusOut: true
+              });
+              if (!squashTitle || !squashTitle.trim()) {
+                this._notifyRepoChanged('merge');
+                vscode.window.showInformationMessage('Squash merge staged but not committed. Commit the staged changes when ready.');
+                this._sendResponse(message.requestId, 'ok');
+                break;
+              }
+              const body = incoming.map(l => `- ${l}`).join('\n');
+              const commitRes = await this._gitRunner.run([...this._signingConfigArgs(), 'commit', '-m', squashTitle.trim(), '-m', body]);
+              if (commitRes.exitCode !== 0) {
+                this._notifyRepoChanged('merge');
+                this._sendError(message.requestId, 'Squash merge commit failed', commitRes.stderr);
+                break;
+              }
+            }
+
+            this._outputChannel.appendLine('Merge successful.');
+            this._notifyRepoChanged('merge');
+            this._sendResponse(message.requestId, 'ok');
+            break;
+          }
+          case 'worktrees/list': {
+            if (!this._gitRunner) return;
+            const wtRes = await this._gitRunner.run(['worktree', 'list', '--porcelain']);
+            if (wtRes.exitCode !== 0) {
+              this._sendError(message.requestId, 'Failed to list worktrees', wtRes.stderr);
+              break;
+            }
+            const currentRoot = path.resolve(this._gitRunner.cwd);
+            const worktrees: Worktree[] = GitWorktreeParser.parse(wtRes.stdout).map(w => ({
+              ...w,
+              current: path.resolve(w.path) === currentRoot
+            }));
+            this._sendResponse(message.requestId, worktrees);
+            break;
+          }
+          case 'git/worktreeAdd': {
+            if (!this._gitRunner) return;
+            const wtRef = String(message.payload?.ref || 'HEAD').trim().replace(/^remotes\//, '');
+            const wtSha = await this._gitRunner.run(['rev-parse', '--verify', '--quiet', `${wtRef}^{commit}`]);
+            if (wtSha.exitCode !== 0) {
+              this._sendError(message.requestId, `"${wtRef}" is not a commit`);
+              break;
+            }
+            const wtRefLabel = /^[0-9a-f]{40}$/.test(wtRef) ? wtRef.substring(0, 8) : wtRef;
+
+            // A local branch can be checked out as is (unless another worktree has it); anything else needs a new branch or a detached HEAD.
+            const isLocalBranch = wtRef !== 'HEAD'
+              && (await this._gitRunner.run(['show-ref', '--verify', '--quiet', `refs/heads/${wtRef}`])).exitCode === 0;
+            let newBranch: string | undefined;
+            let detach = false;
+            if (isLocalBranch) {
+              const existing = GitWorktreeParser.parse((await this._gitRunner.run(['worktree', 'list', '--porcelain'])).stdout)
+                .find(w => w.branch === wtRef);
+              if (existing) {
+                await vscode.window.showErrorMessage(
+                  `"${wtRef}" is already checked out in ${existing.path}. A branch can only be checked out in one worktree at a time.`,
+                  { modal: true }
+                );
+                this._sendError(message.requestId, 'Worktree cancelled: branch already checked out');
+                break;
+              }
+            } else {
+              const remoteBranch = (await this._gitRunner.run(['show-ref', '--verify', '--quiet', `refs/remotes/${wtRef}`])).exitCode === 0;
+              const picked = await vscode.window.showQuickPick(
+                [
+                  { label: 'Create a new branch', detail: `Start a branch at ${wtRefLabel} and check it out in the new worktree.`, detach: false },
+                  { label: 'Detached HEAD', detail: `Check out ${wtRefLabel} without a branch.`, detach: true }
+                ],
+                { title: `New worktree from ${wtRefLabel}`, placeHolder: 'What should the new worktree check out?' }
+              );
+              if (!picked) {
+                this._sendError(message.requestId, 'Worktree cancelled');
+                break;
+              }
+              detach = picked.detach;
+              if (!detach) {
+                newBranch = (await vscode.window.showInputBox({
+                  title: `New worktree from ${wtRefLabel}`,
+                  prompt: 'Enter branch name',
+                  // "origin/feature" -> "feature"
+                  value: remoteBranch ? wtRef.substring(wtRef.indexOf('/') + 1) : '',
+                  placeHolder: 'feature/new-branch',
+                  ignoreFocusOut: true,
+                  validateInput: async (value) => {
+                    const name = value.trim();
+                    if (!name) return 'Enter a branch name';
+                    if ((await this._gitRunner!.run(['check-ref-format', '--branch', name])).exitCode !== 0) return `"${name}" is not a valid branch name`;
+                    if ((await this._gitRunner!.run(['show-ref', '--verify', '--quiet', `refs/heads/${name}`])).exitCode === 0) return `Branch "${name}" already exists`;
+                    return undefined;
+                  }
+                }))?.trim();
+                if (!newBranch) {
+                  this._sendError(message.requestId, 'Worktree cancelled');
+                  break;
+                }
+              }
+            }
+
+            // Default to a sibling of the main repository folder, e.g. ~/code/app -> ~/code/app-feature.
+            const repoRoot = this._gitRunner.cwd;
+            const slug = (newBranch || (isLocalBranch ? wtRef : wtRefLabel)).replace(/[\\/:*?"<>|\s]+/g, '-');
+            const worktreePath = (await vscode.window.showInputBox({
+              title: 'New worktree location',
+              prompt: 'Folder for the new worktree (must not exist or be empty)',
+              value: path.join(path.dirname(repoRoot), `${path.basename(repoRoot)}-${slug}`),
+              ignoreFocusOut: true,
+              validateInput: async (value) => {
+                const target = value.trim();
+                if (!target) return 'Enter a folder';
+                if (!path.isAbsolute(target)) return 'Enter an absolute path';
+                try {
+                  const entries = await fs.promises.readdir(target);
+                  if (entries.length > 0) return 'This folder is not empty';
+                } catch {
+                  // Doesn't exist yet: git will create it.
+                }
+                return undefined;
+              }
+            }))?.trim();
+            if (!worktreePath) {
+              this._sendError(message.requestId, 'Worktree cancelled');
+              break;
+            }
+
+            const addArgs = ['worktree', 'add'];
+            if (newBranch) addArgs.push('-b', newBranch);
+            if (detach) addArgs.push('--detach');
+            addArgs.push(worktreePath, wtRef);
+            const addRes = await this._gitRunner.run(addArgs, 120000);
+            if (addRes.exitCode !== 0) {
+              this._sendError(message.requestId, 'Failed to create worktree', addRes.stderr);
+              break;
+            }
+            this._invalidateRepos('worktree added');
+            this._notifyRepoChanged('worktree add');
+            vscode.window.showInformationMessage(`Created worktree at ${worktreePath}.`);
+            this._sendResponse(message.requestId, { path: worktreePath });
+            break;
+          }
+          case 'git/worktreeRemove': {
+            if (!this._gitRunner) return;
+            const removePath = String(message.payload?.path || '');
+            const worktreesNow = GitWorktreeParser.parse((await this._gitRunner.run(['worktree', 'list', '--porcelain'])).stdout);
+            const target = worktreesNow.find(w => path.resolve(w.path) === path.resolve(removePath));
+            if (!target) {
+              this._sendError(message.requestId, `${removePath} is not a worktree of this repository`);
+              break;
+            }
+            if (target.main) {
+              this._sendError(message.requestId, 'The main worktree cannot be removed');
+              break;
+            }
+
+            // `worktree remove` refuses dirty or locked worktrees unless forced (twice for locked ones), so ask first.
+            const statusRes = fs.existsSync(target.path)
+              ? await new GitRunner(target.path).run(['status', '--porcelain'])
+              : undefined;
+            const dirty = !!statusRes && statusRes.exitCode === 0 && statusRes.stdout.trim().length > 0;
+            const warnings: string[] = [];
+            if (dirty) warnings.push('It has uncommitted changes or untracked files, which will be lost.');
+            if (target.locked) warnings.push(`It is locked${typeof target.locked === 'string' ? `: ${target.locked}` : '.'}`);
+            const removeLabel = warnings.length > 0 ? 'Force Remove' : 'Remove';
+            const choice = await vscode.window.showWarningMessage(
+              `Remove the worktree at ${target.path}?${target.branch ? ` The branch "${target.branch}" is kept.` : ''}${warnings.length > 0 ? `\n\n${warnings.join('\n')}` : ''}`,
+              { modal: true },
+              removeLabel
+            );
+            if (choice !== removeLabel) {
+              this._sendError(message.requestId, 'Remove cancelled');
+              break;
+            }
+
+            const removeArgs = ['worktree', 'remove'];
+            if (dirty || target.locked) removeArgs.push('--force');
+            if (target.locked) removeArgs.push('--force');
+            removeArgs.push(target.path);
+            const removeRes = await this._gitRunner.run(removeArgs, 60000);
+            if (removeRes.exitCode !== 0) {
+              this._sendError(message.requestId, 'Failed to remove worktree', removeRes.stderr);
+              break;
+            }
+            this._invalidateRepos('worktree removed');
+            this._notifyRepoChanged('worktree remove');
+            // The graph can't keep showing a folder that no longer exists; fall back to the main worktree.
+            const main = worktreesNow.find(w => w.main);
+            this._sendResponse(message.requestId, {
+              switchTo: target.current || path.resolve(target.path) === path.resolve(this._gitRunner.cwd) ? main?.path : undefined
+            });
+            break;
+          }
+          case 'git/worktreePrune': {
+            if (!this._gitRunner) return;
+            const dryRun = await this._gitRunner.run(['worktree', 'prune', '--dry-run', '--verbose']);
+            const stale = (dryRun.stdout + dryRun.stderr).split('\n').map(l => l.trim()).filter(Boolean);
+            if (stale.length === 0) {
+              vscode.window.showInformationMessage('No stale worktrees to prune.');
+              this._sendResponse(message.requestId, 'ok');
+              break;
+            }
+            const confirmPrune = await vscode.window.showWarningMessage(
+              `Prune ${stale.length} stale worktree record(s)? Only git's bookkeeping for worktrees whose folders are gone is removed.\n\n${stale.join('\n')}`,
+              { modal: true },
+              'Prune'
+            );
+            if (confirmPrune !== 'Prune') {
+              this._sendError(message.requestId, 'Prune cancelled');
+              break;
+            }
+            const pruneRes = await this._gitRunner.run(['worktree', 'prune']);
+            if (pruneRes.exitCode !== 0) {
+              this._sendError(message.requestId, 'Failed to prune worktrees', pruneRes.stderr);
+              break;
+            }
+            this._invalidateRepos('worktrees pruned');
+            this._notifyRepoChanged('worktree prune');
+            this._sendResponse(message.requestId, 'ok');
+            break;
+          }
+          case 'worktree/openWindow': {
+            const openPath = String(message.payload?.path || '');
+            if (!openPath) return;
+            await vscode.commands.executeCommand('vscode.openFolder', vscode.Uri.file(openPath), { forceNewWindow: true });
+            this._sendResponse(message.requestId, 'ok');
+            break;
+          }
+          case 'repo/operationState': {
+            if (!this._gitRunner) {
+              await this._resolveRepo();
+            }
+            if (!this._gitRunner) {
+              this._sendResponse(message.requestId, null);
+              break;
+            }
+            this._sendResponse(message.requestId, await GitOperationState.detect(this._gitRunner));
+            break;
+          }
+          case 'conflict/diff': {
+            if (!this._gitRunner) return;
+            const conflictPath = String(message.payload?.path || '');
+            const compare = String(message.payload?.compare || 'ours-theirs');
+            if (!conflictPath) {
+              this._sendError(message.requestId, 'Invalid conflicted file');
+              break;
+            }
+
+            // Stages of an unmerged path: 1 = common ancestor, 2 = ours (HEAD), 3 = theirs (the commit being applied).
+            // A stage is missing when one side added or deleted the file; show it as empty then.
+            const lsRes = await this._gitRunner.run(['ls-files', '-u', '--', conflictPath]);
+            const stages = new Set(
+              lsRes.stdout.split('\n').filter(Boolean).map(line => line.split('\t')[0].split(' ')[2])
+            );
+            const stageUri = (stage: '1' | '2' | '3') =>
+              this._createContentUri(stages.has(stage) ? `:${stage}` : 'EMPTY', conflictPath);
+
+            const [left, right, label] =
+              compare === 'base-ours' ? [stageUri('1'), stageUri('2'), 'Base ↔ Ours'] :
+              compare === 'base-theirs' ? [stageUri('1'), stageUri('3'), 'Base ↔ Theirs'] :
+              [stageUri('2'), stageUri('3'), 'Ours ↔ Theirs'];
+
+            await vscode.commands.executeCommand(
+              'vscode.diff',
+              left,
+              right,
+              `${path.basename(conflictPath)} (${label})`,
+              { viewColumn: vscode.ViewColumn.Active, preview: false }
+            );
+            this._sendResponse(message.requestId, 'ok');
+            break;
+          }
+          case 'conflict/markResolved': {
+            if (!this._gitRunner) return;
+            const resolvePaths: string[] = Array.isArray(message.payload?.paths)
+              ? (message.payload.paths as any[]).map(p => String(p)).filter(Boolean)
+              : [];
+            if (resolvePaths.length === 0) {
+              this._sendError(message.requestId, 'No files to mark as resolved');
+              break;
+            }
+            // Files that still contain conflict markers are almost always a mistake; double check with the user.
+            const markerRes = await this._gitRunner.run(['diff', '--check', '--', ...resolvePaths]);
+            if (/conflict marker/i.test(markerRes.stdout)) {
+              const proceed = await vscode.window.showWarningMessage(
+                'Some of these files still contain conflict markers. Mark them as resolved anyway?',
+                { modal: true },
+                'Mark Resolved'
+              );
+              if (proceed !== 'Mark Resolved') {
+                this._sendError(message.requestId, 'Mark resolved cancelled');
+                break;
+              }
+            }
+            // `git add -A` also records deletions (resolving a modify/delete conflict by removing the file).
+            const addRes = await this._gitRunner.run(['add', '-A', '--', ...resolvePaths]);
+            if (addRes.exitCode !== 0) {
+              this._sendError(message.requestId, 'Failed to mark files as resolved', addRes.stderr);
+              break;
+            }
+            this._notifyRepoChanged('resolve');
+            this._sendResponse(message.requestId, 'ok');
+            break;
+          }
+          case 'git/operationContinue':
+          case 'git/operationSkip':
+          case 'git/operationAbort': {
+            if (!this._gitRunner) return;
+            const opState = await GitOperationState.detect(this._gitRunner);
+            if (!opState) {
+              await this._removeRebaseTmpDir(this._gitRunner);
+              this._notifyRepoChanged('operation');
+              this._sendError(message.requestId, 'No rebase, merge, cherry-pick or revert is in progress.');
+              break;
+            }
+            const label = opState.kind === 'cherry-pick' ? 'Cherry-pick' : opState.kind[0].toUpperCase() + opState.kind.slice(1);
+
+            let opArgs: string[];
+            if (message.type === 'git/operationContinue') {
+              if (opState.conflicts.length > 0) {
+                vscode.window.showWarningMessage(
+                  `Resolve the remaining ${opState.conflicts.length} conflicted file(s) and mark them as resolved before continuing.`
+                );
+                this._sendError(message.requestId, 'Unresolved conflicts remain');
+                break;
+              }
+              // A merge is concluded by committing; the others have a --continue.
+              opArgs = opState.kind === 'merge' ? ['commit', '--no-edit'] : [opState.kind, '--continue'];
+            } else if (message.type === 'git/operationSkip') {
+              if (opState.kind === 'merge') {
+                this._sendError(message.requestId, 'A merge cannot be skipped. Continue or abort it instead.');
+                break;
+              }
+              opArgs = [opState.kind, '--skip'];
+            } else {
+              const confirm = await vscode.window.showWarningMessage(
+                `Abort the ${opState.kind} in progress? Changes made while resolving conflicts will be lost.`,
+                { modal: true },
+                'Abort'
+              );
+              if (confirm !== 'Abort') {
+                this._sendError(message.requestId, `${label} abort cancelled`);
+                break;
+              }
+              opArgs = [opState.kind, '--abort'];
+            }
+
+            this._outputChannel.appendLine(`Running: git ${opArgs.join(' ')}`);
+            // Accept git's prepared commit messages instead of opening an editor.
+            const opRes = await this._gitRunner.run([...this._signingConfigArgs(), ...opArgs], 600000, { GIT_EDITOR: 'true' });
+            await this._removeRebaseTmpDir(this._gitRunner);
+            this._notifyRepoChanged(opState.kind);
+            if (opRes.exitCode !== 0) {
+              // Stopping on the next conflict is expected; the banner picks up the new state.
+              const next = await GitOperationState.detect(this._gitRunner);
+              if (next && next.conflicts.length > 0) {
+                this._sendResponse(message.requestId, { stoppedOnConflict: true });
+              } else {
+                this._sendError(message.requestId, `${label} failed`, opRes.stderr || opRes.stdout);
+              }
+              break;
+            }
+            this._sendResponse(message.requestId, 'ok');
+            break;
+          }
+          case 'bisect/state': {
+            if (!this._gitRunner) {
+              await this._resolveRepo();
+            }
+            if (!this._gitRunner) {
+              this._sendResponse(message.requestId, null);
+              break;
+            }
+            this._sendResponse(message.requestId, await GitBisect.detect(this._gitRunner));
+            break;
+          }
+          case 'git/bisectStart': {
+            if (!this._gitRunner) return;
+            const bisectShas: string[] = Array.isArray(message.payload?.shas)
+              ? (message.payload.shas as any[]).map(s => String(s)).filter(Boolean)
+              : [];
+            if (bisectShas.length !== 2) {
+              this._sendError(message.requestId, 'Select exactly two commits to bisect between');
+              break;
+            }
+            if (await GitBisect.detect(this._gitRunner)) {
+              await vscode.window.showErrorMessage('A bisect is already in progress. Reset it before starting a new one.', { modal: true });
+              this._sendError(message.requestId, 'Bisect already in progress');
+              return;
+            }
+            const opState = await GitOperationState.detect(this._gitRunner);
+            if (opState) {
+              await vscode.window.showErrorMessage(`Finish or abort the ${opState.kind} in progress before bisecting.`, { modal: true });
+              this._sendError(message.requestId, 'Bisect cancelled');
+              return;
+            }
+            if (!(await this._ensureClean('You have local changes. Bisecting checks out other commits, which may fail or carry your changes along. Continue?'))) {
+              this._sendError(message.requestId, 'Bisect cancelled');
+              return;
+            }
+
+            // The older commit is the good one. Commits on unrelated lines of history have no order, so ask.
+            const [first, second] = bisectShas;
+            let good: string;
+            let bad: string;
+            if ((await this._gitRunner.run(['merge-base', '--is-ancestor', first, second])).exitCode === 0) {
+              [good, bad] = [first, second];
+            } else if ((await this._gitRunner.run(['merge-base', '--is-ancestor', second, first])).exitCode === 0) {
+              [good, bad] = [second, first];
+            } else {
+              const subjectsRes = await this._gitRunner.run(['show', '-s', '--format=%H%x09%s', first, second]);
+              const subjects = new Map(subjectsRes.stdout.split('\n').filter(Boolean).map(line => {
+                const [sha, ...subject] = line.split('\t');
+                return [sha, subject.join('\t')] as [string, string];
+              }));
+              const picked = await vscode.window.showQuickPick(
+                bisectShas.map(sha => ({ label: sha.substring(0, 8), description: subjects.get(sha) ?? '', sha })),
+                { title: 'Start Bisect', placeHolder: 'Neither commit contains the other. Which one is bad?' }
+              );
+              if (!picked) {
+                this._sendError(message.requestId, 'Bisect cancelled');
+                return;
+              }
+              bad = picked.sha;
+              good = picked.sha === first ? second : first;
+            }
+
+            this._outputChannel.appendLine(`Running: git bisect start ${bad} ${good}`);
+            const startRes = await this._gitRunner.run(['bisect', 'start', bad, good], 60000);
+            this._outputChannel.appendLine(startRes.stdout + startRes.stderr);
+            this._notifyRepoChanged('bisect');
+            if (startRes.exitCode !== 0) {
+              vscode.window.showErrorMessage(`Bisect failed to start: ${(startRes.stderr || startRes.stdout).trim()}`);
+              this._sendError(message.requestId, 'Bisect failed to start', startRes.stderr);
+              break;
+            }
+            this._sendResponse(message.requestId, await GitBisect.detect(this._gitRunner));
+            break;
+          }
+          case 'git/bisectMark': {
+            if (!this._gitRunner) return;
+            const verdict = String(message.payload?.verdict || '');
+            // Without a sha the checked out commit is marked, which is the usual bisect step.
+            const markSha = String(message.payload?.sha || '').trim();
+            if (verdict !== 'good' && verdict !== 'bad' && verdict !== 'skip') {
+              this._sendError(message.requestId, `Unknown bisect verdict: ${verdict}`);
+              break;
+            }
+            if (!(await GitBisect.detect(this._gitRunner))) {
+              this._notifyRepoChanged('bisect');
+              this._sendError(message.requestId, 'No bisect is in progress');
+              break;
+            }
+
+            const markArgs = markSha ? ['bisect', verdict, markSha] : ['bisect', verdict];
+            this._outputChannel.appendLine(`Running: git ${markArgs.join(' ')}`);
+            const markRes = await this._gitRunner.run(markArgs, 60000);
+            this._outputChannel.appendLine(markRes.stdout + markRes.stderr);
+            this._notifyRepoChanged('bisect');
+            if (markRes.exitCode !== 0) {
+              // e.g. only skipped commits are left, so git can't tell which of them is the first bad one.
+              vscode.window.showWarningMessage(`git bisect ${verdict}: ${(markRes.stderr || markRes.stdout).trim().split('\n')[0]}`);
+              this._sendError(message.requestId, `Bisect ${verdict} failed`, markRes.stderr);
+              break;
+            }
+            const afterMark = await GitBisect.detect(this._gitRunner);
+            if (afterMark?.firstBad) void this._announceFirstBadCommit(afterMark.firstBad);
+            this._sendResponse(message.requestId, afterMark);
+            break;
+          }
+          case 'git/bisectRun': {
+            if (!this._gitRunner) return;
+            const bisectState = await GitBisect.detect(this._gitRunner);
+            if (!bisectState?.bad || bisectState.good.length === 0) {
+              await vscode.window.showErrorMessage('Mark a good and a bad commit before running a bisect command.', { modal: true });
+              this._sendError(message.requestId, 'Bisect range not set');
+              return;
+            }
+            const command = (await vscode.window.showInputBox({
+              title: 'Bisect Run',
+              prompt: 'Shell command run on every step: exit 0 means good, 125 skips the commit, anything else means bad',
+              placeHolder: 'npm test',
+              value: this._lastBisectCommand,
+              ignoreFocusOut: true
+            }))?.trim();
+            if (!command) {
+              this._sendError(message.requestId, 'Bisect run cancelled');
+              return;
+            }
+            this._lastBisectCommand = command;
+
+            // `git bisect run` runs its arguments through the shell quoted one by one, so wrap the line in `sh -c`.
+            this._outputChannel.appendLine(`Running: git bisect run sh -c ${JSON.stringify(command)}`);
+            this._outputChannel.show(true);
+            let runRes: { stdout: string; stderr: string; exitCode: number | null };
+            try {
+              runRes = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Bisecting with "${command}"…` },
+                () => this._gitRunner!.run(['bisect', 'run', 'sh', '-c', command], 30 * 60 * 1000)
+              );
+            } catch (err: any) {
+              this._outputChannel.appendLine(String(err?.message || err));
+              this._notifyRepoChanged('bisect');
+              vscode.window.showErrorMessage(`Bisect run failed: ${err?.message || err}`);
+              this._sendError(message.requestId, 'Bisect run failed', String(err?.message || err));
+              break;
+            }
+            this._outputChannel.appendLine(runRes.stdout);
+            if (runRes.stderr) this._outputChannel.appendLine(runRes.stderr);
+            this._notifyRepoChanged('bisect');
+
+            const afterRun = await GitBisect.detect(this._gitRunner);
+            if (afterRun?.firstBad) {
+              void this._announceFirstBadCommit(afterRun.firstBad);
+            } else {
+              const lastLine = (runRes.stderr || runRes.stdout).trim().split('\n').pop() || 'no result';
+              vscode.window.showWarningMessage(`Bisect run stopped: ${lastLine} See the GitBit output for details.`);
+            }
+            this._sendResponse(message.requestId, afterRun);
+            break;
+          }
+          case 'git/bisectReset': {
+            if (!this._gitRunner) return;
+            this._outputChannel.appendLine('Running: git bisect reset');
+            const resetRes = await this._gitRunner.run(['bisect', 'reset'], 60000);
+            this._outputChannel.appendLine(resetRes.stdout + resetRes.stderr);
+            this._notifyRepoChanged('bisect');
+            if (resetRes.exitCode !== 0) {
+              vscode.window.showErrorMessage(`Bisect reset failed: ${(resetRes.stderr || resetRes.stdout).trim()}`);
+              this._sendError(message.requestId, 'Bisect reset failed', resetRes.stderr);
+              break;
+            }
+            this._sendResponse(message.requestId, 'ok');
+            break;
+          }
           case 'git/pull': {
             if (!this._gitRunner) return;
             if (await this._ensureClean('You have local changes. Pulling might cause conflicts. Continue?')) {
@@ -1184,6 +2881,8 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
                 this._notifyRepoChanged('pull');
                 this._sendResponse(message.requestId, 'ok');
               } else {
+                // A pull that merged or rebased into conflicts leaves an operation in progress for the banner.
+                this._notifyRepoChanged('pull');
                 this._sendError(message.requestId, 'Pull failed', pullRes.stderr);
               }
             } else {
@@ -1207,6 +2906,8 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
             let isUpToDateWithUpstream = false;
             let tagsToPushOnly: string[] | null = null;
             let remoteForTagsOnly: string | undefined;
+            // Set when the user picked a remote other than the upstream's: push the branch there as is.
+            let otherRemoteForPush: string | undefined;
 
             const branchRes = await this._gitRunner.run(['rev-parse', '--abbrev-ref', 'HEAD']);
             if (branchRes.exitCode === 0) {
@@ -1226,8 +2927,7 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
               const remotes = remotesRes.exitCode === 0
                 ? remotesRes.stdout.split('\n').map(r => r.trim()).filter(Boolean)
                 : [];
-              const defaultRemote = remotes.includes('origin') ? 'origin' : remotes[0];
-              defaultRemoteForPush = defaultRemote;
+              let defaultRemote = remotes.includes('origin') ? 'origin' : remotes[0];
               if (!defaultRemote) {
                 await vscode.window.showErrorMessage(
                   'Cannot push: no git remotes are configured for this repository.',
@@ -1237,10 +2937,40 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
                 return;
               }
 
-              // Check if there's a remote tracking branch
-              const trackingRes = await this._gitRunner.run(['rev-parse', '--abbrev-ref', '@{u}']);
-              hasUpstreamForPush = trackingRes.exitCode === 0;
-              if (trackingRes.exitCode === 0) {
+              // Check if there's a remote tracking branch
+              const trackingRes = await this._gitRunner.run(['rev-parse', '--abbrev-ref', '@{u}']);
+              hasUpstreamForPush = trackingRes.exitCode === 0;
+
+              // With several remotes, let the user pick the push target; the upstream's remote comes first.
+              if (remotes.length > 1) {
+                const upstreamRemoteRes = await this._gitRunner.run(['config', '--get', `branch.${currentBranch}.remote`]);
+                const upstreamRemote = hasUpstreamForPush && upstreamRemoteRes.exitCode === 0 ? upstreamRemoteRes.stdout.trim() : '';
+                const ordered = [...remotes].sort((a, b) =>
+                  Number(b === upstreamRemote) - Number(a === upstreamRemote) || Number(b === defaultRemote) - Number(a === defaultRemote)
+                );
+                const pickedRemote = await vscode.window.showQuickPick(
+                  ordered.map(name => ({
+                    label: name,
+                    description: name === upstreamRemote
+                      ? `upstream: ${trackingRes.stdout.trim()}`
+                      : (hasUpstreamForPush ? '' : `creates ${name}/${currentBranch}`)
+                  })),
+                  { title: `${isForce ? 'Force push' : 'Push'} ${currentBranch} to…`, placeHolder: 'Remote to push to' }
+                );
+                if (!pickedRemote) {
+                  this._sendError(message.requestId, 'Push cancelled');
+                  return;
+                }
+                if (hasUpstreamForPush && pickedRemote.label !== upstreamRemote) otherRemoteForPush = pickedRemote.label;
+                defaultRemote = pickedRemote.label;
+              }
+              defaultRemoteForPush = defaultRemote;
+
+              if (otherRemoteForPush) {
+                pushMessage = isForce
+                  ? `WARNING: You are about to FORCE PUSH "${currentBranch}" to ${otherRemoteForPush}. This will overwrite remote history. Continue?`
+                  : `Push "${currentBranch}" to ${otherRemoteForPush}? Its upstream stays ${trackingRes.stdout.trim()}.`;
+              } else if (trackingRes.exitCode === 0) {
                 const trackingBranch = trackingRes.stdout.trim();
                 trackingBranchForPush = trackingBranch;
                 remoteForTagsOnly = trackingBranch.includes('/') ? trackingBranch.split('/')[0] : defaultRemoteForPush;
@@ -1354,7 +3084,9 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
               ? [...pushArgs, '--set-upstream', String(defaultRemoteForPush), String(currentBranchForPush)]
               : pushArgs;
 
-              pushRes = await this._gitRunner.run(effectivePushArgs);
+              pushRes = await this._gitRunner.run(
+                otherRemoteForPush ? [...pushArgs, otherRemoteForPush, String(currentBranchForPush)] : effectivePushArgs
+              );
             }
 
             if (pushRes.exitCode === 0) {
@@ -1551,6 +3283,162 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
             this._sendResponse(message.requestId, 'ok');
             break;
           }
+          case 'stash/list': {
+            if (!this._gitRunner) {
+              await this._resolveRepo();
+            }
+            if (!this._gitRunner) {
+              this._sendError(message.requestId, 'No repository found');
+              return;
+            }
+            const stashRes = await this._gitRunner.run([
+              'stash',
+              'list',
+              '--date=iso-strict',
+              '--format=%H%x09%P%x09%an%x09%ae%x09%ad%x09%gd%x09%s'
+            ]);
+            if (stashRes.exitCode !== 0) {
+              this._sendError(message.requestId, 'Failed to list stashes', stashRes.stderr);
+              break;
+            }
+            const stashes: Stash[] = stashRes.stdout
+              .split('\n')
+              .filter(line => line.trim().length > 0)
+              .map((line, index) => {
+                const [sha, parentsRaw, authorName, authorEmail, authorDateIso, ref, ...subject] = line.split('\t');
+                const parents = parentsRaw ? parentsRaw.split(' ') : [];
+                return {
+                  index,
+                  ref: ref || `stash@{${index}}`,
+                  sha,
+                  baseSha: parents[0] || '',
+                  hasUntracked: parents.length > 2,
+                  authorName,
+                  authorEmail,
+                  authorDateIso,
+                  message: subject.join('\t')
+                };
+              });
+            this._sendResponse(message.requestId, stashes);
+            break;
+          }
+          case 'stash/changes': {
+            if (!this._gitRunner) return;
+            const stashSha = String(message.payload?.sha || '');
+            if (!stashSha) {
+              this._sendError(message.requestId, 'Invalid stash');
+              break;
+            }
+            // Tracked changes: the stash commit's tree against the commit it was made on (first parent).
+            const trackedRes = await this._gitRunner.run(['diff', '--raw', '--no-abbrev', '--find-renames', `${stashSha}^1`, stashSha]);
+            if (trackedRes.exitCode !== 0) {
+              this._sendError(message.requestId, 'Failed to fetch stash changes', trackedRes.stderr);
+              break;
+            }
+            const stashChanges = this._parseChanges(trackedRes.stdout);
+
+            // Untracked files (`git stash -u`) live in a separate third parent commit.
+            const untrackedRes = await this._gitRunner.run(['rev-parse', '--verify', '--quiet', `${stashSha}^3`]);
+            if (untrackedRes.exitCode === 0) {
+              const lsRes = await this._gitRunner.run(['ls-tree', '-r', '--name-only', `${stashSha}^3`]);
+              if (lsRes.exitCode === 0) {
+                for (const p of lsRes.stdout.split('\n').filter(Boolean)) {
+                  stashChanges.push({ status: '?', path: p });
+                }
+              }
+            }
+            this._sendResponse(message.requestId, stashChanges);
+            break;
+          }
+          case 'git/stashCreate': {
+            if (!this._gitRunner) return;
+            const statusRes = await this._gitRunner.run(['status', '--porcelain']);
+            if (statusRes.exitCode === 0 && statusRes.stdout.trim().length === 0) {
+              vscode.window.showInformationMessage('No local changes to stash.');
+              this._sendError(message.requestId, 'Nothing to stash');
+              break;
+            }
+
+            let stashMessage: string | undefined = typeof message.payload?.message === 'string' ? message.payload.message : undefined;
+            if (stashMessage === undefined) {
+              stashMessage = await vscode.window.showInputBox({
+                title: 'Stash Changes',
+                prompt: 'Stash message (optional)',
+                placeHolder: 'Leave empty to use the default "WIP on <branch>" message',
+                ignoreFocusOut: true
+              });
+              if (stashMessage === undefined) {
+                this._sendError(message.requestId, 'Stash cancelled');
+                break;
+              }
+            }
+
+            const includeUntracked = message.payload?.includeUntracked !== false;
+            const stashArgs = ['stash', 'push'];
+            if (includeUntracked) stashArgs.push('--include-untracked');
+            if (stashMessage.trim()) stashArgs.push('-m', stashMessage.trim());
+
+            const pushRes = await this._gitRunner.run(stashArgs, 60000);
+            if (pushRes.exitCode !== 0) {
+              this._sendError(message.requestId, 'Failed to stash changes', pushRes.stderr);
+              break;
+            }
+            this._notifyRepoChanged('stash');
+            this._sendResponse(message.requestId, 'ok');
+            break;
+          }
+          case 'git/stashApply':
+          case 'git/stashPop':
+          case 'git/stashDrop': {
+            if (!this._gitRunner) return;
+            const stashRef = String(message.payload?.ref || '');
+            const stashSha = String(message.payload?.sha || '');
+            const op = message.type === 'git/stashApply' ? 'apply' : message.type === 'git/stashPop' ? 'pop' : 'drop';
+
+            if (!(await this._verifyStashRef(stashRef, stashSha))) {
+              this._sendError(message.requestId, 'The stash list changed. Refresh and try again.');
+              break;
+            }
+
+            if (op === 'drop') {
+              const confirm = await vscode.window.showWarningMessage(
+                `Drop ${stashRef}? The stashed changes will be lost.`,
+                { modal: true, detail: String(message.payload?.message || '') || undefined },
+                'Drop'
+              );
+              if (confirm !== 'Drop') {
+                this._sendError(message.requestId, 'Drop cancelled');
+                break;
+              }
+            }
+
+            // Restore the index too when possible, so staged vs unstaged state survives the round trip.
+            const stashOpArgs = op === 'drop' ? ['stash', 'drop', stashRef] : ['stash', op, '--index', stashRef];
+            let opRes = await this._gitRunner.run(stashOpArgs, 60000);
+            if (opRes.exitCode !== 0 && op !== 'drop' && /--index|could not restore|Conflicts in index/i.test(opRes.stderr)) {
+              opRes = await this._gitRunner.run(['stash', op, stashRef], 60000);
+            }
+
+            this._notifyRepoChanged(`stash ${op}`);
+            if (opRes.exitCode !== 0) {
+              const conflicted = /CONFLICT/.test(opRes.stdout + opRes.stderr);
+              this._sendError(
+                message.requestId,
+                conflicted
+                  ? `Applying ${stashRef} produced conflicts. Resolve them in the working tree${op === 'pop' ? '; the stash was kept' : ''}.`
+                  : `Failed to ${op} ${stashRef}`,
+                opRes.stderr || opRes.stdout
+              );
+              if (conflicted) {
+                vscode.window.showWarningMessage(
+                  `Applying ${stashRef} produced conflicts. Resolve them in the working tree${op === 'pop' ? '; the stash was kept' : ''}.`
+                );
+              }
+              break;
+            }
+            this._sendResponse(message.requestId, 'ok');
+            break;
+          }
           case 'git/revertFile': {
             if (!this._gitRunner) return;
             const { sha, base, path: filePath, oldPath, status } = message.payload as {
@@ -1777,8 +3665,40 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
                 break;
               }
 
+              // Files where only some lines were picked (see `file/hunks`); everything else is committed whole.
+              const partialFiles: PartialFileSelection[] = Array.isArray(message.payload?.partial)
+                ? (message.payload.partial as any[])
+                  .map(p => ({
+                    path: String(p?.path || ''),
+                    fingerprint: String(p?.fingerprint || ''),
+                    lineIds: Array.isArray(p?.lineIds) ? (p.lineIds as any[]).map(id => String(id)) : []
+                  }))
+                  .filter(p => selectedPaths.includes(p.path))
+                : [];
+              const partialPathSet = new Set(partialFiles.map(p => p.path));
+              const wholePaths = selectedPaths.filter(p => !partialPathSet.has(p));
+
+              // Line ids only make sense for the diff they were picked from, so bail out if the file changed since.
+              let partialPatch = '';
+              let stalePartialPath: string | undefined;
+              for (const partial of partialFiles) {
+                const diffRes = await this._diffAgainstHead(partial.path);
+                if (diffRes.exitCode !== 0 || PatchBuilder.fingerprint(diffRes.stdout) !== partial.fingerprint) {
+                  stalePartialPath = partial.path;
+                  break;
+                }
+                partialPatch += PatchBuilder.build(PatchBuilder.parse(diffRes.stdout), partial.lineIds) ?? '';
+              }
+              if (stalePartialPath) {
+                this._sendError(
+                  message.requestId,
+                  `${stalePartialPath} changed after its lines were selected. Select the lines again.`
+                );
+                break;
+              }
+
               const commitArgs = (opts?: { noEdit?: boolean }) => {
-                const base: string[] = ['commit'];
+                const base: string[] = [...this._signingConfigArgs(), 'commit'];
                 if (noVerify) base.push('--no-verify');
 
                 if (!amend) return [...base, '-m', commitMessage];
@@ -1803,16 +3723,15 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
                   .flat();
               };
 
-              const isPathSelected = (p: string) => {
-                if (!selectedPaths || selectedPaths.length === 0) return true;
-                return selectedPaths.includes(p);
-              };
+              // Partially committed files are always dirty afterwards, so they never trigger the hook amend below.
+              const isPathSelected = (p: string) => wholePaths.includes(p);
 
               // Selected-file commit:
               // - Preserve any existing staged changes (best effort)
-              // - Stage only selected paths
+              // - Stage only selected paths, and only the selected lines of partial files
               // - Commit only those changes
               let stagedPatchFile: string | undefined;
+              let partialPatchFile: string | undefined;
               try {
                 const stagedDiffRes = await this._gitRunner.run(['diff', '--cached', '--binary']);
                 const stagedPatch = stagedDiffRes.exitCode === 0 ? stagedDiffRes.stdout : '';
@@ -1830,10 +3749,30 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
                   break;
                 }
 
-                const addRes = await this._gitRunner.run(['add', '-A', '--', ...selectedPaths]);
-                if (addRes.exitCode !== 0) {
-                  this._sendError(message.requestId, 'Failed to stage selected files', addRes.stderr);
-                  break;
+                if (wholePaths.length > 0) {
+                  const addRes = await this._gitRunner.run(['add', '-A', '--', ...wholePaths]);
+                  if (addRes.exitCode !== 0) {
+                    this._sendError(message.requestId, 'Failed to stage selected files', addRes.stderr);
+                    break;
+                  }
+                }
+
+                if (partialPatch) {
+                  partialPatchFile = path.join(
+                    os.tmpdir(),
+                    `gitbit-partial-${Date.now()}-${Math.random().toString(16).slice(2)}.patch`
+                  );
+                  await fs.promises.writeFile(partialPatchFile, partialPatch, 'utf8');
+                  const applyPartialRes = await this._gitRunner.run(['apply', '--cached', '--whitespace=nowarn', partialPatchFile]);
+                  if (applyPartialRes.exitCode !== 0) {
+                    // Nothing was committed yet: put the index back the way it was before giving up.
+                    await this._gitRunner.run(['reset']);
+                    if (stagedPatchFile) {
+                      await this._gitRunner.run(['apply', '--cached', '--whitespace=nowarn', stagedPatchFile]);
+                    }
+                    this._sendError(message.requestId, 'Failed to stage selected lines', applyPartialRes.stderr);
+                    break;
+                  }
                 }
 
                 const commitRes = await this._gitRunner.run(commitArgs({ noEdit: true }));
@@ -1847,8 +3786,8 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
                 const dirtyPaths = parsePorcelainPaths(statusAfter.stdout);
                 const shouldAmend = dirtyPaths.some(p => isPathSelected(p));
                 if (shouldAmend) {
-                  await this._gitRunner.run(['add', '-A', '--', ...selectedPaths]);
-                  const amendArgs = ['commit'];
+                  await this._gitRunner.run(['add', '-A', '--', ...wholePaths]);
+                  const amendArgs = [...this._signingConfigArgs(), 'commit'];
                   if (noVerify) amendArgs.push('--no-verify');
                   amendArgs.push('--amend', '--no-edit');
                   await this._gitRunner.run(amendArgs);
@@ -1873,9 +3812,10 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
 
               this._sendResponse(message.requestId, 'ok');
               } finally {
-                if (stagedPatchFile) {
+                for (const tmpFile of [stagedPatchFile, partialPatchFile]) {
+                  if (!tmpFile) continue;
                   try {
-                    await fs.promises.unlink(stagedPatchFile);
+                    await fs.promises.unlink(tmpFile);
                   } catch {
                     // ignore
                   }
@@ -2025,7 +3965,7 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
                   .map(c => `- ${c.subject} (${c.sha.substring(0, 8)})`)
                   .join('\n');
 
-                const commitRes = await this._gitRunner.run(['commit', '-m', title.trim(), '-m', body]);
+                const commitRes = await this._gitRunner.run([...this._signingConfigArgs(), 'commit', '-m', title.trim(), '-m', body]);
                 if (commitRes.exitCode !== 0) {
                   this._sendError(message.requestId, 'Squash commit failed', commitRes.stderr);
                   await restoreOriginal();
@@ -2056,7 +3996,7 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
                   }
 
                   if (subsequent.length > 0) {
-                    const cherryRes = await this._gitRunner.run(['cherry-pick', ...subsequent]);
+                    const cherryRes = await this._gitRunner.run([...this._signingConfigArgs(), 'cherry-pick', ...subsequent]);
                     if (cherryRes.exitCode !== 0) {
                       await this._gitRunner.run(['cherry-pick', '--abort']);
                       await restoreOriginal();
@@ -2071,7 +4011,7 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
                 } else {
                   // Detached HEAD: keep working in detached state.
                   if (subsequent.length > 0) {
-                    const cherryRes = await this._gitRunner.run(['cherry-pick', ...subsequent]);
+                    const cherryRes = await this._gitRunner.run([...this._signingConfigArgs(), 'cherry-pick', ...subsequent]);
                     if (cherryRes.exitCode !== 0) {
                       await this._gitRunner.run(['cherry-pick', '--abort']);
                       await this._gitRunner.run(['checkout', '--detach', originalTip]);
@@ -2205,7 +4145,7 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
 
                 let cherryFailed = false;
                 for (const sha of remainingSeq) {
-                  const cherryRes = await this._gitRunner.run(['cherry-pick', sha], 600000);
+                  const cherryRes = await this._gitRunner.run([...this._signingConfigArgs(), 'cherry-pick', sha], 600000);
                   if (cherryRes.exitCode !== 0) {
                     await this._gitRunner.run(['cherry-pick', '--abort']);
                     await restoreOriginal();
@@ -2410,7 +4350,7 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
 
                 let cherryFailed = false;
                 for (const sha of newSeq) {
-                  const cherryRes = await this._gitRunner.run(['cherry-pick', sha], 600000);
+                  const cherryRes = await this._gitRunner.run([...this._signingConfigArgs(), 'cherry-pick', sha], 600000);
                   if (cherryRes.exitCode !== 0) {
                     await this._gitRunner.run(['cherry-pick', '--abort']);
                     await restoreOriginal();
@@ -2459,19 +4399,523 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
               }
             }
             break;
+          case 'rebase/plan':
+            if (!this._gitRunner) return;
+            {
+              const planShas: string[] = Array.isArray(message.payload?.shas)
+                ? (message.payload.shas as any[]).map(s => String(s)).filter(s => s && s !== GitGraphViewProvider.UNCOMMITTED_SHA)
+                : [];
+              if (planShas.length < 1) {
+                this._sendError(message.requestId, 'Invalid selection for interactive rebase');
+                break;
+              }
+
+              const branchRes = await this._gitRunner.run(['symbolic-ref', '--quiet', '--short', 'HEAD']);
+              const branch = branchRes.exitCode === 0 ? branchRes.stdout.trim() : null;
+              if (!branch) {
+                this._sendError(message.requestId, 'Interactive rebase is not supported in detached HEAD state. Checkout a branch first.');
+                break;
+              }
+
+              // Use first-parent log for consistent ordering with the UI.
+              const logRes = await this._gitRunner.run(['log', '--first-parent', '--format=%H%x09%P%x09%s']);
+              if (logRes.exitCode !== 0) {
+                this._sendError(message.requestId, 'Failed to fetch log for interactive rebase', logRes.stderr);
+                break;
+              }
+              const allOldestFirst = logRes.stdout
+                .trim()
+                .split('\n')
+                .filter(Boolean)
+                .map(line => {
+                  const [sha, parents, subject] = line.split('\t');
+                  return { sha, parents: parents ? parents.split(' ') : [], subject: subject || '' };
+                })
+                .reverse();
+
+              const positions = planShas.map(sha => allOldestFirst.findIndex(c => c.sha === sha));
+              if (positions.some(p => p === -1)) {
+                this._sendError(message.requestId, 'Interactive rebase failed: one or more selected commits are not on the current branch history.');
+                break;
+              }
+
+              // Everything from the oldest selected commit up to HEAD gets rewritten.
+              const range = allOldestFirst.slice(Math.min(...positions));
+              if (range[0].parents.length === 0) {
+                this._sendError(message.requestId, 'Cannot rebase a range that includes the root commit (not supported yet).');
+                break;
+              }
+              // For now, only support linear history (no merge commits) in the rewritten range.
+              if (range.some(c => c.parents.length > 1)) {
+                this._sendError(message.requestId, 'Interactive rebase is not supported for merge commits yet.');
+                break;
+              }
+
+              const plan: RebasePlan = {
+                branch,
+                baseSha: range[0].parents[0],
+                entries: range.map(c => ({ sha: c.sha, subject: c.subject, action: 'pick' }))
+              };
+              this._sendResponse(message.requestId, plan);
+            }
+            break;
+          case 'git/interactiveRebase':
+            if (!this._gitRunner) return;
+            {
+              const baseSha = String(message.payload?.baseSha || '');
+              const entries: RebaseTodoEntry[] = Array.isArray(message.payload?.entries)
+                ? (message.payload.entries as any[]).map(e => ({
+                  sha: String(e?.sha || ''),
+                  subject: String(e?.subject || ''),
+                  action: e?.action,
+                  message: typeof e?.message === 'string' ? e.message : undefined
+                }))
+                : [];
+              const validActions = new Set(['pick', 'reword', 'edit', 'squash', 'fixup', 'drop']);
+              if (!baseSha || entries.length === 0 || entries.some(e => !e.sha || !validActions.has(e.action))) {
+                this._sendError(message.requestId, 'Invalid interactive rebase plan');
+                break;
+              }
+
+              const invalidReason = RebaseTodo.validate(entries);
+              if (invalidReason) {
+                this._sendError(message.requestId, invalidReason);
+                vscode.window.showErrorMessage(invalidReason);
+                break;
+              }
+
+              if (!(await this._ensureClean('Rebasing rewrites history. You have local changes. Continue?'))) {
+                this._sendError(message.requestId, 'Rebase cancelled');
+                break;
+              }
+
+              const branchRes = await this._gitRunner.run(['symbolic-ref', '--quiet', '--short', 'HEAD']);
+              const originalBranch = branchRes.exitCode === 0 ? branchRes.stdout.trim() : null;
+              if (!originalBranch) {
+                this._sendError(message.requestId, 'Interactive rebase is not supported in detached HEAD state. Checkout a branch first.');
+                break;
+              }
+              const tipRes = await this._gitRunner.run(['rev-parse', 'HEAD']);
+              const originalTip = tipRes.exitCode === 0 ? tipRes.stdout.trim() : '';
+              if (!originalTip) {
+                this._sendError(message.requestId, 'Failed to determine current HEAD');
+                break;
+              }
+
+              // The plan was computed earlier; make sure it still covers exactly base..HEAD.
+              const currentRangeRes = await this._gitRunner.run(['rev-list', '--reverse', '--first-parent', `${baseSha}..${originalTip}`]);
+              const currentRange = currentRangeRes.exitCode === 0 ? currentRangeRes.stdout.trim().split('\n').filter(Boolean) : [];
+              const plannedShas = new Set(entries.map(e => e.sha));
+              if (currentRange.length !== entries.length || currentRange.some(sha => !plannedShas.has(sha))) {
+                this._sendError(message.requestId, 'The branch changed since the rebase plan was made. Reopen the rebase editor and try again.');
+                vscode.window.showWarningMessage('The branch changed since the rebase plan was made. Reopen the rebase editor and try again.');
+                break;
+              }
+
+              const counts = entries.reduce((acc, e) => {
+                acc[e.action] = (acc[e.action] || 0) + 1;
+                return acc;
+              }, {} as Record<string, number>);
+              const summary = Object.entries(counts)
+                .filter(([action]) => action !== 'pick')
+                .map(([action, n]) => `${n} ${action}`)
+                .join(', ');
+              const confirm = await vscode.window.showWarningMessage(
+                `Rebase ${entries.length} commit(s) on ${originalBranch}${summary ? ` (${summary})` : ''}? This rewrites history.`,
+                { modal: true },
+                'Rebase'
+              );
+              if (confirm !== 'Rebase') {
+                this._sendError(message.requestId, 'Rebase cancelled');
+                break;
+              }
+
+              // A previous rebase stopped at an `edit` may have been finished outside GitBit.
+              await this._removeRebaseTmpDir(this._gitRunner);
+              const tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'gitbit-rebase-'));
+              const tmpBranch = `cgg-tmp-rebase-${Date.now()}`;
+              await this._gitRunner.run(['branch', tmpBranch, originalTip]);
+
+              // Reword messages are read by `exec` lines later in the todo, so they must outlive an `edit` stop.
+              let keepTmpDir = false;
+              const restoreOriginal = async () => {
+                await this._gitRunner!.run(['rebase', '--abort']);
+                await this._gitRunner!.run(['checkout', originalBranch]);
+                await this._gitRunner!.run(['reset', '--hard', originalTip]);
+              };
+
+              try {
+                const messageFiles = new Map<string, string>();
+                for (const entry of entries) {
+                  if (entry.action !== 'reword') continue;
+                  const file = path.join(tmpDir, `${entry.sha}.msg`);
+                  await fs.promises.writeFile(file, entry.message!.trim() + '\n', 'utf8');
+                  messageFiles.set(entry.sha, file);
+                }
+                const todoFile = path.join(tmpDir, 'git-rebase-todo');
+                await fs.promises.writeFile(todoFile, RebaseTodo.format(entries, messageFiles), 'utf8');
+
+                this._outputChannel.appendLine(`Attempting interactive rebase of ${entries.length} commits onto ${baseSha.substring(0, 8)}...`);
+
+                // Git hands the todo (and any squash message) to these "editors": swap in our todo as-is and accept
+                // git's default combined message for squashes.
+                const toPosix = (p: string) => p.replace(/\\/g, '/');
+                const rebaseRes = await this._gitRunner.run([...this._signingConfigArgs(), 'rebase', '-i', baseSha], 600000, {
+                  GIT_SEQUENCE_EDITOR: `cp '${toPosix(todoFile)}'`,
+                  GIT_EDITOR: 'true'
+                });
+
+                const rebaseDirRes = await this._gitRunner.run(['rev-parse', '--git-path', 'rebase-merge']);
+                const rebaseDir = rebaseDirRes.exitCode === 0 ? rebaseDirRes.stdout.trim() : '';
+                const stillRebasing = !!rebaseDir && fs.existsSync(path.resolve(this._gitRunner.cwd, rebaseDir));
+
+                if (rebaseRes.exitCode !== 0) {
+                  await restoreOriginal();
+                  this._sendError(
+                    message.requestId,
+                    'Interactive rebase failed due to conflicts while rewriting history. Your branch was restored.',
+                    rebaseRes.stderr
+                  );
+                  break;
+                }
+
+                if (stillRebasing) {
+                  // Stopped at an `edit` entry: leave the rebase in progress for the user to amend and continue.
+                  keepTmpDir = true;
+                  this._rebaseTmpDirs.set(this._gitRunner.cwd, tmpDir);
+                  this._notifyRepoChanged('rebase');
+                  vscode.window.showInformationMessage(
+                    'Rebase stopped for editing. Amend the commit, then press Continue in the GitBit banner (or Abort to undo).'
+                  );
+                  this._sendResponse(message.requestId, { stopped: true });
+                  break;
+                }
+
+                const newTipRes = await this._gitRunner.run(['rev-parse', 'HEAD']);
+                this._outputChannel.appendLine('Interactive rebase successful.');
+                this._notifyRepoChanged('rebase');
+                this._sendResponse(message.requestId, { newHead: newTipRes.stdout.trim() });
+              } finally {
+                // Best-effort cleanup of temp branch and todo/message files.
+                await this._gitRunner.run(['branch', '-D', tmpBranch]);
+                if (!keepTmpDir) {
+                  try {
+                    await fs.promises.rm(tmpDir, { recursive: true, force: true });
+                  } catch {
+                    // ignore
+                  }
+                }
+              }
+            }
+            break;
         }
       } catch (err: any) {
         this._outputChannel.appendLine(`Error processing message: ${err.message}`);
         this._sendError(message.requestId, err.message);
+      } finally {
+        if (journalRunner && journalBefore) {
+          const before = journalBefore;
+          this._journalWrites = this._journalWrites.then(() => this._recordOperation(journalRunner, message.type, before));
+          await this._journalWrites;
+        }
       }
     });
 
     webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
 
+    const repoListListeners = vscode.Disposable.from(
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('gitbit.repositoryScan')) this._invalidateRepos('scan settings changed');
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this._invalidateRepos('workspace folders changed'))
+    );
+
     webviewView.onDidDispose(() => {
       this._disposables.forEach(d => d.dispose());
       this._disposables = [];
+      repoListListeners.dispose();
+    });
+  }
+
+  /** Adds a journal entry when the action that just ran moved HEAD or a branch. */
+  /** Journals an operation started outside the message handler (e.g. from a notification), like a webview request. */
+  private async _journaled<T>(runner: GitRunner, type: string, action: () => Promise<T>): Promise<T> {
+    const before = await OperationJournal.snapshot(runner);
+    try {
+      return await action();
+    } finally {
+      if (before) {
+        this._journalWrites = this._journalWrites.then(() => this._recordOperation(runner, type, before));
+        await this._journalWrites;
+      }
+    }
+  }
+
+  private async _recordOperation(runner: GitRunner, type: string, before: RefSnapshot) {
+    try {
+      const after = await OperationJournal.snapshot(runner);
+      if (!after || !OperationJournal.changed(before, after)) return;
+      const entries = this._journal.get(runner.cwd) || [];
+      entries.push({ id: ++this._journalSeq, operation: type, label: OperationJournal.labelFor(type), timestamp: Date.now(), before, after });
+      if (entries.length > OperationJournal.LIMIT) entries.splice(0, entries.length - OperationJournal.LIMIT);
+      this._journal.set(runner.cwd, entries);
+      // The handler has usually answered and announced the repo change by now; tell views the journal caught up.
+      this._view?.webview.postMessage({ type: 'event/journalChanged' });
+    } catch (err: any) {
+      this._outputChannel.appendLine(`Failed to record ${type} in the operation journal: ${err?.message ?? String(err)}`);
+    }
+  }
+
+  /**
+   * Restores the refs the most recent journaled operation in the current repo changed, after a confirmation that
+   * lists what will move. Returns true when something was undone; problems are reported to the user directly.
+   */
+  private async _undoLastOperation(): Promise<boolean> {
+    await this._journalWrites;
+    const runner = this._gitRunner;
+    const entries = runner ? this._journal.get(runner.cwd) : undefined;
+    const entry = entries?.[entries.length - 1];
+    if (!runner || !entries || !entry) {
+      vscode.window.showInformationMessage('Nothing to undo: no GitBit operation has changed this repository yet.');
+      return false;
+    }
+
+    const opState = await GitOperationState.detect(runner);
+    if (opState) {
+      await vscode.window.showErrorMessage(`Finish or abort the ${opState.kind} in progress before undoing.`, { modal: true });
+      return false;
+    }
+    const current = await OperationJournal.snapshot(runner);
+    if (!current) return false;
+
+    const plan = OperationJournal.planUndo(entry, current);
+    if (!plan.head && Object.keys(plan.branches).length === 0) {
+      entries.pop();
+      vscode.window.showInformationMessage(`"${entry.label}" was already undone.`);
+      return false;
+    }
+
+    const short = (sha?: string) => (sha ? sha.substring(0, 8) : 'none');
+    const lines: string[] = [];
+    if (plan.head) lines.push(`Check out ${plan.head.branch ?? `${short(plan.head.sha)} (detached)`}`);
+    for (const [name, sha] of Object.entries(plan.branches)) {
+      lines.push(sha ? `${name}: ${short(current.branches[name])} → ${short(sha)}` : `${name}: delete (created by ${entry.label.toLowerCase()})`);
+    }
+    if (plan.movedSince.length > 0) {
+      lines.push('', `${plan.movedSince.join(', ')} changed again since then; undoing also drops those later changes (they stay in the reflog).`);
+    }
+    const choice = await vscode.window.showWarningMessage(
+      `Undo "${entry.label}" from ${new Date(entry.timestamp).toLocaleTimeString()}?`,
+      { modal: true, detail: lines.join('\n') },
+      'Undo'
+    );
+    if (choice !== 'Undo') return false;
+
+    const error = await OperationJournal.restore(runner, plan);
+    this._notifyRepoChanged('undo');
+    if (error) {
+      await vscode.window.showErrorMessage(`Undo failed: ${error.trim()}`, { modal: true });
+      return false;
+    }
+    entries.pop();
+    return true;
+  }
+
+  /** InputBox validation for a new remote name; git rejects names that can't be used in `refs/remotes/<name>/`. */
+  private _validateRemoteName(value: string, existing: string[]) {
+    const name = value.trim();
+    if (!name) return 'Remote name is required';
+    if (existing.includes(name)) return `A remote named "${name}" already exists`;
+    if (/[\s~^:?*[\\]|\.\.|^[-.]|\.lock$|\/$/.test(name)) return 'Not a valid remote name';
+    return null;
+  }
+
+  /**
+   * Runs a ref listing whose --format uses %(worktreepath), which needs git 2.23. Older git rejects the format, so it
+   * runs again with that field left empty: branches checked out in other worktrees then aren't marked, but git still
+   * refuses to check them out or delete them.
+   */
+  private async _runWithWorktreePath(runner: GitRunner, args: string[]): Promise<GitResult> {
+    const res = await runner.run(args);
+    if (res.exitCode === 0 || !args.some(arg => arg.includes('%(worktreepath)'))) return res;
+    return runner.run(args.map(arg => arg.replace('%(worktreepath)', '')));
+  }
+
+  /**
+   * Local branches whose upstream no longer exists (`[gone]` after a pruning fetch), typically because they were
+   * merged and deleted on the remote. Branches checked out here or in another worktree are left out.
+   */
+  private async _listGoneBranches(runner: GitRunner): Promise<string[]> {
+    const res = await this._runWithWorktreePath(runner, [
+      'for-each-ref',
+      'refs/heads',
+      '--format=%(refname:short)%09%(upstream:track,nobracket)%09%(HEAD)%09%(worktreepath)'
+    ]);
+    if (res.exitCode !== 0) return [];
+    return res.stdout.split('\n')
+      .map(line => line.split('\t'))
+      .filter(([name, track, head, worktreePath]) => name && track === 'gone' && head !== '*' && !worktreePath)
+      .map(([name]) => name);
+  }
+
+  /**
+   * Lets the user pick which gone branches to delete, then deletes them. Branches that aren't merged anywhere
+   * (common after squash merges) are only force deleted after a second confirmation.
+   * Returns the number of deleted branches, or null when cancelled.
+   */
+  private async _deleteGoneBranches(runner: GitRunner, gone: string[]): Promise<number | null> {
+    const picked = await vscode.window.showQuickPick(
+      gone.map(name => ({ label: name, picked: true })),
+      {
+        title: 'Delete branches whose upstream was deleted',
+        placeHolder: 'Branches to delete',
+        canPickMany: true
+      }
+    );
+    if (!picked || picked.length === 0) return null;
+
+    let deleted = 0;
+    const unmerged: string[] = [];
+    for (const { label } of picked) {
+      const res = await runner.run(['branch', '-d', label]);
+      if (res.exitCode === 0) deleted++;
+      else unmerged.push(label);
+    }
+
+    if (unmerged.length > 0) {
+      const force = await vscode.window.showWarningMessage(
+        `${unmerged.length === 1 ? `"${unmerged[0]}" is` : `${unmerged.length} branches are`} not fully merged into the current branch. Force delete?`,
+        { modal: true, detail: unmerged.join('\n') },
+        'Force Delete'
+      );
+      if (force === 'Force Delete') {
+        for (const name of unmerged) {
+          const res = await runner.run(['branch', '-D', name]);
+          if (res.exitCode === 0) deleted++;
+          else this._outputChannel.appendLine(`Failed to delete ${name}: ${res.stderr.trim()}`);
+        }
+      }
+    }
+
+    if (deleted > 0) {
+      this._notifyRepoChanged('branch-delete');
+      vscode.window.showInformationMessage(`Deleted ${deleted} branch${deleted === 1 ? '' : 'es'}.`);
+    }
+    return deleted;
+  }
+
+  /** After a fetch, offers (once per branch) to delete branches whose upstream the fetch pruned. */
+  private async _offerGoneBranchCleanup(runner: GitRunner) {
+    const gone = (await this._listGoneBranches(runner)).filter(name => !this._offeredGoneBranches.has(`${runner.cwd}:${name}`));
+    if (gone.length === 0) return;
+    gone.forEach(name => this._offeredGoneBranches.add(`${runner.cwd}:${name}`));
+
+    const choice = await vscode.window.showInformationMessage(
+      gone.length === 1
+        ? `The upstream of "${gone[0]}" was deleted on the remote.`
+        : `The upstreams of ${gone.length} local branches were deleted on the remote.`,
+      'Delete Branches…'
+    );
+    if (!choice) return;
+    // The list may have changed while the notification was showing.
+    const current = await this._listGoneBranches(runner);
+    if (current.length > 0) await this._journaled(runner, 'git/deleteGoneBranches', () => this._deleteGoneBranches(runner, current));
+  }
+
+  /**
+   * Reads a page of the HEAD reflog, one row per HEAD movement with its position (`reflog.index`), for the
+   * commit list's reflog mode and the History panel alike.
+   */
+  private async _readReflog(runner: GitRunner, skip: number, limit: number): Promise<CommitPage> {
+    // One row per HEAD movement, so the same commit can show up many times. The reflog selector comes first and
+    // the reflog message last, around the usual log fields (with %aI and %cI, as --date=unix is needed for the
+    // selector). They are set apart with \x1f because commit subjects, and so reflog messages, may contain tabs.
+    const args = [
+      'log',
+      '--walk-reflogs',
+      '--date=unix',
+      '-n', `${limit + 1}`,
+      '--pretty=format:%gd%x1f%H%x09%P%x09%an%x09%ae%x09%aI%x09%s%x09%D%x09%cn%x09%ce%x09%cI%x1f%gs'
+    ];
+    if (skip > 0) args.push(`--skip=${skip}`);
+    args.push('HEAD');
+    const reflogLogRes = await runner.run(args, 60000);
+    // A repo without commits has no reflog yet.
+    if (reflogLogRes.exitCode !== 0) return { commits: [], hasMore: false };
+
+    const lines = reflogLogRes.stdout.split('\n').filter(line => line.trim().length > 0);
+    const commits: Commit[] = [];
+    lines.forEach((line, i) => {
+      const selectorEnd = line.indexOf('\x1f');
+      const actionStart = line.lastIndexOf('\x1f');
+      if (selectorEnd === -1 || actionStart === selectorEnd) return;
+      const [c] = GitLogParser.parseLog(line.substring(selectorEnd + 1, actionStart));
+      if (!c) return;
+      commits.push({
+        ...c,
+        refs: GitLogParser.parseDecorations(c.decorations),
+        reflog: {
+          index: skip + i,
+          sha: c.sha,
+          action: line.substring(actionStart + 1),
+          timestamp: Number(/\{(\d+)\}/.exec(line.substring(0, selectorEnd))?.[1] || 0)
+        }
+      });
     });
+    const hasMore = commits.length > limit;
+    return { commits: hasMore ? commits.slice(0, limit) : commits, hasMore };
+  }
+
+  /** Deletes the temp dir kept for an interactive rebase that stopped at an `edit`, once that rebase is over. */
+  private async _removeRebaseTmpDir(runner: GitRunner) {
+    const tmpDir = this._rebaseTmpDirs.get(runner.cwd);
+    if (!tmpDir) return;
+    const opState = await GitOperationState.detect(runner);
+    if (opState?.kind === 'rebase') return;
+    this._rebaseTmpDirs.delete(runner.cwd);
+    try {
+      await fs.promises.rm(tmpDir, { recursive: true, force: true });
+    } catch {
+      // ignore
+    }
+  }
+
+  /** Names the commit a bisect narrowed down to and offers to end the bisect (back to where it started). */
+  private async _announceFirstBadCommit(sha: string) {
+    const subjectRes = await this._gitRunner?.run(['show', '-s', '--format=%s', sha]);
+    const choice = await vscode.window.showInformationMessage(
+      `First bad commit: ${sha.substring(0, 8)} ${subjectRes?.stdout.trim() ?? ''}`,
+      'End Bisect'
+    );
+    if (choice === 'End Bisect' && this._gitRunner) {
+      const res = await this._gitRunner.run(['bisect', 'reset'], 60000);
+      if (res.exitCode !== 0) vscode.window.showErrorMessage(`Bisect reset failed: ${res.stderr.trim()}`);
+      this._notifyRepoChanged('bisect');
+    }
+  }
+
+  /**
+   * `-c` options for commands that create commits, from the `gitbit.commitSigning.*` settings.
+   * Empty for the default `gitConfig`, which leaves commit.gpgSign, gpg.format and user.signingKey to git.
+   */
+  private _signingConfigArgs(): string[] {
+    const config = vscode.workspace.getConfiguration('gitbit.commitSigning');
+    const format = config.get<string>('format', 'gitConfig');
+    if (format === 'off') return ['-c', 'commit.gpgSign=false'];
+    if (format !== 'gpg' && format !== 'ssh') return [];
+    const args = ['-c', 'commit.gpgSign=true', '-c', `gpg.format=${format === 'ssh' ? 'ssh' : 'openpgp'}`];
+    const key = config.get<string>('key', '').trim();
+    if (key) args.push('-c', `user.signingKey=${key}`);
+    return args;
+  }
+
+  /** `commit-tree` ignores commit.gpgSign, so it is asked to sign explicitly whenever commits are signed. */
+  private async _commitTreeSignArgs(): Promise<string[]> {
+    const format = vscode.workspace.getConfiguration('gitbit.commitSigning').get<string>('format', 'gitConfig');
+    if (format === 'gpg' || format === 'ssh') return ['-S'];
+    if (format === 'off' || !this._gitRunner) return [];
+    const res = await this._gitRunner.run(['config', '--bool', 'commit.gpgSign']);
+    return res.stdout.trim() === 'true' ? ['-S'] : [];
   }
 
   private async _ensureClean(message = 'You have local changes. Continue?'): Promise<boolean> {
@@ -2484,15 +4928,49 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
     return true;
   }
 
-  private _parseChanges(stdout: string) {
+  /**
+   * Stash refs are positional (stash@{0} shifts whenever a stash is pushed or dropped), so make sure
+   * the ref still names the stash the user clicked on.
+   */
+  private async _verifyStashRef(ref: string, sha: string): Promise<boolean> {
+    if (!this._gitRunner || !/^stash@\{\d+\}$/.test(ref) || !sha) return false;
+    const res = await this._gitRunner.run(['rev-parse', '--verify', '--quiet', ref]);
+    return res.exitCode === 0 && res.stdout.trim() === sha;
+  }
+
+  /**
+   * Working tree diff of one file against HEAD, in the exact form line selections (`file/hunks`) are made on.
+   */
+  private async _diffAgainstHead(filePath: string) {
+    return this._gitRunner!.run(['diff', '--no-color', '--no-ext-diff', '--unified=3', 'HEAD', '--', filePath]);
+  }
+
+  /**
+   * Parses `--name-status` or `--raw` diff output. Raw lines (`:<old mode> <new mode> <old sha> <new sha> <status>`)
+   * also carry file modes, so submodule pointer changes (mode 160000) come back with their old and new commits.
+   */
+  private _parseChanges(stdout: string): Change[] {
     const lines = stdout.split('\n').filter(l => l.trim().length > 0);
     return lines.map(line => {
       const parts = line.split('\t');
-      const status = parts[0][0] as any;
-      if (status === 'R' || status === 'C') {
-        return { status, oldPath: parts[1], path: parts[2] };
+      let statusField = parts[0];
+      let submodule: Change['submodule'];
+      if (statusField.startsWith(':')) {
+        const [oldMode, newMode, oldSha, newSha, rawStatus] = statusField.substring(1).split(' ');
+        statusField = rawStatus || '';
+        if (oldMode === GitGraphViewProvider.GITLINK_MODE || newMode === GitGraphViewProvider.GITLINK_MODE) {
+          // All-zero shas mean "absent" (added/deleted) or "look at the working tree".
+          const known = (sha: string, mode: string) =>
+            mode === GitGraphViewProvider.GITLINK_MODE && !/^0+$/.test(sha) ? sha : undefined;
+          submodule = { oldSha: known(oldSha, oldMode), newSha: known(newSha, newMode) };
+        }
       }
-      return { status, path: parts[1] };
+      const status = statusField[0] as Change['status'];
+      const change: Change = status === 'R' || status === 'C'
+        ? { status, oldPath: parts[1], path: parts[2] }
+        : { status, path: parts[1] };
+      if (submodule) change.submodule = submodule;
+      return change;
     });
   }
 
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { GitGraphViewProvider } from './GitGraphViewProvider';
 import { GitContentProvider } from './git/GitContentProvider';
+import { BlameController } from './BlameController';
 
 export function activate(context: vscode.ExtensionContext) {
   const provider = new GitGraphViewProvider(context.extensionUri);
@@ -17,6 +18,32 @@ export function activate(context: vscode.ExtensionContext) {
     )
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('gitbit.showFileHistory', (uri?: vscode.Uri) => {
+      const target = uri instanceof vscode.Uri ? uri : vscode.window.activeTextEditor?.document.uri;
+      if (!target || target.scheme !== 'file') {
+        vscode.window.showWarningMessage('GitBit: open a file to show its history.');
+        return;
+      }
+      return provider.showFileHistory(target);
+    })
+  );
+
+  const blame = new BlameController(provider);
+  context.subscriptions.push(
+    blame,
+    vscode.commands.registerCommand('gitbit.annotate', (uri?: vscode.Uri, keepIfAnnotated?: boolean) =>
+      blame.toggle(uri, keepIfAnnotated === true)
+    ),
+    vscode.commands.registerCommand('gitbit.blamePrevious', (uriString?: string, line?: number) =>
+      blame.blamePrevious(typeof uriString === 'string' ? uriString : undefined, typeof line === 'number' ? line : undefined)
+    ),
+    vscode.commands.registerCommand('gitbit.revealCommit', (root?: string, sha?: string) => {
+      if (typeof root === 'string' && typeof sha === 'string') return provider.revealCommit(root, sha);
+    }),
+    vscode.commands.registerCommand('gitbit.undoLastOperation', () => provider.undoLastOperation())
+  );
+
   context.subscriptions.push(
     vscode.workspace.registerTextDocumentContentProvider(
       GitContentProvider.scheme,
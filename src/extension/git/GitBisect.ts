@@ -0,0 +1,47 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GitRunner } from './GitRunner';
+import { BisectState } from '../protocol/types';
+
+// Candidate shas sent to the webview; beyond this the range is only counted.
+const MAX_CANDIDATES = 10000;
+
+export class GitBisect {
+  /**
+   * Reads the bisect in progress from `BISECT_START` and the `refs/bisect/*` refs git keeps while bisecting.
+   * Returns null when no bisect is in progress.
+   */
+  public static async detect(runner: GitRunner): Promise<BisectState | null> {
+    const startRes = await runner.run(['rev-parse', '--git-path', 'BISECT_START']);
+    if (startRes.exitCode !== 0 || !fs.existsSync(path.resolve(runner.cwd, startRes.stdout.trim()))) return null;
+
+    const [headRes, refsRes] = await Promise.all([
+      runner.run(['rev-parse', '--verify', '--quiet', 'HEAD']),
+      runner.run(['for-each-ref', 'refs/bisect', '--format=%(refname)%09%(objectname)'])
+    ]);
+    const state: BisectState = { current: headRes.stdout.trim(), good: [], skipped: [], candidates: [] };
+    for (const line of refsRes.stdout.split('\n')) {
+      const [refname, sha] = line.split('\t');
+      if (!refname || !sha) continue;
+      if (refname === 'refs/bisect/bad') state.bad = sha;
+      else if (refname.startsWith('refs/bisect/good-')) state.good.push(sha);
+      else if (refname.startsWith('refs/bisect/skip-')) state.skipped.push(sha);
+    }
+    // Until both ends are marked there is no range to narrow down.
+    if (!state.bad || state.good.length === 0) return state;
+
+    const range = [state.bad, '--not', ...state.good];
+    const [candidatesRes, varsRes] = await Promise.all([
+      runner.run(['rev-list', `--max-count=${MAX_CANDIDATES + 1}`, ...range], 30000),
+      runner.run(['rev-list', '--bisect-vars', ...range], 30000)
+    ]);
+    const candidates = candidatesRes.stdout.split('\n').filter(Boolean);
+    state.candidatesHasMore = candidates.length > MAX_CANDIDATES;
+    state.candidates = candidates.slice(0, MAX_CANDIDATES);
+    const steps = /^bisect_steps=(\d+)/m.exec(varsRes.stdout);
+    if (steps) state.stepsLeft = Number(steps[1]);
+    // Once the bad commit is the only candidate left, it is the first bad one.
+    if (state.candidates.length === 1 && state.candidates[0] === state.bad) state.firstBad = state.bad;
+    return state;
+  }
+}
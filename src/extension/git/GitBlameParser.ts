@@ -0,0 +1,74 @@
+export interface BlameLine {
+  /** 1-based line number in the blamed file. */
+  line: number;
+  /** Line number in the file as it was in `sha`. */
+  origLine: number;
+  sha: string;
+  authorName: string;
+  authorEmail: string;
+  /** Unix timestamp (seconds). */
+  authorTime: number;
+  summary: string;
+  /** Path of the file in `sha` (differs from the blamed path across renames). */
+  filename: string;
+  /** Parent commit and path to continue blaming from; missing for lines added in a root commit. */
+  previous?: { sha: string; filename: string };
+}
+
+/** Sha git blame uses for lines that aren't committed yet. */
+export const UNCOMMITTED_BLAME_SHA = '0000000000000000000000000000000000000000';
+
+export class GitBlameParser {
+  /**
+   * Parses `git blame --porcelain` output. Commit details are only printed the first time a commit shows up,
+   * so they're remembered per sha and copied onto every line.
+   */
+  public static parse(stdout: string): BlameLine[] {
+    const result: BlameLine[] = [];
+    const commits = new Map<string, Omit<BlameLine, 'line' | 'origLine'>>();
+    const lines = stdout.split('\n');
+
+    let i = 0;
+    while (i < lines.length) {
+      const header = lines[i++].split(' ');
+      if (header.length < 3 || !/^[0-9a-f]{40}$/.test(header[0])) continue;
+      const sha = header[0];
+      const origLine = Number(header[1]);
+      const finalLine = Number(header[2]);
+
+      const info = commits.get(sha) ?? {
+        sha,
+        authorName: '',
+        authorEmail: '',
+        authorTime: 0,
+        summary: '',
+        filename: ''
+      };
+
+      // Key/value lines run until the tab-prefixed content line.
+      while (i < lines.length && !lines[i].startsWith('\t')) {
+        const line = lines[i++];
+        const space = line.indexOf(' ');
+        const key = space < 0 ? line : line.substring(0, space);
+        const value = space < 0 ? '' : line.substring(space + 1);
+        switch (key) {
+          case 'author': info.authorName = value; break;
+          case 'author-mail': info.authorEmail = value.replace(/^<|>$/g, ''); break;
+          case 'author-time': info.authorTime = Number(value) || 0; break;
+          case 'summary': info.summary = value; break;
+          case 'filename': info.filename = value; break;
+          case 'previous': {
+            const sep = value.indexOf(' ');
+            if (sep > 0) info.previous = { sha: value.substring(0, sep), filename: value.substring(sep + 1) };
+            break;
+          }
+        }
+      }
+      i++; // content line
+      commits.set(sha, info);
+      result.push({ ...info, line: finalLine, origLine });
+    }
+
+    return result;
+  }
+}
@@ -9,6 +9,19 @@ export class GitContentProvider implements vscode.TextDocumentContentProvider {
     private readonly _outputChannel: vscode.OutputChannel
   ) {}
 
+  /**
+   * Read-only document for `path` as of `rev` (`EMPTY` for no content) in the repository at `root`.
+   */
+  public static createUri(rev: string, path: string, root?: string) {
+    const query = `rev=${encodeURIComponent(rev)}${root ? `&repo=${encodeURIComponent(root)}` : ''}&t=${Date.now()}`;
+    return vscode.Uri.from({
+      scheme: GitContentProvider.scheme,
+      authority: 'commit',
+      path: '/' + path,
+      query
+    });
+  }
+
   async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
     this._outputChannel.appendLine(`[ContentProvider] Providing content for: ${uri.toString()}`);
     
@@ -3,16 +3,19 @@ import { Commit, Ref } from '../protocol/types';
 export class GitLogParser {
   public static parseLog(stdout: string): Commit[] {
     const lines = stdout.split('\n').filter(line => line.trim().length > 0);
-    return lines.map(line => {
+    return lines.map((line): Commit | null => {
       const parts = line.split('\t');
       if (parts.length < 7) return null;
-      const [sha, parentsRaw, authorName, authorEmail, authorDateIso, subject, decorations] = parts;
+      const [sha, parentsRaw, authorName, authorEmail, authorDateIso, subject, decorations, committerName, committerEmail, committerDateIso] = parts;
       return {
         sha,
         parents: parentsRaw ? parentsRaw.split(' ') : [],
         authorName,
         authorEmail,
         authorDateIso,
+        committerName,
+        committerEmail,
+        committerDateIso,
         subject,
         decorations: decorations || ''
       };
@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GitRunner } from './GitRunner';
+import { OperationState, ConflictedFile } from '../protocol/types';
+
+// Porcelain XY codes for unmerged paths (see `git status --help`, "Short Format").
+const UNMERGED_CODES = new Set(['DD', 'AU', 'UD', 'UA', 'DU', 'AA', 'UU']);
+
+export class GitOperationState {
+  /**
+   * Detects a rebase / merge / cherry-pick / revert that stopped half-way, from the state files git leaves in `.git`.
+   * Returns null when no operation is in progress.
+   */
+  public static async detect(runner: GitRunner): Promise<OperationState | null> {
+    const gitPath = async (name: string) => {
+      const res = await runner.run(['rev-parse', '--git-path', name]);
+      return res.exitCode === 0 ? path.resolve(runner.cwd, res.stdout.trim()) : '';
+    };
+    const exists = (p: string) => !!p && fs.existsSync(p);
+    const readTrimmed = async (p: string) => {
+      try {
+        return (await fs.promises.readFile(p, 'utf8')).trim();
+      } catch {
+        return '';
+      }
+    };
+
+    let state: OperationState | null = null;
+
+    const rebaseMerge = await gitPath('rebase-merge');
+    const rebaseApply = await gitPath('rebase-apply');
+    const rebaseDir = exists(rebaseMerge) ? rebaseMerge : exists(rebaseApply) ? rebaseApply : '';
+    if (rebaseDir) {
+      // rebase-merge uses msgnum/end, rebase-apply uses next/last.
+      const current = Number(await readTrimmed(path.join(rebaseDir, 'msgnum')) || await readTrimmed(path.join(rebaseDir, 'next'))) || 0;
+      const total = Number(await readTrimmed(path.join(rebaseDir, 'end')) || await readTrimmed(path.join(rebaseDir, 'last'))) || 0;
+      const headName = (await readTrimmed(path.join(rebaseDir, 'head-name'))).replace(/^refs\/heads\//, '');
+      const onto = await readTrimmed(path.join(rebaseDir, 'onto'));
+      state = {
+        kind: 'rebase',
+        conflicts: [],
+        branch: headName && headName !== 'detached HEAD' ? headName : undefined,
+        target: onto || undefined,
+        step: current > 0 && total > 0 ? { current, total } : undefined
+      };
+    } else if (exists(await gitPath('MERGE_HEAD'))) {
+      state = { kind: 'merge', conflicts: [], target: (await readTrimmed(await gitPath('MERGE_HEAD'))).split('\n')[0] || undefined };
+    } else if (exists(await gitPath('CHERRY_PICK_HEAD'))) {
+      state = { kind: 'cherry-pick', conflicts: [], target: await readTrimmed(await gitPath('CHERRY_PICK_HEAD')) || undefined };
+    } else if (exists(await gitPath('REVERT_HEAD'))) {
+      state = { kind: 'revert', conflicts: [], target: await readTrimmed(await gitPath('REVERT_HEAD')) || undefined };
+    }
+
+    if (!state) return null;
+    state.conflicts = await GitOperationState.conflictedFiles(runner);
+    return state;
+  }
+
+  public static async conflictedFiles(runner: GitRunner): Promise<ConflictedFile[]> {
+    const res = await runner.run(['status', '--porcelain', '--untracked-files=no']);
+    if (res.exitCode !== 0) return [];
+    return res.stdout
+      .split('\n')
+      .filter(line => line.length > 3 && UNMERGED_CODES.has(line.substring(0, 2)))
+      .map(line => ({ path: GitOperationState._unquote(line.substring(3)), code: line.substring(0, 2) }));
+  }
+
+  private static _unquote(p: string) {
+    // Porcelain quotes paths with special characters; plain JSON-style unquoting covers the common cases.
+    if (p.startsWith('"') && p.endsWith('"')) {
+      try {
+        return JSON.parse(p);
+      } catch {
+        return p.slice(1, -1);
+      }
+    }
+    return p;
+  }
+}
@@ -0,0 +1,24 @@
+import { Remote } from '../protocol/types';
+
+export class GitRemoteParser {
+  /**
+   * Parses `git remote -v`: a `<name>\t<url> (fetch)` and a `<name>\t<url> (push)` line per remote.
+   * Remotes are returned in the order git lists them (alphabetical).
+   */
+  public static parse(stdout: string): Remote[] {
+    const byName = new Map<string, Remote>();
+
+    for (const line of stdout.split('\n')) {
+      const match = /^(\S+)\t(.*) \((fetch|push)\)$/.exec(line.trim());
+      if (!match) continue;
+      const [, name, url, kind] = match;
+      const remote = byName.get(name) ?? { name, fetchUrl: '', pushUrl: '' };
+      // A remote can have several push URLs; only the first is shown and edited.
+      if (kind === 'fetch') remote.fetchUrl = url;
+      else if (!remote.pushUrl) remote.pushUrl = url;
+      byName.set(name, remote);
+    }
+
+    return [...byName.values()];
+  }
+}
@@ -14,10 +14,10 @@ export class GitRunner {
 
   public get cwd() { return this._cwd; }
 
-  public async run(args: string[], timeout = 10000): Promise<GitResult> {
+  public async run(args: string[], timeout = 10000, env?: NodeJS.ProcessEnv): Promise<GitResult> {
     const fullArgs = ['--no-pager', ...args];
     return new Promise((resolve, reject) => {
-      const child = cp.spawn('git', fullArgs, { cwd: this._cwd });
+      const child = cp.spawn('git', fullArgs, { cwd: this._cwd, env: env ? { ...process.env, ...env } : undefined });
       const stdoutBuffers: Buffer[] = [];
       const stderrBuffers: Buffer[] = [];
 
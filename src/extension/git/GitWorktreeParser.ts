@@ -0,0 +1,40 @@
+import { Worktree } from '../protocol/types';
+
+export class GitWorktreeParser {
+  /**
+   * Parses `git worktree list --porcelain`: one block of `key value` lines per worktree, separated by blank lines.
+   * The first block is always the main worktree.
+   */
+  public static parse(stdout: string): Worktree[] {
+    const result: Worktree[] = [];
+
+    for (const block of stdout.split(/\n\s*\n/)) {
+      const lines = block.split('\n').filter(Boolean);
+      if (lines.length === 0 || !lines[0].startsWith('worktree ')) continue;
+
+      const worktree: Worktree = {
+        path: lines[0].substring('worktree '.length),
+        head: '',
+        main: result.length === 0,
+        bare: false,
+        detached: false
+      };
+      for (const line of lines.slice(1)) {
+        const space = line.indexOf(' ');
+        const key = space < 0 ? line : line.substring(0, space);
+        const value = space < 0 ? '' : line.substring(space + 1);
+        switch (key) {
+          case 'HEAD': worktree.head = value; break;
+          case 'branch': worktree.branch = value.replace(/^refs\/heads\//, ''); break;
+          case 'detached': worktree.detached = true; break;
+          case 'bare': worktree.bare = true; break;
+          case 'locked': worktree.locked = value || true; break;
+          case 'prunable': worktree.prunable = value || true; break;
+        }
+      }
+      result.push(worktree);
+    }
+
+    return result;
+  }
+}
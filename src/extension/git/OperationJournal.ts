@@ -0,0 +1,149 @@
+import { GitRunner } from './GitRunner';
+import { RefSnapshot, JournalEntry } from '../protocol/types';
+
+// Webview messages that can move HEAD or a local branch, with their journal labels. Only these are journaled.
+const OPERATION_LABELS: Record<string, string> = {
+  'git/commit': 'Commit',
+  'git/reword': 'Reword',
+  'git/squash': 'Squash',
+  'git/drop': 'Drop commits',
+  'git/moveCommits': 'Move commits',
+  'git/interactiveRebase': 'Interactive rebase',
+  'git/reset': 'Reset',
+  'git/revert': 'Revert',
+  'git/cherryPick': 'Cherry-pick',
+  'git/checkout': 'Checkout',
+  'git/rebase': 'Rebase',
+  'git/merge': 'Merge',
+  'git/pull': 'Pull',
+  'git/branchCreate': 'Create branch',
+  'git/branchRename': 'Rename branch',
+  'git/branchDelete': 'Delete branch',
+  'git/worktreeAdd': 'Add worktree',
+  'git/deleteGoneBranches': 'Delete gone branches',
+  'git/operationContinue': 'Continue',
+  'git/operationSkip': 'Skip',
+  'git/operationAbort': 'Abort',
+  'git/reflogRestore': 'Restore from reflog'
+};
+
+/** How to get from the current refs back to the state before an operation. */
+export interface RestorePlan {
+  /** Branch tips to move back; null deletes a branch the operation created. */
+  branches: Record<string, string | null>;
+  /** Set when the operation moved HEAD to another branch (or detached it). */
+  head?: { branch?: string; sha: string };
+  /** Branches the operation changed that have moved again since; restoring them discards those later changes. */
+  movedSince: string[];
+  /** Move the checked out branch with `reset --soft`, so undoing a commit puts its changes back in the index. */
+  soft?: boolean;
+}
+
+export class OperationJournal {
+  /** Maximum number of operations kept per repository. */
+  public static readonly LIMIT = 50;
+
+  /** Whether refs are snapshotted around a webview message, so what it changed can be undone. */
+  public static isJournaled(type: string): boolean {
+    return Object.prototype.hasOwnProperty.call(OPERATION_LABELS, type);
+  }
+
+  public static labelFor(type: string): string {
+    return OPERATION_LABELS[type] ?? type;
+  }
+
+  public static async snapshot(runner: GitRunner): Promise<RefSnapshot | null> {
+    const [headRes, symbolicRes, branchesRes] = await Promise.all([
+      runner.run(['rev-parse', '--verify', '--quiet', 'HEAD']),
+      runner.run(['symbolic-ref', '--quiet', '--short', 'HEAD']),
+      runner.run(['for-each-ref', 'refs/heads', '--format=%(refname:short)%09%(objectname)'])
+    ]);
+    // An unborn branch has nothing to go back to.
+    if (headRes.exitCode !== 0 || branchesRes.exitCode !== 0) return null;
+
+    const branches: Record<string, string> = {};
+    for (const line of branchesRes.stdout.split('\n')) {
+      const [name, sha] = line.split('\t');
+      if (name && sha) branches[name] = sha;
+    }
+    return {
+      headSha: headRes.stdout.trim(),
+      headBranch: symbolicRes.exitCode === 0 ? symbolicRes.stdout.trim() : undefined,
+      branches
+    };
+  }
+
+  /** True when an operation changed a branch tip, created or deleted a branch, or moved HEAD. */
+  public static changed(before: RefSnapshot, after: RefSnapshot): boolean {
+    if (before.headSha !== after.headSha || before.headBranch !== after.headBranch) return true;
+    const names = new Set([...Object.keys(before.branches), ...Object.keys(after.branches)]);
+    return [...names].some(name => before.branches[name] !== after.branches[name]);
+  }
+
+  /** Only the refs the operation itself touched are restored; unrelated branches are left alone. */
+  public static planUndo(entry: JournalEntry, current: RefSnapshot): RestorePlan {
+    const plan: RestorePlan = { branches: {}, movedSince: [], soft: entry.operation === 'git/commit' };
+    const names = new Set([...Object.keys(entry.before.branches), ...Object.keys(entry.after.branches)]);
+    for (const name of names) {
+      const before = entry.before.branches[name];
+      const after = entry.after.branches[name];
+      if (before === after) continue;
+      if (current.branches[name] !== after) plan.movedSince.push(name);
+      if (current.branches[name] !== before) plan.branches[name] = before ?? null;
+    }
+    if (entry.before.headBranch !== entry.after.headBranch || (!entry.before.headBranch && entry.before.headSha !== entry.after.headSha)) {
+      plan.head = { branch: entry.before.headBranch, sha: entry.before.headSha };
+    }
+    return plan;
+  }
+
+  /**
+   * Applies a restore plan. The checked out branch is moved with `reset --keep` (or `--soft`, see RestorePlan),
+   * which keeps uncommitted changes and refuses (rather than overwriting them) when they conflict.
+   * Other branches are moved with `update-ref`.
+   * Returns git's error output when a step fails.
+   */
+  public static async restore(runner: GitRunner, plan: RestorePlan): Promise<string | null> {
+    if (plan.head) {
+      const checkoutArgs = plan.head.branch
+        ? ['checkout', plan.head.branch]
+        : ['checkout', '--detach', plan.head.sha];
+      // A branch that was deleted by the operation has to exist again before it can be checked out.
+      if (plan.head.branch && plan.branches[plan.head.branch]) {
+        const recreate = await runner.run(['branch', plan.head.branch, plan.branches[plan.head.branch]!]);
+        if (recreate.exitCode !== 0) return recreate.stderr;
+        delete plan.branches[plan.head.branch];
+      }
+      const res = await runner.run(checkoutArgs);
+      if (res.exitCode !== 0) return res.stderr;
+    }
+
+    const [currentRes, worktreesRes] = await Promise.all([
+      runner.run(['symbolic-ref', '--quiet', '--short', 'HEAD']),
+      runner.run(['for-each-ref', 'refs/heads', '--format=%(refname:short)%09%(worktreepath)'])
+    ]);
+    const currentBranch = currentRes.exitCode === 0 ? currentRes.stdout.trim() : undefined;
+    const checkedOut = new Set(
+      worktreesRes.stdout.split('\n').filter(line => line.split('\t')[1]).map(line => line.split('\t')[0])
+    );
+
+    for (const [name, sha] of Object.entries(plan.branches)) {
+      if (name !== currentBranch && checkedOut.has(name)) {
+        return `Branch "${name}" is checked out in another worktree.`;
+      }
+      if (name === currentBranch && !sha) {
+        return `Branch "${name}" is checked out; switch to another branch first.`;
+      }
+      let res;
+      if (name === currentBranch && sha) {
+        res = await runner.run(['reset', plan.soft ? '--soft' : '--keep', sha]);
+      } else if (sha) {
+        res = await runner.run(['update-ref', '-m', 'gitbit: undo', `refs/heads/${name}`, sha]);
+      } else {
+        res = await runner.run(['update-ref', '-d', `refs/heads/${name}`]);
+      }
+      if (res.exitCode !== 0) return res.stderr;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,116 @@
+import * as crypto from 'crypto';
+import { DiffHunk, DiffLine } from '../protocol/types';
+
+export interface ParsedFileDiff {
+  /** Everything before the first hunk (`diff --git`, `index`, `---`, `+++`, mode lines). */
+  header: string[];
+  binary: boolean;
+  hunks: DiffHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/;
+
+export class PatchBuilder {
+  /**
+   * Parses the output of `git diff` for a single file.
+   */
+  public static parse(diffText: string): ParsedFileDiff {
+    const header: string[] = [];
+    const hunks: DiffHunk[] = [];
+    let binary = false;
+    let current: DiffHunk | null = null;
+
+    for (const raw of diffText.split('\n')) {
+      const match = HUNK_HEADER.exec(raw);
+      if (match) {
+        current = {
+          header: raw,
+          oldStart: Number(match[1]),
+          oldCount: match[2] === undefined ? 1 : Number(match[2]),
+          newStart: Number(match[3]),
+          newCount: match[4] === undefined ? 1 : Number(match[4]),
+          lines: []
+        };
+        hunks.push(current);
+        continue;
+      }
+      if (!current) {
+        if (raw.startsWith('Binary files ') || raw === 'GIT binary patch') binary = true;
+        if (raw.length > 0) header.push(raw);
+        continue;
+      }
+      const type = raw.charAt(0);
+      if (type === ' ' || type === '+' || type === '-') {
+        current.lines.push({ type, text: raw.substring(1) });
+      } else if (type === '\\') {
+        const last = current.lines[current.lines.length - 1];
+        if (last) last.noNewline = true;
+      }
+    }
+
+    return { header, binary, hunks };
+  }
+
+  /**
+   * Builds a patch that applies only the selected lines (ids are `<hunkIndex>:<lineIndex>`) on top of the
+   * diff's old side. Unselected additions are left out and unselected removals are kept as context, so the
+   * result applies cleanly with `git apply --cached` against an index that matches the old side.
+   *
+   * Returns null when nothing is selected.
+   */
+  public static build(diff: ParsedFileDiff, lineIds: Iterable<string>): string | null {
+    const selected = new Set(lineIds);
+    const out: string[] = [];
+    // Line offset introduced by the hunks emitted so far; later hunks start that much further down.
+    let delta = 0;
+
+    diff.hunks.forEach((hunk, hunkIndex) => {
+      const lines: DiffLine[] = [];
+      let changed = false;
+      hunk.lines.forEach((line, lineIndex) => {
+        const isSelected = selected.has(`${hunkIndex}:${lineIndex}`);
+        if (line.type === ' ') {
+          lines.push(line);
+        } else if (line.type === '-') {
+          lines.push(isSelected ? line : { ...line, type: ' ' });
+          changed = changed || isSelected;
+        } else if (isSelected) {
+          lines.push(line);
+          changed = true;
+        }
+      });
+      if (!changed) return;
+
+      // "No newline at end of file" can only mark the last line of a side. A removal kept as context in front of
+      // selected additions gains a newline on the new side, so it becomes a removal plus an addition instead.
+      let lastNew = -1;
+      lines.forEach((line, i) => {
+        if (line.type !== '-') lastNew = i;
+      });
+      for (let i = lastNew - 1; i >= 0; i--) {
+        const line = lines[i];
+        if (line.type === ' ' && line.noNewline) lines.splice(i, 1, { ...line, type: '-' }, { type: '+', text: line.text });
+      }
+
+      const oldCount = lines.filter(l => l.type !== '+').length;
+      const newCount = lines.filter(l => l.type !== '-').length;
+      const newStart = newCount === 0 ? hunk.oldStart + delta - 1 : hunk.oldStart + delta + (oldCount === 0 ? 1 : 0);
+      out.push(`@@ -${hunk.oldStart},${oldCount} +${Math.max(newStart, 0)},${newCount} @@`);
+      for (const line of lines) {
+        out.push(`${line.type}${line.text}`);
+        if (line.noNewline) out.push('\\ No newline at end of file');
+      }
+      delta += newCount - oldCount;
+    });
+
+    if (out.length === 0) return null;
+    return [...diff.header, ...out].join('\n') + '\n';
+  }
+
+  /**
+   * Identifies a diff so a line selection made on it can be checked against the working tree before committing.
+   */
+  public static fingerprint(diffText: string): string {
+    return crypto.createHash('sha1').update(diffText).digest('hex');
+  }
+}
@@ -0,0 +1,50 @@
+import { RebaseTodoEntry } from '../protocol/types';
+
+export class RebaseTodo {
+  /**
+   * Returns a user-facing reason why the todo can't be executed, or null if it's fine.
+   */
+  public static validate(entries: RebaseTodoEntry[]): string | null {
+    const kept = entries.filter(e => e.action !== 'drop');
+    if (kept.length === 0) {
+      return 'The rebase would drop every commit. Use Drop instead.';
+    }
+    if (kept[0].action === 'squash' || kept[0].action === 'fixup') {
+      return `Cannot ${kept[0].action} "${kept[0].subject}": there is no earlier commit to combine it with.`;
+    }
+    const missingMessage = entries.find(e => e.action === 'reword' && !e.message?.trim());
+    if (missingMessage) {
+      return `Enter a new message for "${missingMessage.subject}".`;
+    }
+    return null;
+  }
+
+  /**
+   * Renders the todo list git will execute.
+   *
+   * `reword` is written as a `pick` followed by an `exec git commit --amend -F <file>`, so no editor is needed.
+   * `messageFiles` maps a sha to the file holding its new message; entries without one are shown with a
+   * placeholder (used for the preview in the webview).
+   */
+  public static format(entries: RebaseTodoEntry[], messageFiles?: Map<string, string>): string {
+    const lines: string[] = [];
+    for (const entry of entries) {
+      const short = entry.sha.substring(0, 8);
+      if (entry.action === 'reword') {
+        lines.push(`pick ${short} ${entry.subject}`);
+        const file = messageFiles?.get(entry.sha);
+        lines.push(file
+          ? `exec git commit --amend --allow-empty --no-verify -F ${RebaseTodo._quote(file)}`
+          : `# reword: ${(entry.message || '').split('\n')[0]}`);
+        continue;
+      }
+      lines.push(`${entry.action} ${short} ${entry.subject}`);
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private static _quote(value: string) {
+    // The todo's exec lines run through `sh -c`; single quotes keep spaces and backslashes (Windows paths) intact.
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+  }
+}
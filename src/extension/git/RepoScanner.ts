@@ -0,0 +1,109 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface RepoScanOptions {
+  /** How many directory levels below the scanned folder to look at (0 = only the folder itself). */
+  depth: number;
+  /** If non-empty, only repos whose folder-relative path matches one of these globs are reported. */
+  include: string[];
+  /** Directories matching any of these globs are neither reported nor descended into. */
+  exclude: string[];
+}
+
+export class RepoScanner {
+  /**
+   * Walks `folder` breadth-first up to `options.depth` levels and calls `onFound` with the folder-relative
+   * path (posix separators) of every directory that has a `.git` entry. Scanning continues inside repos so
+   * nested repos are found too. Returns early once `isCancelled` returns true.
+   */
+  public static async scan(
+    folder: string,
+    options: RepoScanOptions,
+    onFound: (dir: string, relativePath: string) => Promise<void> | void,
+    isCancelled: () => boolean
+  ): Promise<void> {
+    const include = options.include.map(RepoScanner.globToRegExp);
+    const exclude = options.exclude.map(RepoScanner.globToRegExp);
+    const visited = new Set<string>();
+    let level: Array<{ dir: string; rel: string }> = [{ dir: folder, rel: '' }];
+
+    for (let depth = 0; depth <= options.depth && level.length > 0; depth++) {
+      const next: Array<{ dir: string; rel: string }> = [];
+      for (const { dir, rel } of level) {
+        if (isCancelled()) return;
+
+        // Symlinked directories can point back up the tree; only visit each real directory once.
+        let real = dir;
+        try {
+          real = await fs.promises.realpath(dir);
+        } catch {
+          continue;
+        }
+        if (visited.has(real)) continue;
+        visited.add(real);
+
+        // `.git` can be a directory (normal repo) or a file (worktrees/submodules) — both count as repo markers.
+        if (rel && fs.existsSync(path.join(dir, '.git')) && (include.length === 0 || include.some(re => re.test(rel)))) {
+          await onFound(dir, rel);
+        }
+        if (depth === options.depth) continue;
+
+        let entries: fs.Dirent[] = [];
+        try {
+          entries = await fs.promises.readdir(dir, { withFileTypes: true });
+        } catch {
+          continue;
+        }
+        for (const ent of entries) {
+          if (ent.name === '.git') continue;
+          const childRel = rel ? `${rel}/${ent.name}` : ent.name;
+          if (exclude.some(re => re.test(childRel))) continue;
+          const child = path.join(dir, ent.name);
+          // On macOS, Desktop entries may be symlinks (e.g. iCloud Drive) — treat symlinked directories as candidates.
+          if (!ent.isDirectory()) {
+            if (!ent.isSymbolicLink()) continue;
+            try {
+              if (!(await fs.promises.stat(child)).isDirectory()) continue;
+            } catch {
+              continue;
+            }
+          }
+          next.push({ dir: child, rel: childRel });
+        }
+      }
+      level = next;
+    }
+  }
+
+  /**
+   * Converts a glob to a regular expression over folder-relative posix paths.
+   * Supports `*` (within one path segment), `**` (any number of segments) and `?`.
+   * Like .gitignore, a pattern without a slash matches a folder name at any depth.
+   */
+  public static globToRegExp(glob: string): RegExp {
+    let pattern = glob.trim().replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+    if (!pattern.includes('/')) pattern = `**/${pattern}`;
+
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+      const ch = pattern[i];
+      if (ch === '*' && pattern[i + 1] === '*') {
+        // "**/" matches zero or more whole segments; a trailing "**" matches everything below.
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else if (ch === '*') {
+        source += '[^/]*';
+      } else if (ch === '?') {
+        source += '[^/]';
+      } else {
+        source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    }
+    return new RegExp(`^${source}$`);
+  }
+}
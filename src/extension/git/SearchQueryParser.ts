@@ -0,0 +1,94 @@
+import { CommitSearchFilters } from '../protocol/types';
+
+export class SearchQueryParser {
+  /**
+   * Parses the search box syntax into filters.
+   *
+   * Supported keys: `author:`, `path:`, `since:`, `until:`, `message:` and `content:` (pickaxe).
+   * Values may be quoted (`author:"Jane Doe"`). Anything else is free text matched against the message.
+   * Relative dates use a number plus unit, e.g. `since:2w` (h, d, w, m, y).
+   */
+  public static parse(query: string): CommitSearchFilters {
+    const filters: CommitSearchFilters = { text: [], authors: [], paths: [] };
+    const tokenRe = /(\w+):"([^"]*)"|(\w+):(\S+)|"([^"]*)"|(\S+)/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = tokenRe.exec(query)) !== null) {
+      const key = (match[1] || match[3] || '').toLowerCase();
+      const value = match[2] ?? match[4] ?? '';
+      const free = match[5] ?? match[6];
+
+      if (free !== undefined) {
+        if (free.trim()) filters.text.push(free);
+        continue;
+      }
+      if (!value) continue;
+
+      switch (key) {
+        case 'author':
+          filters.authors.push(value);
+          break;
+        case 'path':
+          filters.paths.push(value);
+          break;
+        case 'since':
+        case 'after':
+          filters.since = this.parseDate(value);
+          break;
+        case 'until':
+        case 'before':
+          filters.until = this.parseDate(value);
+          break;
+        case 'message':
+        case 'msg':
+          filters.text.push(value);
+          break;
+        case 'content':
+          filters.content = value;
+          break;
+        default:
+          // Not one of ours (e.g. a URL or "fix:" prefix) — treat the whole token as text.
+          filters.text.push(match[0]);
+      }
+    }
+
+    return filters;
+  }
+
+  /** Builds the `git log` arguments (before the revision / pathspec) for the given filters. */
+  public static toLogArgs(filters: CommitSearchFilters): string[] {
+    const args: string[] = [];
+    for (const text of filters.text) args.push(`--grep=${text}`);
+    for (const author of filters.authors) args.push(`--author=${author}`);
+    if (filters.text.length > 0 || filters.authors.length > 0) {
+      // Match literally and case-insensitively; with several words, all of them must be present.
+      args.push('--regexp-ignore-case', '--fixed-strings');
+      if (filters.text.length > 1) args.push('--all-match');
+    }
+    if (filters.since) args.push(`--since=${filters.since}`);
+    if (filters.until) args.push(`--until=${filters.until}`);
+    if (filters.content) args.push(`-S${filters.content}`);
+    return args;
+  }
+
+  /** A lone hex word that may be a commit hash rather than message text, lowercased; empty when there is none. */
+  public static hashPrefix(filters: CommitSearchFilters): string {
+    return filters.text.length === 1 && /^[0-9a-f]{4,40}$/i.test(filters.text[0]) ? filters.text[0].toLowerCase() : '';
+  }
+
+  public static isEmpty(filters: CommitSearchFilters) {
+    return filters.text.length === 0 &&
+      filters.authors.length === 0 &&
+      filters.paths.length === 0 &&
+      !filters.since &&
+      !filters.until &&
+      !filters.content;
+  }
+
+  private static parseDate(value: string) {
+    const rel = value.match(/^(\d+)([hdwmy])$/i);
+    if (!rel) return value;
+    const units: Record<string, string> = { h: 'hours', d: 'days', w: 'weeks', m: 'months', y: 'years' };
+    return `${rel[1]} ${units[rel[2].toLowerCase()]} ago`;
+  }
+}
@@ -4,26 +4,319 @@ export interface Commit {
   authorName: string;
   authorEmail: string;
   authorDateIso: string;
+  /** Who created this version of the commit; differs from the author after rebases, amends and cherry-picks. */
+  committerName?: string;
+  committerEmail?: string;
+  committerDateIso?: string;
   subject: string;
   decorations: string;
   refs?: Ref[];
+  /** Set on rows of the reflog view (`commits/reflog`): the HEAD movement this row stands for. */
+  reflog?: ReflogEntry;
+}
+
+/** A `Key: value` trailer at the end of a commit message, such as `Co-authored-by: Name <email>`. */
+export interface CommitTrailer {
+  key: string;
+  value: string;
+}
+
+/**
+ * Result of verifying a commit signature, as reported by `%G?`:
+ * G good, B bad, U good but of unknown validity, X good but expired, Y good but made by an expired key,
+ * R good but made by a revoked key, E can't be checked (e.g. missing key), N not signed.
+ */
+export type SignatureStatus = 'G' | 'B' | 'U' | 'X' | 'Y' | 'R' | 'E' | 'N';
+
+export interface CommitSignature {
+  status: SignatureStatus;
+  /** Signer name from the signature (`%GS`), when it could be checked. */
+  signer?: string;
+  /** Key used to sign (`%GK`). */
+  key?: string;
+}
+
+/**
+ * One page of `commits/list` results.
+ * Pages are addressed by `skip` (number of commits already loaded) plus `afterSha` (the last loaded commit),
+ * so the host can detect when history was rewritten between page requests.
+ */
+export interface CommitPage {
+  commits: Commit[];
+  hasMore: boolean;
+  /**
+   * True when `afterSha` no longer sits at position `skip - 1` (e.g. after a rebase or fetch).
+   * The webview should discard its loaded pages and start over from the top.
+   */
+  cursorMismatch?: boolean;
+  /**
+   * `commits/search` only: a commit whose hash starts with the query and that isn't among the matches.
+   * It is not part of `commits`, so it doesn't count towards `skip` when paging.
+   */
+  hashMatch?: Commit;
+}
+
+/**
+ * One page of `commits/fileHistory`: commits that touched a file, following renames.
+ * `changes` maps each commit to how it changed the file, under the name the file had in that commit.
+ */
+export interface FileHistoryPage extends CommitPage {
+  changes: Record<string, Change>;
+}
+
+/**
+ * Structured form of a search box query such as `fix login author:alice path:src/ since:2w`.
+ * See SearchQueryParser for the accepted syntax.
+ */
+export interface CommitSearchFilters {
+  /** Free-text words; every word must appear in the commit message (subject or body). */
+  text: string[];
+  authors: string[];
+  paths: string[];
+  /** Passed to `git log --since` / `--until` (e.g. "2 weeks ago", "2024-01-31"). */
+  since?: string;
+  until?: string;
+  /** Pickaxe search (`git log -S`): commits that add or remove this string. */
+  content?: string;
+}
+
+export type RebaseAction = 'pick' | 'reword' | 'edit' | 'squash' | 'fixup' | 'drop';
+
+export interface RebaseTodoEntry {
+  sha: string;
+  subject: string;
+  action: RebaseAction;
+  /** New commit message, required for `reword`. */
+  message?: string;
+}
+
+/**
+ * Commits that an interactive rebase would rewrite, as returned by `rebase/plan`.
+ * Entries are oldest-first, the same order as a git rebase todo list.
+ */
+export interface RebasePlan {
+  branch: string;
+  baseSha: string;
+  entries: RebaseTodoEntry[];
 }
 
 export interface Ref {
   name: string;
-  type: 'head' | 'remote' | 'tag' | 'other';
+  type: 'head' | 'remote' | 'tag' | 'stash' | 'other';
+}
+
+export interface Stash {
+  /** Position in `git stash list` (the N in stash@{N}). */
+  index: number;
+  ref: string;
+  sha: string;
+  /** Commit the stash was created on (first parent of the stash commit). */
+  baseSha: string;
+  /** True when the stash also holds untracked files (`git stash -u`). */
+  hasUntracked: boolean;
+  authorName: string;
+  authorEmail: string;
+  authorDateIso: string;
+  message: string;
 }
 
 export interface Branch {
   name: string;
   remote: boolean;
   current: boolean;
+  /** Path of another worktree that has this branch checked out; it can't be checked out here while that lasts. */
+  worktree?: string;
+  /** Short name of the upstream branch (e.g. "origin/main"); local branches only. */
+  upstream?: string;
+  /** True when the upstream branch no longer exists (deleted on the remote and pruned by a fetch). */
+  upstreamGone?: boolean;
+  /** Commits not yet pushed to the upstream. */
+  ahead?: number;
+  /** Commits on the upstream not yet pulled. */
+  behind?: number;
+  /** Unix timestamp in seconds of the branch's latest commit. */
+  lastCommitUnix?: number;
+}
+
+/** Where HEAD and every local branch pointed at a moment in time. */
+export interface RefSnapshot {
+  headSha: string;
+  /** Checked out branch; unset when HEAD is detached. */
+  headBranch?: string;
+  /** Local branch name to tip sha. */
+  branches: Record<string, string>;
+}
+
+/** A GitBit operation that moved HEAD or branches, with the refs before and after so it can be undone. */
+export interface JournalEntry {
+  id: number;
+  /** Webview message that triggered it, e.g. "git/squash". */
+  operation: string;
+  label: string;
+  /** Unix timestamp in milliseconds. */
+  timestamp: number;
+  before: RefSnapshot;
+  after: RefSnapshot;
+}
+
+/** One `git reflog` entry of HEAD. */
+export interface ReflogEntry {
+  /** Position in the reflog (the N in HEAD@{N}). */
+  index: number;
+  sha: string;
+  /** What moved HEAD, e.g. "commit: Fix login", "rebase (finish): returning to refs/heads/main". */
+  action: string;
+  /** Unix timestamp in seconds of the move. */
+  timestamp: number;
+}
+
+/** A configured remote, from `git remote -v`. */
+export interface Remote {
+  name: string;
+  fetchUrl: string;
+  /** Same as `fetchUrl` unless a separate push URL is configured. */
+  pushUrl: string;
+}
+
+/** One entry of `git worktree list`. */
+export interface Worktree {
+  path: string;
+  /** Checked out commit; empty for a bare repository. */
+  head: string;
+  /** Short branch name; missing when detached. */
+  branch?: string;
+  /** The repository's original working tree, which can't be removed. */
+  main: boolean;
+  bare: boolean;
+  detached: boolean;
+  /** `true` or the lock reason. Locked worktrees are skipped by prune and need a forced remove. */
+  locked?: string | true;
+  /** `true` or git's explanation (usually that the directory is gone); `worktree prune` would clean it up. */
+  prunable?: string | true;
+  /** True for the worktree the graph is showing. */
+  current?: boolean;
 }
 
 export interface Change {
   path: string;
   status: 'A' | 'M' | 'D' | 'R' | 'C' | 'T' | 'U' | '?';
   oldPath?: string;
+  /**
+   * Set when the path is a submodule: the submodule commits recorded before and after the change.
+   * A missing sha means the submodule didn't exist on that side, or (for uncommitted changes) "whatever is checked out".
+   */
+  submodule?: { oldSha?: string; newSha?: string };
+}
+
+/** Result of `submodule/summary`: how a submodule pointer moved between two commits. */
+export interface SubmoduleSummary {
+  /** False when the submodule isn't cloned into the working tree, so its history can't be read. */
+  initialized: boolean;
+  oldSha?: string;
+  newSha?: string;
+  /** Commits the new pointer has that the old one didn't, newest first. */
+  added: Commit[];
+  /** Commits only the old pointer had (the submodule was moved back or to another branch). */
+  removed: Commit[];
+  hasMore: boolean;
+  /** True when one of the commits isn't in the local submodule clone (fetch it to see the summary). */
+  missingCommits?: boolean;
+}
+
+/**
+ * - two-dot: diff `left` against `right` directly.
+ * - three-dot: diff the merge base against `right`, i.e. only what changed on the right side since the two diverged.
+ */
+export type CompareMode = 'two-dot' | 'three-dot';
+
+/** Result of `compare/refs`. */
+export interface RefComparison {
+  left: { ref: string; sha: string };
+  right: { ref: string; sha: string };
+  mode: CompareMode;
+  /** Missing when the two sides share no history. */
+  mergeBase?: string;
+  /** Revision the file diffs start from (`left` or the merge base). */
+  diffBase: string;
+  changes: Change[];
+  /** Commits reachable from one side but not the other, newest first. */
+  leftOnly: Commit[];
+  rightOnly: Commit[];
+  leftOnlyHasMore: boolean;
+  rightOnlyHasMore: boolean;
+}
+
+export interface DiffLine {
+  type: ' ' | '+' | '-';
+  text: string;
+  /** Set when git printed "\ No newline at end of file" after this line. */
+  noNewline?: boolean;
+}
+
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+  lines: DiffLine[];
+}
+
+/**
+ * Working tree changes of one file against HEAD, split into hunks for line-level staging (`file/hunks`).
+ * Lines are addressed as `<hunkIndex>:<lineIndex>`; `fingerprint` identifies the diff the ids refer to.
+ */
+export interface FileHunks {
+  path: string;
+  fingerprint: string;
+  binary: boolean;
+  hunks: DiffHunk[];
+}
+
+/** Lines of a file to commit instead of the whole file (see `git/commit`). */
+export interface PartialFileSelection {
+  path: string;
+  fingerprint: string;
+  lineIds: string[];
+}
+
+export type OperationKind = 'rebase' | 'merge' | 'cherry-pick' | 'revert';
+
+export interface ConflictedFile {
+  path: string;
+  /** Porcelain XY code, e.g. "UU" (both modified), "AA" (both added), "DU" (deleted by us). */
+  code: string;
+}
+
+/**
+ * A history operation that stopped half-way (usually on conflicts) and is waiting for Continue / Skip / Abort.
+ */
+export interface OperationState {
+  kind: OperationKind;
+  conflicts: ConflictedFile[];
+  /** Branch being rebased (rebase only). */
+  branch?: string;
+  /** Commit being applied or merged (or the rebase "onto" commit). */
+  target?: string;
+  /** Progress through the rebase todo list. */
+  step?: { current: number; total: number };
+}
+
+/** A `git bisect` in progress (see GitBisect). */
+export interface BisectState {
+  /** The commit checked out for testing. */
+  current: string;
+  bad?: string;
+  good: string[];
+  skipped: string[];
+  /** Commits that may still be the first bad one (the bad commit included); empty until both ends are marked. */
+  candidates: string[];
+  /** True when the range is larger than the candidates sent. */
+  candidatesHasMore?: boolean;
+  /** Rough number of test steps left. */
+  stepsLeft?: number;
+  /** Set once the search has narrowed down to a single commit. */
+  firstBad?: string;
 }
 
 export interface RepoInfo {
@@ -45,6 +338,34 @@ export interface RepoInfo {
   currentBranch?: string;
 }
 
+/** Result of `repos/list`. */
+export interface RepoList {
+  repos: RepoInfo[];
+  /** True while nested repos are still being discovered; more arrive with `event/reposChanged`. */
+  scanning: boolean;
+}
+
+/** One row of the multi-repo overview (`repos/overview`). */
+export interface RepoOverview extends RepoInfo {
+  /** Upstream of the current branch (e.g. "origin/main"); unset when detached or not tracking anything. */
+  upstream?: string;
+  /** Commits on the current branch that aren't on its upstream. */
+  ahead?: number;
+  /** Commits on the upstream that aren't on the current branch. */
+  behind?: number;
+  stashCount: number;
+  /** Unix timestamp in seconds of the last fetch (mtime of FETCH_HEAD); unset if the repo was never fetched. */
+  lastFetchUnix?: number;
+}
+
+/** Outcome of a bulk action (`repos/fetchAll`, `repos/pullAll`) for one repo. */
+export interface RepoBulkResult {
+  root: string;
+  status: 'ok' | 'skipped' | 'failed';
+  /** Why the repo was skipped, or git's error output when it failed. */
+  message?: string;
+}
+
 export type SelectionMode = 'single' | 'range';
 
 export interface SelectionState {
@@ -73,7 +394,7 @@ export interface ResponseMessage {
 }
 
 export interface EventMessage {
-  type: 'event/repoChanged';
+  type: 'event/repoChanged' | 'event/reposChanged' | 'event/journalChanged' | 'event/showFileHistory' | 'event/revealCommit';
   payload?: any;
 }
 
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { GitBlameParser, UNCOMMITTED_BLAME_SHA } from '../extension/git/GitBlameParser';
+
+const A = 'a'.repeat(40);
+const B = 'b'.repeat(40);
+const P = 'f'.repeat(40);
+
+// `git blame --porcelain` prints a commit's details only the first time it shows up.
+const PORCELAIN = [
+  `${A} 1 1 2`,
+  'author Ada',
+  'author-mail <ada@example.com>',
+  'author-time 1700000000',
+  'author-tz +0100',
+  'committer Ada',
+  'committer-mail <ada@example.com>',
+  'committer-time 1700000000',
+  'committer-tz +0100',
+  'summary Rename util to helpers',
+  `previous ${P} src/old name.ts`,
+  'filename src/helpers.ts',
+  '\tconst a = 1;',
+  `${A} 2 2`,
+  'filename src/helpers.ts',
+  `\t${B} looks like a header but is content`,
+  `${B} 1 3 1`,
+  'author Bob',
+  'author-mail <bob@example.com>',
+  'author-time 1600000000',
+  'summary Initial commit',
+  'boundary',
+  'filename src/helpers.ts',
+  '\tconst c = 3;',
+  `${A} 5 4 1`,
+  'filename src/helpers.ts',
+  '\tconst d = 4;',
+  `${UNCOMMITTED_BLAME_SHA} 5 5 1`,
+  'author Not Committed Yet',
+  'author-mail <not.committed.yet>',
+  'author-time 1800000000',
+  'summary Version of src/helpers.ts from src/helpers.ts',
+  `previous ${A} src/helpers.ts`,
+  'filename src/helpers.ts',
+  '\tconst e = 5;',
+  ''
+].join('\n');
+
+test('parse() copies commit details onto repeated shas', () => {
+  const lines = GitBlameParser.parse(PORCELAIN);
+  assert.deepStrictEqual(lines.map(l => [l.line, l.origLine, l.sha]), [[1, 1, A], [2, 2, A], [3, 1, B], [4, 5, A], [5, 5, UNCOMMITTED_BLAME_SHA]]);
+  for (const line of [lines[1], lines[3]]) {
+    assert.strictEqual(line.authorName, 'Ada');
+    assert.strictEqual(line.authorEmail, 'ada@example.com');
+    assert.strictEqual(line.authorTime, 1700000000);
+    assert.strictEqual(line.summary, 'Rename util to helpers');
+    assert.strictEqual(line.filename, 'src/helpers.ts');
+  }
+});
+
+test('parse() reads previous with a path containing spaces and leaves it unset for boundary commits', () => {
+  const lines = GitBlameParser.parse(PORCELAIN);
+  assert.deepStrictEqual(lines[0].previous, { sha: P, filename: 'src/old name.ts' });
+  assert.deepStrictEqual(lines[3].previous, { sha: P, filename: 'src/old name.ts' });
+  assert.strictEqual(lines[2].previous, undefined);
+  assert.strictEqual(lines[2].authorName, 'Bob');
+  assert.deepStrictEqual(lines[4].previous, { sha: A, filename: 'src/helpers.ts' });
+});
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { GitLogParser } from '../extension/git/GitLogParser';
+
+const A = 'a'.repeat(40);
+const B = 'b'.repeat(40);
+const C = 'c'.repeat(40);
+
+test('parseLog() reads author and committer fields', () => {
+  const stdout = [
+    `${A}\t${B} ${C}\tAda\tada@example.com\t2024-01-02T03:04:05+01:00\tMerge topic\tHEAD -> main, origin/main\tBob\tbob@example.com\t2024-01-03T00:00:00Z`,
+    `${B}\t\tAda\tada@example.com\t2024-01-01T00:00:00Z\tInitial\t\tAda\tada@example.com\t2024-01-01T00:00:00Z`,
+    ''
+  ].join('\n');
+  assert.deepStrictEqual(GitLogParser.parseLog(stdout), [
+    {
+      sha: A, parents: [B, C],
+      authorName: 'Ada', authorEmail: 'ada@example.com', authorDateIso: '2024-01-02T03:04:05+01:00',
+      committerName: 'Bob', committerEmail: 'bob@example.com', committerDateIso: '2024-01-03T00:00:00Z',
+      subject: 'Merge topic', decorations: 'HEAD -> main, origin/main'
+    },
+    {
+      sha: B, parents: [],
+      authorName: 'Ada', authorEmail: 'ada@example.com', authorDateIso: '2024-01-01T00:00:00Z',
+      committerName: 'Ada', committerEmail: 'ada@example.com', committerDateIso: '2024-01-01T00:00:00Z',
+      subject: 'Initial', decorations: ''
+    }
+  ]);
+});
+
+test('parseLog() leaves committer fields unset for lines without them and skips short lines', () => {
+  const [commit, ...rest] = GitLogParser.parseLog(`${A}\t\tAda\tada@example.com\t2024-01-01T00:00:00Z\tOld format\t\n${B}\tbroken`);
+  assert.strictEqual(rest.length, 0);
+  assert.strictEqual(commit.subject, 'Old format');
+  assert.strictEqual(commit.committerName, undefined);
+  assert.strictEqual(commit.committerDateIso, undefined);
+});
+
+test('parseDecorations() types HEAD, tags, remotes and local branches', () => {
+  assert.deepStrictEqual(GitLogParser.parseDecorations('HEAD -> main, origin/main, tag: v1.0, topic'), [
+    { name: 'main', type: 'head' },
+    { name: 'origin/main', type: 'remote' },
+    { name: 'v1.0', type: 'tag' },
+    { name: 'topic', type: 'other' }
+  ]);
+});
@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { GitRemoteParser } from '../extension/git/GitRemoteParser';
+
+test('parse() keeps the first of several push URLs', () => {
+  const stdout = [
+    'mirror\t/srv/my repos/mirror.git (fetch)',
+    'mirror\t/srv/my repos/mirror.git (push)',
+    'origin\thttps://github.com/me/app.git (fetch)',
+    'origin\tgit@github.com:me/app.git (push)',
+    'origin\tgit@gitlab.com:me/app.git (push)',
+    ''
+  ].join('\n');
+  assert.deepStrictEqual(GitRemoteParser.parse(stdout), [
+    { name: 'mirror', fetchUrl: '/srv/my repos/mirror.git', pushUrl: '/srv/my repos/mirror.git' },
+    { name: 'origin', fetchUrl: 'https://github.com/me/app.git', pushUrl: 'git@github.com:me/app.git' }
+  ]);
+});
+
+test('parse() skips lines that are not remote entries', () => {
+  assert.deepStrictEqual(GitRemoteParser.parse('warning: something\r\nupstream\tgit@host:x.git (fetch)\r\n'), [
+    { name: 'upstream', fetchUrl: 'git@host:x.git', pushUrl: '' }
+  ]);
+});
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { GitWorktreeParser } from '../extension/git/GitWorktreeParser';
+
+const A = 'a'.repeat(40);
+const B = 'b'.repeat(40);
+const C = 'c'.repeat(40);
+
+test('parse() reads the main worktree and detached, locked and prunable ones', () => {
+  const stdout = [
+    'worktree /repo',
+    `HEAD ${A}`,
+    'branch refs/heads/main',
+    '',
+    'worktree /repo-wt/review',
+    `HEAD ${B}`,
+    'detached',
+    'locked on a usb drive',
+    '',
+    'worktree /repo-wt/feature/x',
+    `HEAD ${C}`,
+    'branch refs/heads/feature/x',
+    'locked',
+    'prunable gitdir file points to non-existent location',
+    '',
+    'worktree /repo-wt/gone',
+    `HEAD ${C}`,
+    'detached',
+    'prunable',
+    ''
+  ].join('\n');
+
+  assert.deepStrictEqual(GitWorktreeParser.parse(stdout), [
+    { path: '/repo', head: A, branch: 'main', main: true, bare: false, detached: false },
+    { path: '/repo-wt/review', head: B, main: false, bare: false, detached: true, locked: 'on a usb drive' },
+    {
+      path: '/repo-wt/feature/x', head: C, branch: 'feature/x', main: false, bare: false, detached: false,
+      locked: true, prunable: 'gitdir file points to non-existent location'
+    },
+    { path: '/repo-wt/gone', head: C, main: false, bare: false, detached: true, prunable: true }
+  ]);
+});
+
+test('parse() handles a bare main repository and paths with spaces', () => {
+  const stdout = `worktree /srv/repo.git\nbare\n\nworktree /home/me/my work\nHEAD ${A}\nbranch refs/heads/main\n\n`;
+  assert.deepStrictEqual(GitWorktreeParser.parse(stdout), [
+    { path: '/srv/repo.git', head: '', main: true, bare: true, detached: false },
+    { path: '/home/me/my work', head: A, branch: 'main', main: false, bare: false, detached: false }
+  ]);
+});
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { Commit } from '../extension/protocol/types';
+import { GraphCommit, GraphLayout } from '../webview/state/GraphLayout';
+import { IncrementalGraphLayout } from '../webview/state/IncrementalGraphLayout';
+
+// Small deterministic PRNG so failures reproduce.
+function random(seed: number) {
+  let s = seed >>> 0;
+  return () => {
+    s = (s * 1664525 + 1013904223) >>> 0;
+    return s / 2 ** 32;
+  };
+}
+
+/** A newest-first history with branches and merges, like `git log --topo-order`. */
+function history(count: number, seed: number): Commit[] {
+  const rand = random(seed);
+  const oldestFirst: Commit[] = [];
+  for (let i = 0; i < count; i++) {
+    const parents: string[] = [];
+    if (i > 0) parents.push(`c${i - 1 - Math.floor(rand() * Math.min(i, 8))}`);
+    if (i > 2 && rand() < 0.2) parents.push(`c${Math.floor(rand() * (i - 1))}`);
+    oldestFirst.push({
+      sha: `c${i}`,
+      parents: [...new Set(parents)],
+      authorName: 'a',
+      authorEmail: 'a@b',
+      authorDateIso: '',
+      subject: `commit ${i}`,
+      decorations: ''
+    });
+  }
+  return oldestFirst.reverse();
+}
+
+const shape = (rows: GraphCommit[]) =>
+  rows.map(r => ({ sha: r.sha, lane: r.lane, colorLane: r.colorLane, connections: r.connections, activeLanes: r.activeLanes, hasChild: r.hasChild }));
+
+test('paging in search results with update() matches a full layout', () => {
+  for (const seed of [1, 2, 3, 4, 5]) {
+    const rand = random(seed * 7);
+    // Search results are a sparse subset, so parents of earlier pages often arrive on a later page.
+    const results = history(600, seed).filter(() => rand() < 0.5);
+    const layout = new IncrementalGraphLayout();
+    for (let loaded = 50; loaded <= results.length + 49; loaded += 50) {
+      const page = results.slice(0, loaded);
+      assert.deepStrictEqual(shape(layout.update(page, true)), shape(GraphLayout.compute(page)), `seed ${seed}, ${page.length} rows`);
+    }
+  }
+});
+
+test('update() with commits added on top and dropped below matches a full layout', () => {
+  for (const seed of [11, 12, 13]) {
+    const full = history(400, seed);
+    const layout = new IncrementalGraphLayout();
+    layout.update(full.slice(20), true);
+    // New commits on top (a fetch) and one commit gone from the middle (a drop).
+    const next = full.filter((_, i) => i !== 150);
+    assert.deepStrictEqual(shape(layout.update(next, true)), shape(GraphLayout.compute(next)), `seed ${seed}`);
+  }
+});
@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { OperationJournal } from '../extension/git/OperationJournal';
+import { JournalEntry, RefSnapshot } from '../extension/protocol/types';
+
+const A = 'a'.repeat(40);
+const B = 'b'.repeat(40);
+const C = 'c'.repeat(40);
+
+const snap = (branches: Record<string, string>, headBranch: string | undefined, headSha = headBranch ? branches[headBranch] : A): RefSnapshot =>
+  ({ headSha, headBranch, branches });
+
+const entry = (operation: string, before: RefSnapshot, after: RefSnapshot): JournalEntry =>
+  ({ id: 1, operation, label: OperationJournal.labelFor(operation), timestamp: 0, before, after });
+
+test('changed() notices moved, created and deleted branches and HEAD switches', () => {
+  const base = snap({ main: A, topic: B }, 'main');
+  assert.ok(!OperationJournal.changed(base, snap({ main: A, topic: B }, 'main')));
+  assert.ok(OperationJournal.changed(base, snap({ main: C, topic: B }, 'main')));
+  assert.ok(OperationJournal.changed(base, snap({ main: A, topic: B, new: A }, 'main')));
+  assert.ok(OperationJournal.changed(base, snap({ main: A }, 'main')));
+  assert.ok(OperationJournal.changed(base, snap({ main: A, topic: B }, 'topic')));
+  assert.ok(OperationJournal.changed(base, snap({ main: A, topic: B }, undefined, A)));
+});
+
+test('planUndo() deletes a created branch and restores a deleted one', () => {
+  const created = entry('git/branchCreate', snap({ main: A }, 'main'), snap({ main: A, feature: A }, 'main'));
+  assert.deepStrictEqual(OperationJournal.planUndo(created, created.after), { branches: { feature: null }, movedSince: [], soft: false });
+
+  const deleted = entry('git/branchDelete', snap({ main: A, old: B }, 'main'), snap({ main: A }, 'main'));
+  assert.deepStrictEqual(OperationJournal.planUndo(deleted, deleted.after), { branches: { old: B }, movedSince: [], soft: false });
+});
+
+test('planUndo() switches HEAD back after a checkout, attached or detached', () => {
+  const checkout = entry('git/checkout', snap({ main: A, topic: B }, 'main'), snap({ main: A, topic: B }, 'topic'));
+  assert.deepStrictEqual(OperationJournal.planUndo(checkout, checkout.after).head, { branch: 'main', sha: A });
+
+  const detached = entry('git/checkout', snap({ main: A }, undefined, B), snap({ main: A }, undefined, C));
+  assert.deepStrictEqual(OperationJournal.planUndo(detached, detached.after).head, { branch: undefined, sha: B });
+
+  const commit = entry('git/commit', snap({ main: A }, 'main'), snap({ main: B }, 'main'));
+  const plan = OperationJournal.planUndo(commit, commit.after);
+  assert.strictEqual(plan.head, undefined);
+  assert.deepStrictEqual(plan.branches, { main: A });
+  assert.strictEqual(plan.soft, true);
+});
+
+test('planUndo() flags branches moved since and leaves unrelated ones alone', () => {
+  const reset = entry('git/reset', snap({ main: B, topic: A }, 'main'), snap({ main: A, topic: A }, 'main'));
+  const plan = OperationJournal.planUndo(reset, snap({ main: C, topic: C }, 'main'));
+  assert.deepStrictEqual(plan.branches, { main: B });
+  assert.deepStrictEqual(plan.movedSince, ['main']);
+
+  // Already back where it started: nothing to move, but it did move since the operation.
+  const restored = OperationJournal.planUndo(reset, snap({ main: B, topic: A }, 'main'));
+  assert.deepStrictEqual(restored.branches, {});
+  assert.deepStrictEqual(restored.movedSince, ['main']);
+});
@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { PatchBuilder } from '../extension/git/PatchBuilder';
+
+const HEADER = ['diff --git a/f.txt b/f.txt', 'index 1111111..2222222 100644', '--- a/f.txt', '+++ b/f.txt'];
+
+// "a\nb" (no trailing newline) becoming "a\nB\nc" (no trailing newline).
+const DIFF = [
+  ...HEADER,
+  '@@ -1,2 +1,3 @@',
+  ' a',
+  '-b',
+  '\\ No newline at end of file',
+  '+B',
+  '+c',
+  '\\ No newline at end of file',
+  ''
+].join('\n');
+
+test('build() keeps all selected lines', () => {
+  const patch = PatchBuilder.build(PatchBuilder.parse(DIFF), ['0:1', '0:2', '0:3']);
+  assert.strictEqual(patch, DIFF);
+});
+
+test('build() turns a kept removal without newline into a removal plus an addition when additions follow', () => {
+  const patch = PatchBuilder.build(PatchBuilder.parse(DIFF), ['0:2']);
+  assert.strictEqual(
+    patch,
+    [...HEADER, '@@ -1,2 +1,3 @@', ' a', '-b', '\\ No newline at end of file', '+b', '+B', ''].join('\n')
+  );
+});
+
+test('build() leaves a kept removal without newline as context when it stays the last line', () => {
+  const patch = PatchBuilder.build(PatchBuilder.parse(DIFF), []);
+  assert.strictEqual(patch, null);
+  const removalOnly = PatchBuilder.build(PatchBuilder.parse(DIFF), ['0:1']);
+  assert.strictEqual(removalOnly, [...HEADER, '@@ -1,2 +1,1 @@', ' a', '-b', '\\ No newline at end of file', ''].join('\n'));
+});
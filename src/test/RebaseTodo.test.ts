@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RebaseTodo } from '../extension/git/RebaseTodo';
+import { RebaseTodoEntry } from '../extension/protocol/types';
+
+const sha = (n: number) => String(n).repeat(40);
+const entry = (n: number, action: RebaseTodoEntry['action'], message?: string): RebaseTodoEntry =>
+  ({ sha: sha(n), subject: `commit ${n}`, action, message });
+
+test('format() turns reword into a pick plus an amend from the message file', () => {
+  const entries = [entry(1, 'reword', 'New message'), entry(2, 'fixup'), entry(3, 'pick'), entry(4, 'squash'), entry(5, 'drop')];
+  const todo = RebaseTodo.format(entries, new Map([[sha(1), '/tmp/msg/1.msg']]));
+  assert.strictEqual(todo, [
+    'pick 11111111 commit 1',
+    "exec git commit --amend --allow-empty --no-verify -F '/tmp/msg/1.msg'",
+    'fixup 22222222 commit 2',
+    'pick 33333333 commit 3',
+    'squash 44444444 commit 4',
+    'drop 55555555 commit 5',
+    ''
+  ].join('\n'));
+});
+
+test('format() quotes message file paths for sh', () => {
+  const todo = RebaseTodo.format([entry(1, 'reword', 'x')], new Map([[sha(1), "C:\\Users\\O'Neil\\my dir\\1.msg"]]));
+  assert.strictEqual(todo.split('\n')[1], "exec git commit --amend --allow-empty --no-verify -F 'C:\\Users\\O'\\''Neil\\my dir\\1.msg'");
+});
+
+test('format() previews a reword without a message file as a comment', () => {
+  assert.strictEqual(RebaseTodo.format([entry(1, 'reword', 'First line\nbody')]), 'pick 11111111 commit 1\n# reword: First line\n');
+});
+
+test('validate() rejects todos git cannot run', () => {
+  assert.match(RebaseTodo.validate([entry(1, 'drop')]) ?? '', /drop every commit/);
+  assert.match(RebaseTodo.validate([entry(1, 'drop'), entry(2, 'fixup')]) ?? '', /no earlier commit/);
+  assert.match(RebaseTodo.validate([entry(1, 'pick'), entry(2, 'reword', '  ')]) ?? '', /new message for "commit 2"/);
+  assert.strictEqual(RebaseTodo.validate([entry(1, 'pick'), entry(2, 'squash'), entry(3, 'reword', 'x')]), null);
+});
+
+test('a formatted todo rewords, fixes up and drops with git', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "gitbit rebase '"));
+  const env = {
+    ...process.env,
+    GIT_AUTHOR_NAME: 'a', GIT_AUTHOR_EMAIL: 'a@b', GIT_COMMITTER_NAME: 'a', GIT_COMMITTER_EMAIL: 'a@b',
+    GIT_CONFIG_NOSYSTEM: '1', GIT_CONFIG_GLOBAL: os.devNull
+  };
+  const git = (...args: string[]) => cp.execFileSync('git', args, { cwd: dir, env, encoding: 'utf8' }).trim();
+  try {
+    git('init', '-q');
+    git('commit', '-q', '--allow-empty', '-m', 'base');
+    const shas = ['one', 'two', 'three'].map(subject => {
+      fs.writeFileSync(path.join(dir, `${subject}.txt`), subject);
+      git('add', '.');
+      git('commit', '-q', '-m', subject);
+      return git('rev-parse', 'HEAD');
+    });
+    const messageFile = path.join(dir, 'new message.msg');
+    fs.writeFileSync(messageFile, 'one, reworded\n');
+    const entries: RebaseTodoEntry[] = [
+      { sha: shas[0], subject: 'one', action: 'reword', message: 'one, reworded' },
+      { sha: shas[1], subject: 'two', action: 'fixup' },
+      { sha: shas[2], subject: 'three', action: 'drop' }
+    ];
+    const todoFile = path.join(dir, 'todo');
+    fs.writeFileSync(todoFile, RebaseTodo.format(entries, new Map([[shas[0], messageFile]])));
+
+    cp.execFileSync('git', ['rebase', '-i', 'HEAD~3'], {
+      cwd: dir,
+      env: { ...env, GIT_SEQUENCE_EDITOR: `cp '${todoFile.replace(/'/g, `'\\''`)}'`, GIT_EDITOR: 'true' },
+      stdio: 'ignore'
+    });
+    assert.deepStrictEqual(git('log', '--format=%s').split('\n'), ['one, reworded', 'base']);
+    assert.deepStrictEqual(git('show', '--name-only', '--format=', 'HEAD').split('\n'), ['one.txt', 'two.txt']);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
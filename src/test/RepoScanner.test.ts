@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RepoScanner, RepoScanOptions } from '../extension/git/RepoScanner';
+
+const matches = (glob: string, rel: string) => RepoScanner.globToRegExp(glob).test(rel);
+
+test('globToRegExp() keeps * within a segment and lets ** span segments', () => {
+  assert.ok(matches('work/*', 'work/app'));
+  assert.ok(!matches('work/*', 'work/app/sub'));
+  assert.ok(matches('work/**', 'work/app/sub'));
+  assert.ok(matches('**/vendor/**', 'vendor/lib'));
+  assert.ok(matches('**/vendor/**', 'a/b/vendor/lib'));
+  assert.ok(matches('a/**/z', 'a/z'));
+  assert.ok(matches('a/**/z', 'a/b/c/z'));
+  assert.ok(matches('repo-?', 'repo-1'));
+  assert.ok(!matches('repo-?', 'repo-12'));
+});
+
+test('globToRegExp() matches a slash-less pattern at any depth, dot folders included', () => {
+  assert.ok(matches('node_modules', 'node_modules'));
+  assert.ok(matches('node_modules', 'a/b/node_modules'));
+  assert.ok(!matches('node_modules', 'a/node_modules_old'));
+  assert.ok(matches('.*', '.cache'));
+  assert.ok(matches('.*', 'a/.venv'));
+  assert.ok(!matches('.*', 'a/b.c'));
+  assert.ok(matches('./work/', 'work'));
+  assert.ok(matches('work\\app', 'work/app'));
+});
+
+/** Creates the given folders under a temp dir; a path ending in `/.git` becomes a repo marker. */
+function tree(paths: string[]) {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'gitbit-scan-'));
+  for (const p of paths) fs.mkdirSync(path.join(root, p), { recursive: true });
+  return root;
+}
+
+async function scan(root: string, options: Partial<RepoScanOptions>) {
+  const found: string[] = [];
+  await RepoScanner.scan(root, { depth: 3, include: [], exclude: [], ...options }, (_dir, rel) => { found.push(rel); }, () => false);
+  return found.sort();
+}
+
+test('scan() stops at the configured depth and never reports the scanned folder itself', async () => {
+  const root = tree(['.git', 'a/.git', 'b/c/.git', 'b/c/d/e/.git']);
+  try {
+    assert.deepStrictEqual(await scan(root, { depth: 0 }), []);
+    assert.deepStrictEqual(await scan(root, { depth: 1 }), ['a']);
+    assert.deepStrictEqual(await scan(root, { depth: 2 }), ['a', 'b/c']);
+    assert.deepStrictEqual(await scan(root, { depth: 4 }), ['a', 'b/c', 'b/c/d/e']);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test('scan() skips excluded folders and reports only included repos', async () => {
+  const root = tree(['app/.git', 'node_modules/pkg/.git', 'libs/x/.git', '.hidden/y/.git']);
+  try {
+    assert.deepStrictEqual(await scan(root, { exclude: ['node_modules', '.*'] }), ['app', 'libs/x']);
+    assert.deepStrictEqual(await scan(root, { include: ['libs/**'] }), ['libs/x']);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
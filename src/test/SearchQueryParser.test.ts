@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { SearchQueryParser } from '../extension/git/SearchQueryParser';
+
+test('parse() splits keys, quoted values and free text', () => {
+  assert.deepStrictEqual(SearchQueryParser.parse('author:"Jane Doe" path:src/a.ts fix "login page" msg:crash'), {
+    text: ['fix', 'login page', 'crash'],
+    authors: ['Jane Doe'],
+    paths: ['src/a.ts']
+  });
+  assert.deepStrictEqual(SearchQueryParser.parse('content:"foo bar"').content, 'foo bar');
+});
+
+test('parse() keeps unknown keys and empty values out of the filters', () => {
+  const filters = SearchQueryParser.parse('fix: https://example.com/x author:""');
+  assert.deepStrictEqual(filters.text, ['fix:', 'https://example.com/x']);
+  assert.deepStrictEqual(filters.authors, []);
+});
+
+test('parse() turns relative dates into git approxidates and passes others through', () => {
+  const filters = SearchQueryParser.parse('since:2w until:3M');
+  assert.strictEqual(filters.since, '2 weeks ago');
+  assert.strictEqual(filters.until, '3 months ago');
+  assert.strictEqual(SearchQueryParser.parse('after:2024-01-31').since, '2024-01-31');
+  assert.strictEqual(SearchQueryParser.parse('before:yesterday').until, 'yesterday');
+});
+
+test('toLogArgs() matches all words literally', () => {
+  assert.deepStrictEqual(SearchQueryParser.toLogArgs(SearchQueryParser.parse('a b author:jo since:1d content:x')), [
+    '--grep=a',
+    '--grep=b',
+    '--author=jo',
+    '--regexp-ignore-case',
+    '--fixed-strings',
+    '--all-match',
+    '--since=1 days ago',
+    '-Sx'
+  ]);
+  assert.ok(SearchQueryParser.isEmpty(SearchQueryParser.parse('  ')));
+});
+
+test('hashPrefix() only treats a lone hex word as a hash', () => {
+  assert.strictEqual(SearchQueryParser.hashPrefix(SearchQueryParser.parse('ABC123')), 'abc123');
+  assert.strictEqual(SearchQueryParser.hashPrefix(SearchQueryParser.parse('abc')), '');
+  assert.strictEqual(SearchQueryParser.hashPrefix(SearchQueryParser.parse('cafe babe')), '');
+  assert.strictEqual(SearchQueryParser.hashPrefix(SearchQueryParser.parse('deadbeefx')), '');
+  assert.strictEqual(SearchQueryParser.hashPrefix(SearchQueryParser.parse('a'.repeat(41))), '');
+});
@@ -0,0 +1,38 @@
+import React from 'react';
+import { GraphLayout } from '../state/GraphLayout';
+
+interface AvatarProps {
+  name: string;
+  email?: string;
+  title?: string;
+}
+
+/** Up to two initials, e.g. "Jane Doe" -> "JD", "jane.doe@x.com" -> "JD". */
+export const initialsFor = (name: string, email = '') => {
+  const source = (name.trim() || email.split('@')[0]).replace(/[^\p{L}\p{N}\s._-]/gu, '');
+  const words = source.split(/[\s._-]+/).filter(Boolean);
+  if (words.length === 0) return '?';
+  const letters = words.length === 1 ? words[0].substring(0, 2) : words[0][0] + words[words.length - 1][0];
+  return letters.toUpperCase();
+};
+
+/**
+ * Splits a `Name <email>` value (as used by Co-authored-by and Signed-off-by trailers).
+ * Returns null for values that don't name a person.
+ */
+export const parsePerson = (value: string): { name: string; email: string } | null => {
+  const match = /^(.*?)\s*<([^>]+)>$/.exec(value.trim());
+  return match ? { name: match[1], email: match[2] } : null;
+};
+
+/** Initials on a color derived from the email (or name), so the same person always looks the same. */
+export const Avatar: React.FC<AvatarProps> = ({ name, email = '', title }) => {
+  const key = (email || name).toLowerCase();
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) hash = (hash * 31 + key.charCodeAt(i)) >>> 0;
+  return (
+    <span className="avatar" style={{ backgroundColor: GraphLayout.getLaneColor(hash) }} title={title}>
+      {initialsFor(name, email)}
+    </span>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { BisectState } from '../../extension/protocol/types';
+
+interface BisectBannerProps {
+  bisect: BisectState | null;
+  /** Runs a git action through the app (so the list refreshes and the toolbar shows progress). */
+  onAction: (type: string, payload: any) => Promise<unknown>;
+  onRevealCommit: (sha: string) => void;
+}
+
+const short = (sha?: string) => (sha ? sha.substring(0, 8) : '');
+
+export const BisectBanner: React.FC<BisectBannerProps> = ({ bisect, onAction, onRevealCommit }) => {
+  const [busy, setBusy] = useState(false);
+
+  if (!bisect) return null;
+
+  const run = async (type: string, payload: any = {}) => {
+    if (busy) return;
+    setBusy(true);
+    try {
+      await onAction(type, payload);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const hasRange = !!bisect.bad && bisect.good.length > 0;
+  const remaining = bisect.candidates.length;
+
+  let summary: string;
+  if (bisect.firstBad) {
+    summary = 'Found the first bad commit';
+  } else if (!bisect.bad) {
+    summary = 'Mark a bad commit to start narrowing down';
+  } else if (bisect.good.length === 0) {
+    summary = 'Mark a good commit to start narrowing down';
+  } else {
+    summary = `${remaining}${bisect.candidatesHasMore ? '+' : ''} candidate${remaining === 1 ? '' : 's'} left`;
+    if (bisect.stepsLeft !== undefined) summary += ` (roughly ${bisect.stepsLeft} step${bisect.stepsLeft === 1 ? '' : 's'})`;
+  }
+
+  return (
+    <div className={`conflict-banner bisect-banner ${bisect.firstBad ? 'found' : ''}`}>
+      <div className="conflict-banner-header">
+        <span className={`codicon ${bisect.firstBad ? 'codicon-pass' : 'codicon-debug-alt'}`} />
+        <span className="conflict-banner-title">
+          Bisecting
+          {bisect.firstBad ? (
+            <span className="conflict-banner-target bisect-banner-link" title="Show in graph" onClick={() => onRevealCommit(bisect.firstBad!)}>
+              {' '}• {short(bisect.firstBad)}
+            </span>
+          ) : (
+            bisect.current && <span className="conflict-banner-target"> • testing {short(bisect.current)}</span>
+          )}
+        </span>
+        <span className="conflict-banner-summary">{summary}</span>
+        <div className="conflict-banner-actions">
+          {!bisect.firstBad && (
+            <>
+              <button
+                className="toolbar-button"
+                disabled={busy}
+                title="The checked out commit doesn't have the bug"
+                onClick={() => run('git/bisectMark', { verdict: 'good' })}
+              >
+                Good
+              </button>
+              <button
+                className="toolbar-button"
+                disabled={busy}
+                title="The checked out commit has the bug"
+                onClick={() => run('git/bisectMark', { verdict: 'bad' })}
+              >
+                Bad
+              </button>
+              <button
+                className="toolbar-button secondary"
+                disabled={busy}
+                title="The checked out commit can't be tested; try a nearby one"
+                onClick={() => run('git/bisectMark', { verdict: 'skip' })}
+              >
+                Skip
+              </button>
+              <button
+                className="toolbar-button secondary"
+                disabled={busy || !hasRange}
+                title={hasRange ? 'Run a command on each step and let it decide good or bad (git bisect run)' : 'Mark a good and a bad commit first'}
+                onClick={() => run('git/bisectRun')}
+              >
+                Run…
+              </button>
+            </>
+          )}
+          <button
+            className="toolbar-button secondary"
+            disabled={busy}
+            title="End the bisect and go back to the branch it started from"
+            onClick={() => run('git/bisectReset')}
+          >
+            {bisect.firstBad ? 'End Bisect' : 'Reset'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
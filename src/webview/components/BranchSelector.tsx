@@ -1,7 +1,20 @@
 import React, { useState, useMemo, useRef, useEffect, useLayoutEffect } from 'react';
 import { Branch } from '../../extension/protocol/types';
-
-type BranchHoverAction = 'checkout' | 'rebase' | 'rename' | 'delete';
+import { formatAge } from '../state/time';
+import { formatTracking, describeTracking } from '../state/tracking';
+
+type BranchHoverAction =
+  | 'checkout'
+  | 'openWorktree'
+  | 'addWorktree'
+  | 'rebase'
+  | 'merge'
+  | 'compare'
+  | 'rename'
+  | 'setUpstream'
+  | 'unsetUpstream'
+  | 'deleteGone'
+  | 'delete';
 
 interface BranchSelectorProps {
   branches: Branch[];
@@ -143,7 +156,12 @@ export const BranchSelector: React.FC<BranchSelectorProps> = ({
       if (!names.has(name)) {
         // Special check to only include main/master if they actually exist in branches
         if (item.type === 'important' && !['HEAD', '--all'].includes(name)) {
-          if (!branches.some(b => b.name === name)) continue;
+          const real = branches.find(b => b.name === name);
+          if (!real) continue;
+          // Keep the real branch state (current, worktree) on the pinned entry.
+          names.add(name);
+          uniqueItems.push({ ...real, type: item.type });
+          continue;
         }
         names.add(name);
         uniqueItems.push(item);
@@ -301,6 +319,22 @@ export const BranchSelector: React.FC<BranchSelectorProps> = ({
                         <span className="branch-item-star">★</span>
                       )}
                       {branch.label || branch.name.replace('remotes/', '')}
+                      {branch.worktree && (
+                        <span className="codicon codicon-lock branch-item-worktree" title={`Checked out in worktree ${branch.worktree}`} />
+                      )}
+                      {(!!formatTracking(branch) || !!branch.lastCommitUnix) && (
+                        <span
+                          className="branch-item-meta"
+                          title={[describeTracking(branch), branch.lastCommitUnix ? `Last commit ${new Date(branch.lastCommitUnix * 1000).toLocaleString()}` : '']
+                            .filter(Boolean)
+                            .join('\n')}
+                        >
+                          {!!formatTracking(branch) && (
+                            <span className={`branch-item-tracking ${branch.upstreamGone ? 'gone' : ''}`}>{formatTracking(branch)}</span>
+                          )}
+                          {!!branch.lastCommitUnix && <span className="branch-item-age">{formatAge(branch.lastCommitUnix)}</span>}
+                        </span>
+                      )}
                     </div>
                   ))}
                 </React.Fragment>
@@ -330,14 +364,52 @@ export const BranchSelector: React.FC<BranchSelectorProps> = ({
                 <div className="branch-actions-title" title={hoveredBranch.name}>
                   {hoveredBranch.name.replace('remotes/', '')}
                 </div>
-                <button className="branch-action-item" onClick={() => handleAction('checkout', hoveredBranch)}>
-                  <span className="codicon codicon-git-branch branch-action-icon" />
-                  Checkout
+                {hoveredBranch.worktree ? (
+                  <button
+                    className="branch-action-item"
+                    onClick={() => handleAction('openWorktree', hoveredBranch)}
+                    title={`Checked out in ${hoveredBranch.worktree}; show that worktree in the graph`}
+                  >
+                    <span className="codicon codicon-lock branch-action-icon" />
+                    Show worktree
+                  </button>
+                ) : (
+                  <button className="branch-action-item" onClick={() => handleAction('checkout', hoveredBranch)}>
+                    <span className="codicon codicon-git-branch branch-action-icon" />
+                    Checkout
+                  </button>
+                )}
+                <button
+                  className="branch-action-item"
+                  onClick={() => handleAction('addWorktree', hoveredBranch)}
+                  disabled={hoveredBranch.current || !!hoveredBranch.worktree}
+                  title={hoveredBranch.current || hoveredBranch.worktree ? 'Already checked out in a worktree' : 'Check out in a new worktree'}
+                >
+                  <span className="codicon codicon-repo-clone branch-action-icon" />
+                  New worktree…
                 </button>
                 <button className="branch-action-item" onClick={() => handleAction('rebase', hoveredBranch)}>
                   <span className="codicon codicon-git-pull-request branch-action-icon" />
                   Rebase onto
                 </button>
+                <button
+                  className="branch-action-item"
+                  onClick={() => handleAction('merge', hoveredBranch)}
+                  disabled={hoveredBranch.current}
+                  title={hoveredBranch.current ? 'Cannot merge a branch into itself' : 'Merge into the current branch'}
+                >
+                  <span className="codicon codicon-git-merge branch-action-icon" />
+                  Merge into current
+                </button>
+                <button
+                  className="branch-action-item"
+                  onClick={() => handleAction('compare', hoveredBranch)}
+                  disabled={hoveredBranch.current}
+                  title={hoveredBranch.current ? 'This is the current branch' : 'Show what this branch has that the current branch does not'}
+                >
+                  <span className="codicon codicon-git-compare branch-action-icon" />
+                  Compare with current
+                </button>
                 <button
                   className="branch-action-item"
                   onClick={() => handleAction('rename', hoveredBranch)}
@@ -347,12 +419,38 @@ export const BranchSelector: React.FC<BranchSelectorProps> = ({
                   <span className="codicon codicon-edit branch-action-icon" />
                   Rename
                 </button>
+                {!hoveredBranch.remote && (
+                  <button
+                    className="branch-action-item"
+                    onClick={() => handleAction('setUpstream', hoveredBranch)}
+                    title={hoveredBranch.upstream ? `Tracking ${hoveredBranch.upstream}` : 'Pick the remote branch to pull from and push to'}
+                  >
+                    <span className="codicon codicon-cloud branch-action-icon" />
+                    {hoveredBranch.upstream ? 'Change upstream…' : 'Set upstream…'}
+                  </button>
+                )}
+                {!hoveredBranch.remote && hoveredBranch.upstream && (
+                  <button className="branch-action-item" onClick={() => handleAction('unsetUpstream', hoveredBranch)}>
+                    <span className="codicon codicon-debug-disconnect branch-action-icon" />
+                    Unset upstream
+                  </button>
+                )}
+                {hoveredBranch.upstreamGone && (
+                  <button
+                    className="branch-action-item danger"
+                    onClick={() => handleAction('deleteGone', hoveredBranch)}
+                    title="Delete local branches whose upstream was deleted on the remote"
+                  >
+                    <span className="codicon codicon-trash branch-action-icon" />
+                    Delete gone branches…
+                  </button>
+                )}
                 {!hoveredBranch.remote && (
                   <button
                     className="branch-action-item danger"
                     onClick={() => handleAction('delete', hoveredBranch)}
-                    disabled={hoveredBranch.current}
-                    title={hoveredBranch.current ? 'Cannot delete the currently checked out branch' : 'Delete branch'}
+                    disabled={hoveredBranch.current || !!hoveredBranch.worktree}
+                    title={hoveredBranch.current || hoveredBranch.worktree ? 'Cannot delete a checked out branch' : 'Delete branch'}
                   >
                     <span className="codicon codicon-trash branch-action-icon" />
                     Delete
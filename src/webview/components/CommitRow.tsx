@@ -1,12 +1,28 @@
 import React from 'react';
-import { Commit } from '../../extension/protocol/types';
+import { Branch, Change, Commit, SignatureStatus } from '../../extension/protocol/types';
 import { Graph } from './Graph';
+import { Avatar } from './Avatar';
 import { vscode } from '../state/vscode';
+import { formatAge } from '../state/time';
+import { describeSignature } from '../state/signature';
+import { formatTracking, describeTracking } from '../state/tracking';
 import { GraphCommit, GraphLayout } from '../state/GraphLayout';
+import { BisectMark } from '../state/useBisect';
 
 interface CommitRowProps {
   commit: GraphCommit;
   isSelected: boolean;
+  /** Search highlight mode: the row doesn't match the query. */
+  isDimmed?: boolean;
+  /** Bisect in progress: whether this commit was marked, or is still a candidate for the first bad commit. */
+  bisectMark?: BisectMark;
+  /** `%G?` of the commit, once loaded. */
+  signatureStatus?: SignatureStatus;
+  /** File history mode: how this commit changed the file being followed. */
+  fileChange?: Change;
+  /** Local branches by name, for the ahead/behind counts on branch labels. */
+  branchesByName?: Map<string, Branch>;
+  onOpenFileDiff?: (commit: Commit, change: Change) => void;
   onSelect: (sha: string, isMulti: boolean, isShift: boolean) => void;
   onContextMenu: (sha: string, x: number, y: number) => void;
   onDiscardAllUncommitted?: () => void;
@@ -28,6 +44,12 @@ interface CommitRowProps {
 export const CommitRow: React.FC<CommitRowProps> = ({
   commit,
   isSelected,
+  isDimmed = false,
+  bisectMark,
+  signatureStatus,
+  fileChange,
+  branchesByName,
+  onOpenFileDiff,
   onSelect,
   onContextMenu,
   onDiscardAllUncommitted,
@@ -65,10 +87,17 @@ export const CommitRow: React.FC<CommitRowProps> = ({
   };
 
   const isUncommitted = commit.sha === 'UNCOMMITTED';
+  const isStash = !!commit.refs?.some(ref => ref.type === 'stash');
   const isMain = !isUncommitted && commit.refs?.some(ref => ref.name === 'main' || ref.name === 'origin/main' || ref.name === 'master' || ref.name === 'origin/master');
   const laneColor = GraphLayout.getLaneColor(commit.lane);
+  const signature = describeSignature(signatureStatus);
+  const committedBySomeoneElse = !!commit.committerName &&
+    (commit.committerName !== commit.authorName || commit.committerEmail !== commit.authorEmail);
+  const authorTitle = committedBySomeoneElse
+    ? `${commit.authorName} <${commit.authorEmail}>\nCommitted by ${commit.committerName} <${commit.committerEmail}>`
+    : `${commit.authorName}${commit.authorEmail ? ` <${commit.authorEmail}>` : ''}`;
 
-  const draggable = moveMode && !isUncommitted && !movePending;
+  const draggable = moveMode && !isUncommitted && !isStash && !movePending;
   const isDragSource = draggedShas.includes(commit.sha);
 
   const wiggleStyle = React.useMemo(() => {
@@ -104,10 +133,11 @@ export const CommitRow: React.FC<CommitRowProps> = ({
 
   return (
     <div 
-      className={`commit-row ${isSelected ? 'selected' : ''} ${isMain ? 'special-branch' : ''} ${isUncommitted ? 'uncommitted' : ''} ${moveMode ? 'move-mode' : ''} ${isDropTarget ? 'drop-target' : ''} ${isDragSource ? 'drag-source' : ''} ${moveFailed ? 'move-failed' : ''}`}
+      className={`commit-row ${isSelected ? 'selected' : ''} ${isMain ? 'special-branch' : ''} ${isUncommitted ? 'uncommitted' : ''} ${isStash ? 'stash' : ''} ${moveMode ? 'move-mode' : ''} ${isDropTarget ? 'drop-target' : ''} ${isDragSource ? 'drag-source' : ''} ${moveFailed ? 'move-failed' : ''} ${isDimmed ? 'search-dimmed' : ''} ${bisectMark ? `bisect-${bisectMark}` : ''}`}
       onClick={handleClick}
       onContextMenu={handleContextMenu}
       data-sha={commit.sha}
+      data-reflog-index={commit.reflog?.index}
       style={wiggleStyle}
       ref={rowRef}
       draggable={draggable}
@@ -227,8 +257,9 @@ export const CommitRow: React.FC<CommitRowProps> = ({
       >
         {isUncommitted ? '*' : commit.sha.substring(0, 8)}
       </div>
-      <div className="cell cell-author" title={commit.authorName}>
-        {commit.authorName}
+      <div className="cell cell-author" title={authorTitle}>
+        {!isUncommitted && <Avatar name={commit.authorName} email={commit.authorEmail} />}
+        <span className="cell-author-name">{commit.authorName}</span>
       </div>
       <div className="cell cell-date">
         {formatDate(commit.authorDateIso)}
@@ -240,12 +271,49 @@ export const CommitRow: React.FC<CommitRowProps> = ({
       </div>
       <div className="cell cell-subject" title={commit.subject}>
         <div className="subject-text">
-          {commit.refs && commit.refs.map((ref, i) => (
-            <span key={i} className={`ref-badge ref-${ref.type}`}>
-              {ref.name}
-            </span>
-          ))}
+          {commit.reflog && (
+            <>
+              <span className="reflog-selector" title={commit.reflog.timestamp > 0 ? `HEAD moved here ${formatAge(commit.reflog.timestamp)}` : undefined}>
+                HEAD@{`{${commit.reflog.index}}`}
+              </span>
+              <span className="reflog-action" title={commit.reflog.action}>{commit.reflog.action}</span>
+            </>
+          )}
+          {bisectMark && bisectMark !== 'candidate' && (
+            <span className={`bisect-badge ${bisectMark}`}>{bisectMark}</span>
+          )}
+          {commit.refs && commit.refs.map((ref, i) => {
+            // Local branches other than the checked out one are decorated without a type, so look them up by name.
+            const branch = ref.type !== 'tag' && ref.type !== 'stash' ? branchesByName?.get(ref.name) : undefined;
+            const tracking = branch ? formatTracking(branch) : '';
+            return (
+              <span key={i} className={`ref-badge ref-${ref.type}`} title={branch?.upstream ? describeTracking(branch) : undefined}>
+                {ref.name}
+                {!!tracking && <span className="ref-badge-tracking">{tracking}</span>}
+              </span>
+            );
+          })}
+          {signature && (
+            <span className={`codicon ${signature.icon} signature-icon ${signature.tone}`} title={signature.detail} />
+          )}
           <span className="subject-message">{commit.subject}</span>
+          {fileChange && onOpenFileDiff && (
+            <span className="commit-row-actions">
+              {fileChange.oldPath && (
+                <span className="commit-row-file-rename" title={`${fileChange.oldPath} → ${fileChange.path}`}>
+                  renamed from {fileChange.oldPath}
+                </span>
+              )}
+              <span
+                className="codicon codicon-diff"
+                title={`Open diff of ${fileChange.path}`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onOpenFileDiff(commit, fileChange);
+                }}
+              />
+            </span>
+          )}
           {isUncommitted && (
             <span className="commit-row-actions">
               <span
@@ -0,0 +1,216 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Change, Commit, CompareMode, RefComparison } from '../../extension/protocol/types';
+import { request, vscode } from '../state/vscode';
+import { FileTree } from './FileTree';
+
+export interface CompareTarget {
+  left: string;
+  right: string;
+  mode: CompareMode;
+}
+
+interface ComparePanelProps {
+  target: CompareTarget;
+  onChange: (next: CompareTarget) => void;
+  onClose: () => void;
+  /** Selects a commit from one of the "only in" lists in the graph. */
+  onRevealCommit: (sha: string) => void;
+  onShowFileHistory?: (path: string) => void;
+  /** Switches the graph to the submodule at this path. */
+  onOpenSubmodule?: (path: string) => void;
+}
+
+const sectionTitleStyle: React.CSSProperties = {
+  fontWeight: 'bold',
+  fontSize: '11px',
+  color: 'var(--vscode-descriptionForeground)',
+  textTransform: 'uppercase',
+  letterSpacing: '0.05em'
+};
+
+/** Full shas are shortened for display; branch and tag names are shown as is. */
+const displayRef = (ref: string) => {
+  if (ref === 'UNCOMMITTED') return 'working tree';
+  return /^[0-9a-f]{40}$/.test(ref) ? ref.substring(0, 8) : ref;
+};
+
+const CommitList: React.FC<{ title: string; commits: Commit[]; hasMore: boolean; onSelect: (sha: string) => void }> = ({ title, commits, hasMore, onSelect }) => (
+  <div className="compare-commits">
+    <div style={{ ...sectionTitleStyle, padding: '16px 12px 8px 12px' }}>
+      {title} ({commits.length}{hasMore ? '+' : ''})
+    </div>
+    {commits.length === 0 ? (
+      <div style={{ padding: '0 12px 4px 12px', fontSize: '12px', opacity: 0.6 }}>No commits</div>
+    ) : (
+      commits.map(commit => (
+        <div
+          key={commit.sha}
+          className="compare-commit"
+          title={`${commit.subject}\n${commit.authorName} • ${commit.authorDateIso.slice(0, 10)}`}
+          onClick={() => onSelect(commit.sha)}
+        >
+          <span className="compare-commit-sha">{commit.sha.substring(0, 8)}</span>
+          <span className="compare-commit-subject">{commit.subject}</span>
+          <span className="compare-commit-author">{commit.authorName}</span>
+        </div>
+      ))
+    )}
+  </div>
+);
+
+export const ComparePanel: React.FC<ComparePanelProps> = ({ target, onChange, onClose, onRevealCommit, onShowFileHistory, onOpenSubmodule }) => {
+  const [comparison, setComparison] = useState<RefComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [collapsedFolders, setCollapsedFolders] = useState<Set<string>>(() => new Set());
+
+  const { left, right, mode } = target;
+
+  const fetch = useCallback(async (silent = false) => {
+    if (!silent) setLoading(true);
+    try {
+      const data = await request<RefComparison>('compare/refs', { left, right, mode });
+      setComparison(data);
+      setError(null);
+    } catch (err: any) {
+      setComparison(null);
+      setError(err.message);
+    } finally {
+      if (!silent) setLoading(false);
+    }
+  }, [left, right, mode]);
+
+  useEffect(() => {
+    fetch();
+  }, [fetch]);
+
+  useEffect(() => {
+    // Branch names can move (commit, fetch, reset), so recompute when the repo changes.
+    let timer: any;
+    const handler = (event: MessageEvent) => {
+      if (event.data?.type !== 'event/repoChanged') return;
+      clearTimeout(timer);
+      timer = setTimeout(() => fetch(true), 250);
+    };
+    window.addEventListener('message', handler);
+    return () => {
+      window.removeEventListener('message', handler);
+      clearTimeout(timer);
+    };
+  }, [fetch]);
+
+  const handleFileDiff = (change: Change) => {
+    if (!comparison) return;
+    vscode.postMessage({
+      type: 'file/diff',
+      requestId: `diff-${Date.now()}`,
+      payload: {
+        base: comparison.diffBase,
+        target: comparison.right.sha,
+        path: change.path,
+        oldPath: change.oldPath,
+        status: change.status
+      }
+    });
+  };
+
+  const handleRevealInOS = (change: Change) => {
+    vscode.postMessage({
+      type: 'file/revealInOS',
+      requestId: `reveal-${Date.now()}`,
+      payload: {
+        path: change.path,
+        oldPath: change.oldPath,
+        status: change.status
+      }
+    });
+  };
+
+  const isThreeDot = mode === 'three-dot';
+  // The working tree has no history of its own, so it always stays on the right.
+  const isWorkingTree = right === 'UNCOMMITTED';
+
+  return (
+    <div className="compare-panel" style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+      <div className="details-header" style={{ padding: '16px 16px 12px 16px', borderBottom: '1px solid var(--vscode-panel-border)' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '8px' }}>
+          <div style={{ minWidth: 0 }}>
+            <div style={{ fontWeight: 'bold', fontSize: '15px', wordBreak: 'break-all' }}>
+              {displayRef(left)} {isThreeDot ? '...' : '..'} {displayRef(right)}
+            </div>
+            <div style={{ fontSize: '11px', opacity: 0.6, marginTop: '4px' }}>
+              {isThreeDot
+                ? `Changes on ${displayRef(right)} since it diverged from ${displayRef(left)}`
+                : `Differences between ${displayRef(left)} and ${displayRef(right)}`}
+              {comparison && ` • ${comparison.changes.length} file${comparison.changes.length === 1 ? '' : 's'}`}
+              {comparison?.mergeBase && ` • merge base ${comparison.mergeBase.substring(0, 8)}`}
+            </div>
+          </div>
+          <div style={{ display: 'flex', gap: '6px', flexShrink: 0 }}>
+            <button
+              className="toolbar-button secondary"
+              style={{ padding: '4px 8px' }}
+              title={isThreeDot ? 'Compare the two sides directly (two-dot)' : 'Compare against the merge base (three-dot)'}
+              onClick={() => onChange({ ...target, mode: isThreeDot ? 'two-dot' : 'three-dot' })}
+            >
+              {isThreeDot ? '...' : '..'}
+            </button>
+            <button
+              className="toolbar-button secondary"
+              style={{ padding: '4px 8px' }}
+              title={isWorkingTree ? 'The working tree is always on the right' : 'Swap sides'}
+              disabled={isWorkingTree}
+              onClick={() => onChange({ ...target, left: target.right, right: target.left })}
+            >
+              <span className="codicon codicon-arrow-swap" />
+            </button>
+            <button className="toolbar-button secondary" style={{ padding: '4px 12px' }} onClick={onClose}>
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+      <div className="details-body" style={{ flex: 1, overflowY: 'auto' }}>
+        {loading && !comparison && <div style={{ padding: '16px' }}>Comparing...</div>}
+        {error && <div style={{ padding: '16px', color: 'var(--vscode-errorForeground)' }}>{error}</div>}
+        {comparison && (
+          <>
+            <div style={{ ...sectionTitleStyle, padding: '16px 12px 8px 12px' }}>
+              Changed Files
+            </div>
+            {isWorkingTree && comparison.changes.length > 0 && (
+              <div style={{ padding: '0 12px 8px 12px', fontSize: '12px', opacity: 0.6 }}>
+                Diffs open the files on disk, so you can edit them directly.
+              </div>
+            )}
+            {comparison.changes.length === 0 ? (
+              <div style={{ padding: '0 12px 4px 12px', fontSize: '12px', opacity: 0.6 }}>No differences</div>
+            ) : (
+              <FileTree
+                changes={comparison.changes}
+                onFileClick={handleFileDiff}
+                onRevealInOS={handleRevealInOS}
+                onShowHistory={onShowFileHistory ? (change) => onShowFileHistory(change.path) : undefined}
+                onOpenSubmodule={onOpenSubmodule ? (change) => onOpenSubmodule(change.path) : undefined}
+                collapsedFolders={collapsedFolders}
+                onCollapsedFoldersChange={setCollapsedFolders}
+              />
+            )}
+            <CommitList
+              title={`Only in ${displayRef(left)}`}
+              commits={comparison.leftOnly}
+              hasMore={comparison.leftOnlyHasMore}
+              onSelect={onRevealCommit}
+            />
+            <CommitList
+              title={`Only in ${displayRef(right)}`}
+              commits={comparison.rightOnly}
+              hasMore={comparison.rightOnlyHasMore}
+              onSelect={onRevealCommit}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ConflictedFile, OperationState } from '../../extension/protocol/types';
+import { request, vscode } from '../state/vscode';
+
+interface ConflictBannerProps {
+  /** Runs a git action through the app (so the list refreshes and the toolbar shows progress). */
+  onAction: (type: string, payload: any) => Promise<unknown>;
+}
+
+const KIND_LABELS: Record<OperationState['kind'], string> = {
+  'rebase': 'Rebase',
+  'merge': 'Merge',
+  'cherry-pick': 'Cherry-pick',
+  'revert': 'Revert'
+};
+
+const CODE_LABELS: Record<string, string> = {
+  UU: 'both modified',
+  AA: 'both added',
+  DD: 'both deleted',
+  AU: 'added by us',
+  UA: 'added by them',
+  DU: 'deleted by us',
+  UD: 'deleted by them'
+};
+
+export const ConflictBanner: React.FC<ConflictBannerProps> = ({ onAction }) => {
+  const [state, setState] = useState<OperationState | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const fetch = useCallback(async () => {
+    try {
+      setState(await request<OperationState | null>('repo/operationState'));
+    } catch {
+      // Unexpected host errors are logged to the output channel; hide the banner rather than show a stale state.
+      setState(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetch();
+  }, [fetch]);
+
+  useEffect(() => {
+    let timer: any;
+    const handler = (event: MessageEvent) => {
+      const message = event.data;
+      if (message.type === 'event/repoChanged') {
+        clearTimeout(timer);
+        timer = setTimeout(fetch, 200);
+      }
+    };
+    window.addEventListener('message', handler);
+    return () => {
+      window.removeEventListener('message', handler);
+      clearTimeout(timer);
+    };
+  }, [fetch]);
+
+  if (!state) return null;
+
+  const run = async (type: string, payload: any = {}) => {
+    if (busy) return;
+    setBusy(true);
+    try {
+      await onAction(type, payload);
+    } finally {
+      setBusy(false);
+      fetch();
+    }
+  };
+
+  const openDiff = (file: ConflictedFile, compare: 'ours-theirs' | 'base-ours' | 'base-theirs') => {
+    vscode.postMessage({
+      type: 'conflict/diff',
+      requestId: `conflict-diff-${Date.now()}`,
+      payload: { path: file.path, compare }
+    });
+  };
+
+  const openFile = (file: ConflictedFile) => {
+    vscode.postMessage({
+      type: 'file/open',
+      requestId: `open-${Date.now()}`,
+      payload: { path: file.path }
+    });
+  };
+
+  const label = KIND_LABELS[state.kind];
+  const hasConflicts = state.conflicts.length > 0;
+
+  return (
+    <div className={`conflict-banner ${hasConflicts ? 'has-conflicts' : ''}`}>
+      <div className="conflict-banner-header">
+        <span className={`codicon ${hasConflicts ? 'codicon-warning' : 'codicon-debug-pause'}`} />
+        <span className="conflict-banner-title">
+          {label} in progress
+          {state.step && ` (${state.step.current}/${state.step.total})`}
+          {state.branch && ` on ${state.branch}`}
+          {state.target && <span className="conflict-banner-target"> • {state.target.substring(0, 8)}</span>}
+        </span>
+        <span className="conflict-banner-summary">
+          {hasConflicts
+            ? `${state.conflicts.length} conflicted file${state.conflicts.length === 1 ? '' : 's'}`
+            : 'No conflicts left'}
+        </span>
+        <div className="conflict-banner-actions">
+          <button
+            className="toolbar-button"
+            disabled={busy || hasConflicts}
+            title={hasConflicts ? 'Resolve all conflicts first' : `Continue the ${state.kind}`}
+            onClick={() => run('git/operationContinue')}
+          >
+            Continue
+          </button>
+          {state.kind !== 'merge' && (
+            <button
+              className="toolbar-button secondary"
+              disabled={busy}
+              title="Skip the current commit"
+              onClick={() => run('git/operationSkip')}
+            >
+              Skip
+            </button>
+          )}
+          <button
+            className="toolbar-button secondary"
+            disabled={busy}
+            title={`Abort the ${state.kind} and go back to where you started`}
+            onClick={() => run('git/operationAbort')}
+          >
+            Abort
+          </button>
+        </div>
+      </div>
+      {hasConflicts && (
+        <div className="conflict-file-list">
+          {state.conflicts.map(file => (
+            <div key={file.path} className="conflict-file">
+              <span className="conflict-file-path" title={file.path} onClick={() => openFile(file)}>
+                {file.path}
+              </span>
+              <span className="conflict-file-code">{CODE_LABELS[file.code] || file.code}</span>
+              <span className="conflict-file-actions">
+                <button title="Compare our version with theirs" onClick={() => openDiff(file, 'ours-theirs')}>Ours ↔ Theirs</button>
+                <button title="What we changed since the common ancestor" onClick={() => openDiff(file, 'base-ours')}>Base ↔ Ours</button>
+                <button title="What they changed since the common ancestor" onClick={() => openDiff(file, 'base-theirs')}>Base ↔ Theirs</button>
+                <button
+                  title="Stage the file as resolved"
+                  disabled={busy}
+                  onClick={() => run('conflict/markResolved', { paths: [file.path] })}
+                >
+                  <span className="codicon codicon-check" /> Resolved
+                </button>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
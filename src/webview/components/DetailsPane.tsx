@@ -1,18 +1,27 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useCommitDetails } from '../state/useCommitDetails';
 import { FileTree } from './FileTree';
+import { HunkSelector, LineSelection } from './HunkSelector';
 import { Change } from '../../extension/protocol/types';
 import { request, vscode } from '../state/vscode';
+import { describeSignature } from '../state/signature';
+import { Avatar, parsePerson } from './Avatar';
 
 interface DetailsPaneProps {
   sha: string | null;
+  onShowFileHistory?: (path: string) => void;
+  /** Switches the graph to the submodule at this path. */
+  onOpenSubmodule?: (path: string) => void;
 }
 
-export const DetailsPane: React.FC<DetailsPaneProps> = ({ sha }) => {
+export const DetailsPane: React.FC<DetailsPaneProps> = ({ sha, onShowFileHistory, onOpenSubmodule }) => {
   const { details, changes, loading } = useCommitDetails(sha);
   const [commitMessage, setCommitMessage] = useState('');
   const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set());
   const [revertSelectedPaths, setRevertSelectedPaths] = useState<Set<string>>(new Set());
+  // Selected files of which only some lines should be committed.
+  const [lineSelections, setLineSelections] = useState<Map<string, LineSelection>>(() => new Map());
+  const [lineSelectChange, setLineSelectChange] = useState<Change | null>(null);
   const [commitSubmitting, setCommitSubmitting] = useState(false);
   const [commitError, setCommitError] = useState<{ title: string; details?: string } | null>(null);
   const [showFullMessage, setShowFullMessage] = useState(false);
@@ -51,13 +60,17 @@ export const DetailsPane: React.FC<DetailsPaneProps> = ({ sha }) => {
 
     if (selectedPaths.size === 0) return;
     const paths = Array.from(selectedPaths);
+    const partial = Array.from(lineSelections.entries())
+      .filter(([path]) => selectedPaths.has(path))
+      .map(([path, selection]) => ({ path, fingerprint: selection.fingerprint, lineIds: Array.from(selection.lineIds) }));
 
     setCommitSubmitting(true);
     setCommitError(null);
     try {
-      await request('git/commit', { message, paths, amend, noVerify });
+      await request('git/commit', { message, paths, partial, amend, noVerify });
       setCommitMessage('');
       setSelectedPaths(new Set());
+      setLineSelections(new Map());
     } catch (e: any) {
       const details = typeof e?.details === 'string' ? e.details : undefined;
       const title = e?.message || 'Commit failed';
@@ -127,6 +140,15 @@ export const DetailsPane: React.FC<DetailsPaneProps> = ({ sha }) => {
     });
   };
 
+  const handleBlame = (change: Change) => {
+    if (!details) return;
+    vscode.postMessage({
+      type: 'file/blame',
+      requestId: `blame-${Date.now()}`,
+      payload: { sha: details.sha, path: change.path, status: change.status }
+    });
+  };
+
   const handleDiscard = (paths: string[]) => {
     vscode.postMessage({
       type: 'git/discard',
@@ -176,6 +198,11 @@ export const DetailsPane: React.FC<DetailsPaneProps> = ({ sha }) => {
 
   const isUncommitted = details?.sha === 'UNCOMMITTED';
   const allFilePaths = isUncommitted ? changes.map(c => c.path) : [];
+  // Rebases, amends and cherry-picks keep the author but record who (re)committed it, and when.
+  const committerIdentityDiffers = !!details?.committerName &&
+    (details.committerName !== details.authorName || details.committerEmail !== details.authorEmail);
+  const committerDiffers = committerIdentityDiffers ||
+    (!!details?.committerDateIso && details.committerDateIso !== details.authorDateIso);
   const hasExtendedMessage = !!details && !isUncommitted && details.message.trim() !== details.subject.trim();
   const fileTreeStateKey = details?.sha ? `details:${details.sha}` : 'details:';
   const collapsedFolders = collapsedFoldersByKey.get(fileTreeStateKey) ?? new Set<string>();
@@ -223,6 +250,7 @@ export const DetailsPane: React.FC<DetailsPaneProps> = ({ sha }) => {
   useEffect(() => {
     setShowFullMessage(false);
     setRevertSelectedPaths(new Set());
+    setLineSelectChange(null);
   }, [details?.sha]);
 
   // Clear stale uncommitted commit errors whenever the working tree changes.
@@ -272,8 +300,14 @@ export const DetailsPane: React.FC<DetailsPaneProps> = ({ sha }) => {
     };
   }, [commitError]);
 
-  const selectAll = () => setSelectedPaths(new Set(allFilePaths));
-  const clearSelection = () => setSelectedPaths(new Set());
+  const selectAll = () => {
+    setSelectedPaths(new Set(allFilePaths));
+    setLineSelections(new Map());
+  };
+  const clearSelection = () => {
+    setSelectedPaths(new Set());
+    setLineSelections(new Map());
+  };
   const toggleSelect = (path: string, selected: boolean) => {
     setSelectedPaths(prev => {
       const next = new Set(prev);
@@ -281,8 +315,34 @@ export const DetailsPane: React.FC<DetailsPaneProps> = ({ sha }) => {
       else next.delete(path);
       return next;
     });
+    // Toggling the checkbox always switches between the whole file and nothing.
+    setLineSelections(prev => {
+      if (!prev.has(path)) return prev;
+      const next = new Map(prev);
+      next.delete(path);
+      return next;
+    });
+  };
+
+  const applyLineSelection = (path: string, selection: LineSelection, allSelected: boolean) => {
+    const isPartial = selection.lineIds.size > 0 && !allSelected;
+    setSelectedPaths(prev => {
+      const next = new Set(prev);
+      if (selection.lineIds.size > 0) next.add(path);
+      else next.delete(path);
+      return next;
+    });
+    setLineSelections(prev => {
+      const next = new Map(prev);
+      if (isPartial) next.set(path, selection);
+      else next.delete(path);
+      return next;
+    });
+    setLineSelectChange(null);
   };
 
+  const partialPaths = useMemo(() => new Set(lineSelections.keys()), [lineSelections]);
+
   const toggleRevertSelect = (path: string, selected: boolean) => {
     setRevertSelectedPaths(prev => {
       const next = new Set(prev);
@@ -293,9 +353,12 @@ export const DetailsPane: React.FC<DetailsPaneProps> = ({ sha }) => {
   };
 
   const commitSelectionLabel = useMemo(() => {
-    if (selectedPaths.size > 0) return `Committing ${selectedPaths.size} selected file(s)`;
+    if (selectedPaths.size > 0) {
+      const partialCount = Array.from(partialPaths).filter(p => selectedPaths.has(p)).length;
+      return `Committing ${selectedPaths.size} selected file(s)${partialCount > 0 ? ` (${partialCount} partially)` : ''}`;
+    }
     return 'No files selected';
-  }, [selectedPaths.size]);
+  }, [selectedPaths, partialPaths]);
 
   const handleCommitClick = (e?: React.MouseEvent) => {
     const noVerify = !!e?.altKey;
@@ -333,6 +396,17 @@ export const DetailsPane: React.FC<DetailsPaneProps> = ({ sha }) => {
     return `${yyyy}-${mm}-${dd}`;
   };
 
+  if (isUncommitted && lineSelectChange) {
+    return (
+      <HunkSelector
+        change={lineSelectChange}
+        initialSelection={lineSelections.get(lineSelectChange.path)}
+        onApply={(selection, allSelected) => applyLineSelection(lineSelectChange.path, selection, allSelected)}
+        onClose={() => setLineSelectChange(null)}
+      />
+    );
+  }
+
   return (
     <div className={`details-pane ${hasCommitBox ? 'has-commit-box' : ''} ${isUncommitted ? 'uncommitted' : ''}`} style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
       {loading && !details ? (
@@ -382,8 +456,20 @@ export const DetailsPane: React.FC<DetailsPaneProps> = ({ sha }) => {
             {!isUncommitted && (
               <div className="meta">
                 <div style={{ marginBottom: '2px' }}>
+                  <Avatar name={details.authorName} email={details.authorEmail} />
                   <span style={{ fontWeight: 'bold' }}>{details.authorName}</span>
                   <span style={{ margin: '0 4px', opacity: 0.6 }}>&lt;{details.authorEmail}&gt;</span>
+                  {(() => {
+                    const signature = describeSignature(details.signature?.status);
+                    if (!signature) return null;
+                    const signedBy = [details.signature?.signer, details.signature?.key && `key ${details.signature.key}`].filter(Boolean).join(', ');
+                    return (
+                      <span className={`signature-badge ${signature.tone}`} title={signedBy ? `${signature.detail}\n${signedBy}` : signature.detail}>
+                        <span className={`codicon ${signature.icon}`} />
+                        {signature.label}
+                      </span>
+                    );
+                  })()}
                 </div>
                 <div style={{ opacity: 0.6 }}>
                   <span 
@@ -392,8 +478,20 @@ export const DetailsPane: React.FC<DetailsPaneProps> = ({ sha }) => {
                     onClick={copySha}
                   >
                     {details.sha.substring(0, 8)}
-                  </span> • {formatDateYYYYMMDD(details.authorDateIso)}
+                  </span> • <span title={`Authored ${details.authorDateIso}`}>{formatDateYYYYMMDD(details.authorDateIso)}</span>
                 </div>
+                {committerDiffers && (
+                  <div className="details-committer" title={`Committed ${details.committerDateIso}`}>
+                    Committed by{' '}
+                    {committerIdentityDiffers ? (
+                      <>
+                        <span style={{ fontWeight: 'bold' }}>{details.committerName}</span>
+                        <span style={{ margin: '0 4px', opacity: 0.8 }}>&lt;{details.committerEmail}&gt;</span>
+                      </>
+                    ) : 'the author '}
+                    • {formatDateYYYYMMDD(details.committerDateIso!)}
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -466,6 +564,27 @@ export const DetailsPane: React.FC<DetailsPaneProps> = ({ sha }) => {
                 </div>
               )
             )}
+            {!isUncommitted && details.trailers && details.trailers.length > 0 && (
+              <div className="details-trailers">
+                {details.trailers.map((trailer, i) => {
+                  const person = parsePerson(trailer.value);
+                  return (
+                    <div key={`${trailer.key}-${i}`} className="details-trailer">
+                      <span className="details-trailer-key">{trailer.key}</span>
+                      <span className="details-trailer-value" title={trailer.value}>
+                        {person ? (
+                          <>
+                            <Avatar name={person.name} email={person.email} />
+                            <span>{person.name || person.email}</span>
+                            {person.name && <span style={{ marginLeft: '4px', opacity: 0.6 }}>&lt;{person.email}&gt;</span>}
+                          </>
+                        ) : trailer.value}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
             <div className="changed-files-header">
               <div className="changed-files-title">Changed Files</div>
               {(isUncommitted || folderPathsForCurrentChanges.size > 0) && (
@@ -499,10 +618,15 @@ export const DetailsPane: React.FC<DetailsPaneProps> = ({ sha }) => {
               onRevealInOS={handleRevealInOS}
               onRevertCommitted={isUncommitted ? undefined : handleRevertCommitted}
               onDiscard={isUncommitted ? handleDiscard : undefined} 
+              onSelectLines={isUncommitted ? setLineSelectChange : undefined}
+              onBlame={handleBlame}
+              onShowHistory={onShowFileHistory ? (change) => onShowFileHistory(change.path) : undefined}
+              onOpenSubmodule={onOpenSubmodule ? (change) => onOpenSubmodule(change.path) : undefined}
               selectable={isUncommitted}
               multiSelect={!isUncommitted}
               selectedPaths={isUncommitted ? selectedPaths : revertSelectedPaths}
               onToggleSelect={isUncommitted ? toggleSelect : toggleRevertSelect}
+              partialPaths={isUncommitted ? partialPaths : undefined}
               collapsedFolders={collapsedFolders}
               onCollapsedFoldersChange={setCollapsedFolders}
             />
@@ -1,6 +1,7 @@
 import React, { useMemo, useEffect, useState } from 'react';
 import { Change } from '../../extension/protocol/types';
 import { iconTheme } from '../state/iconTheme';
+import { SubmoduleSummary } from './SubmoduleSummary';
 
 declare global {
   interface Window {
@@ -15,10 +16,20 @@ interface FileTreeProps {
   onRevealInOS?: (change: Change) => void;
   onRevertCommitted?: (changes: Change[]) => void;
   onDiscard?: (paths: string[]) => void;
+  /** Opens the file at this revision with blame annotations. */
+  onBlame?: (change: Change) => void;
+  /** Shows every commit that touched the file, in the graph. */
+  onShowHistory?: (change: Change) => void;
+  /** Opens the line picker for a modified file (uncommitted changes only). */
+  onSelectLines?: (change: Change) => void;
+  /** Switches the graph to a submodule. Clicking a submodule row shows its commit summary instead of opening it. */
+  onOpenSubmodule?: (change: Change) => void;
   selectable?: boolean;
   multiSelect?: boolean;
   selectedPaths?: Set<string>;
   onToggleSelect?: (path: string, selected: boolean) => void;
+  /** Selected files of which only some lines will be committed; their checkbox shows as mixed. */
+  partialPaths?: Set<string>;
   /**
    * Folder expansion state is modeled as a "collapsed set".
    * If a folder path is present in `collapsedFolders`, it is collapsed; otherwise it's expanded.
@@ -42,10 +53,15 @@ export const FileTree: React.FC<FileTreeProps> = ({
   onRevealInOS,
   onRevertCommitted,
   onDiscard,
+  onShowHistory,
+  onBlame,
+  onSelectLines,
+  onOpenSubmodule,
   selectable,
   multiSelect,
   selectedPaths,
   onToggleSelect,
+  partialPaths,
   collapsedFolders,
   onCollapsedFoldersChange
 }) => {
@@ -86,6 +102,17 @@ export const FileTree: React.FC<FileTreeProps> = ({
     return { root: rootNode, allPaths: paths };
   }, [changes]);
 
+  const [expandedSubmodules, setExpandedSubmodules] = useState<Set<string>>(() => new Set());
+
+  const toggleSubmodule = (path: string) => {
+    setExpandedSubmodules(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
   const [uncontrolledCollapsed, setUncontrolledCollapsed] = useState<Set<string>>(new Set());
   const isControlled = !!onCollapsedFoldersChange;
   const collapsed = collapsedFolders ?? uncontrolledCollapsed;
@@ -198,6 +225,12 @@ export const FileTree: React.FC<FileTreeProps> = ({
             }
             if (!currentNode.change) return;
 
+            // A submodule is another repository; there's no file content to open or diff.
+            if (currentNode.change.submodule) {
+              toggleSubmodule(currentNode.path);
+              return;
+            }
+
             // Multi-select mode (used for committed-file revert): click toggles selection and opens the file,
             // so the last clicked file is active in the editor.
             // Alt/Option toggles selection without opening.
@@ -230,12 +263,18 @@ export const FileTree: React.FC<FileTreeProps> = ({
                   className="file-select-checkbox"
                   type="checkbox"
                   checked={selectedPaths?.has(currentNode.path) ?? false}
-                  title={selectedPaths?.has(currentNode.path) ? 'Selected for commit' : 'Select for commit'}
+                  ref={el => { if (el) el.indeterminate = partialPaths?.has(currentNode.path) ?? false; }}
+                  title={partialPaths?.has(currentNode.path)
+                    ? 'Selected lines will be committed'
+                    : (selectedPaths?.has(currentNode.path) ? 'Selected for commit' : 'Select for commit')}
                   onClick={(e) => e.stopPropagation()}
                   onChange={(e) => onToggleSelect(currentNode.path, e.target.checked)}
                 />
               )}
               {(() => {
+                if (currentNode.change?.submodule) {
+                  return <span className="codicon codicon-file-submodule" title="Submodule" style={{ marginRight: '6px' }} />;
+                }
                 const icon = getFileIcon(node.name);
                 if (icon.kind === 'img') {
                   return (
@@ -263,7 +302,7 @@ export const FileTree: React.FC<FileTreeProps> = ({
 
           {!isFolder && currentNode.change && (
             <div className="file-actions">
-              {onSecondaryAction && (
+              {onSecondaryAction && !currentNode.change.submodule && (
                 <span 
                   className="codicon codicon-diff" 
                   title="Open Diff"
@@ -273,6 +312,36 @@ export const FileTree: React.FC<FileTreeProps> = ({
                   }}
                 />
               )}
+              {onShowHistory && currentNode.change.status !== '?' && (
+                <span
+                  className="codicon codicon-history"
+                  title="Show history"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onShowHistory(currentNode.change!);
+                  }}
+                />
+              )}
+              {onBlame && currentNode.change.status !== '?' && !currentNode.change.submodule && (
+                <span
+                  className="codicon codicon-person"
+                  title="Blame (annotate lines with their last commit)"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onBlame(currentNode.change!);
+                  }}
+                />
+              )}
+              {onSelectLines && currentNode.change.status === 'M' && !currentNode.change.submodule && (
+                <span
+                  className="codicon codicon-list-selection"
+                  title="Select lines to commit"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onSelectLines(currentNode.change!);
+                  }}
+                />
+              )}
               {onRevealInOS && (
                 <span
                   className="codicon codicon-folder"
@@ -318,6 +387,9 @@ export const FileTree: React.FC<FileTreeProps> = ({
             </div>
           )}
         </div>
+        {!isFolder && currentNode.change?.submodule && expandedSubmodules.has(currentNode.path) && (
+          <SubmoduleSummary change={currentNode.change} depth={depth} onOpen={onOpenSubmodule} />
+        )}
         {isFolder && isExpanded && (
           <div className="tree-children">
             {sortedChildren.map(child => renderNode(child, depth + 1))}
@@ -12,6 +12,7 @@ const GRAPH_OFFSET = 20;
 
 export const Graph: React.FC<GraphProps> = ({ commit }) => {
   const rowHeight = BASE_ROW_HEIGHT;
+  const isStash = !!commit.refs?.some(ref => ref.type === 'stash');
   return (
     <svg 
       width="100%"
@@ -77,15 +78,28 @@ export const Graph: React.FC<GraphProps> = ({ commit }) => {
         />
       )}
 
-      {/* Commit dot */}
-      <circle 
-        cx={commit.lane * LANE_WIDTH + GRAPH_OFFSET} 
-        cy={rowHeight/2} 
-        r={RADIUS} 
-        fill={commit.sha === 'UNCOMMITTED' ? 'none' : GraphLayout.getLaneColor(commit.colorLane)} 
-        stroke={GraphLayout.getLaneColor(commit.colorLane)}
-        strokeWidth={commit.sha === 'UNCOMMITTED' ? '2' : '1'}
-      />
+      {/* Commit dot (stashes get a square so they read as "not a commit on any branch") */}
+      {isStash ? (
+        <rect
+          x={commit.lane * LANE_WIDTH + GRAPH_OFFSET - RADIUS}
+          y={rowHeight/2 - RADIUS}
+          width={RADIUS * 2}
+          height={RADIUS * 2}
+          rx={1}
+          fill="none"
+          stroke={GraphLayout.getLaneColor(commit.colorLane)}
+          strokeWidth="2"
+        />
+      ) : (
+        <circle 
+          cx={commit.lane * LANE_WIDTH + GRAPH_OFFSET} 
+          cy={rowHeight/2} 
+          r={RADIUS} 
+          fill={commit.sha === 'UNCOMMITTED' ? 'none' : GraphLayout.getLaneColor(commit.colorLane)} 
+          stroke={GraphLayout.getLaneColor(commit.colorLane)}
+          strokeWidth={commit.sha === 'UNCOMMITTED' ? '2' : '1'}
+        />
+      )}
       {commit.sha === 'UNCOMMITTED' && (
         <circle 
           cx={commit.lane * LANE_WIDTH + GRAPH_OFFSET} 
@@ -0,0 +1,266 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { CommitPage, JournalEntry, ReflogEntry, RefComparison } from '../../extension/protocol/types';
+import { request } from '../state/vscode';
+import { formatAge } from '../state/time';
+import { PAGE_SIZE } from '../state/useCommits';
+
+interface HistoryPanelProps {
+  onClose: () => void;
+  onAction: <T = any>(type: string, payload: any) => Promise<T | undefined>;
+  /** Opens the compare pane for HEAD against an earlier position. */
+  onCompare: (left: string, right: string) => void;
+  onRevealCommit: (sha: string) => void;
+}
+
+const sectionTitleStyle: React.CSSProperties = {
+  fontWeight: 'bold',
+  fontSize: '11px',
+  color: 'var(--vscode-descriptionForeground)',
+  textTransform: 'uppercase',
+  letterSpacing: '0.05em',
+  padding: '16px 12px 8px 12px'
+};
+
+const short = (sha?: string) => (sha ? sha.substring(0, 8) : '');
+
+/** One line per ref the operation changed, e.g. "main 1a2b3c4d → 5e6f7a8b". */
+const describeEntry = (entry: JournalEntry): string[] => {
+  const lines: string[] = [];
+  if (entry.before.headBranch !== entry.after.headBranch) {
+    lines.push(`HEAD ${entry.before.headBranch ?? short(entry.before.headSha)} → ${entry.after.headBranch ?? short(entry.after.headSha)}`);
+  }
+  const names = new Set([...Object.keys(entry.before.branches), ...Object.keys(entry.after.branches)]);
+  for (const name of names) {
+    const before = entry.before.branches[name];
+    const after = entry.after.branches[name];
+    if (before === after) continue;
+    if (!before) lines.push(`${name} created at ${short(after)}`);
+    else if (!after) lines.push(`${name} deleted (was ${short(before)})`);
+    else lines.push(`${name} ${short(before)} → ${short(after)}`);
+  }
+  return lines;
+};
+
+/** What restoring a reflog entry would change, loaded when the entry is selected. */
+const ReflogPreview: React.FC<{ entry: ReflogEntry }> = ({ entry }) => {
+  const [comparison, setComparison] = useState<RefComparison | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setComparison(null);
+    setError(null);
+    request<RefComparison>('compare/refs', { left: 'HEAD', right: entry.sha, mode: 'two-dot' })
+      .then(result => { if (!cancelled) setComparison(result); })
+      .catch((err: any) => { if (!cancelled) setError(err.message); });
+    return () => { cancelled = true; };
+  }, [entry.sha]);
+
+  if (error) return <div className="history-preview" style={{ color: 'var(--vscode-errorForeground)' }}>{error}</div>;
+  if (!comparison) return <div className="history-preview" style={{ opacity: 0.6 }}>Loading...</div>;
+
+  const lost = comparison.leftOnly.length;
+  const regained = comparison.rightOnly.length;
+  return (
+    <div className="history-preview">
+      {lost === 0 && regained === 0 && comparison.changes.length === 0 ? (
+        <div>Same as the current HEAD.</div>
+      ) : (
+        <>
+          <div>
+            {lost}{comparison.leftOnlyHasMore ? '+' : ''} commit{lost === 1 ? '' : 's'} would leave HEAD
+            {' • '}
+            {regained}{comparison.rightOnlyHasMore ? '+' : ''} commit{regained === 1 ? '' : 's'} would come back
+            {' • '}
+            {comparison.changes.length} file{comparison.changes.length === 1 ? '' : 's'} differ
+          </div>
+          {comparison.rightOnly.slice(0, 5).map(commit => (
+            <div key={commit.sha} className="history-preview-commit">
+              <span className="history-preview-sign added">+</span>
+              <span className="history-sha">{short(commit.sha)}</span>
+              <span className="history-preview-subject">{commit.subject}</span>
+            </div>
+          ))}
+          {comparison.leftOnly.slice(0, 5).map(commit => (
+            <div key={commit.sha} className="history-preview-commit">
+              <span className="history-preview-sign removed">−</span>
+              <span className="history-sha">{short(commit.sha)}</span>
+              <span className="history-preview-subject">{commit.subject}</span>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ onClose, onAction, onCompare, onRevealCommit }) => {
+  const [journal, setJournal] = useState<JournalEntry[]>([]);
+  const [reflog, setReflog] = useState<ReflogEntry[]>([]);
+  const [reflogHasMore, setReflogHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+  // Reloads keep every reflog page already shown, like the commit list's reflog mode.
+  const reflogCountRef = useRef(0);
+  reflogCountRef.current = reflog.length;
+
+  const fetch = useCallback(async (silent = false) => {
+    if (!silent) setLoading(true);
+    try {
+      const [journalEntries, reflogPage] = await Promise.all([
+        request<JournalEntry[]>('journal/list', {}),
+        request<CommitPage>('commits/reflog', { limit: Math.max(PAGE_SIZE, reflogCountRef.current) })
+      ]);
+      setJournal(journalEntries);
+      setReflog(reflogPage.commits.map(c => c.reflog!));
+      setReflogHasMore(reflogPage.hasMore);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      if (!silent) setLoading(false);
+    }
+  }, []);
+
+  const loadMoreReflog = async () => {
+    setLoadingMore(true);
+    try {
+      const page = await request<CommitPage>('commits/reflog', { limit: PAGE_SIZE, skip: reflog.length });
+      setReflog(prev => [...prev, ...page.commits.map(c => c.reflog!)]);
+      setReflogHasMore(page.hasMore);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    fetch();
+  }, [fetch]);
+
+  useEffect(() => {
+    let timer: any;
+    const handler = (event: MessageEvent) => {
+      // The journal entry for an operation is written after the operation announces its repo change.
+      if (event.data?.type !== 'event/repoChanged' && event.data?.type !== 'event/journalChanged') return;
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        // Reflog positions shift with every HEAD move, so a selection would point at another entry.
+        setSelectedIndex(null);
+        fetch(true);
+      }, 250);
+    };
+    window.addEventListener('message', handler);
+    return () => {
+      window.removeEventListener('message', handler);
+      clearTimeout(timer);
+    };
+  }, [fetch]);
+
+  return (
+    <div className="history-panel" style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+      <div className="details-header" style={{ padding: '16px 16px 12px 16px', borderBottom: '1px solid var(--vscode-panel-border)' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '8px' }}>
+          <div style={{ minWidth: 0 }}>
+            <div style={{ fontWeight: 'bold', fontSize: '15px' }}>History</div>
+            <div style={{ fontSize: '11px', opacity: 0.6, marginTop: '4px' }}>
+              Undo GitBit operations or go back to any earlier HEAD position
+            </div>
+          </div>
+          <div style={{ display: 'flex', gap: '6px', flexShrink: 0 }}>
+            <button
+              className="toolbar-button commit-button"
+              style={{ width: 'auto', padding: '4px 12px' }}
+              title={journal.length > 0 ? `Undo "${journal[0].label}"` : 'No GitBit operation to undo'}
+              disabled={journal.length === 0}
+              onClick={() => onAction('git/undo', {})}
+            >
+              Undo Last
+            </button>
+            <button className="toolbar-button secondary" style={{ padding: '4px 12px' }} onClick={onClose}>
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+      <div className="details-body" style={{ flex: 1, overflowY: 'auto' }}>
+        {loading && journal.length === 0 && reflog.length === 0 && <div style={{ padding: '16px' }}>Loading...</div>}
+        {error && <div style={{ padding: '16px', color: 'var(--vscode-errorForeground)' }}>{error}</div>}
+
+        <div style={sectionTitleStyle}>GitBit Operations</div>
+        {journal.length === 0 ? (
+          <div style={{ padding: '0 12px 4px 12px', fontSize: '12px', opacity: 0.6 }}>
+            Operations that move branches (commit, squash, reset, rebase…) show up here during this session.
+          </div>
+        ) : (
+          journal.map((entry, i) => (
+            <div key={entry.id} className={`history-item ${i === 0 ? 'latest' : ''}`}>
+              <div className="history-item-title">
+                <span className="history-item-label">{entry.label}</span>
+                <span className="history-item-age">{formatAge(entry.timestamp / 1000)}</span>
+              </div>
+              {describeEntry(entry).map(line => (
+                <div key={line} className="history-item-detail">{line}</div>
+              ))}
+            </div>
+          ))
+        )}
+
+        <div style={sectionTitleStyle}>HEAD Reflog</div>
+        {reflog.length === 0 && !loading && (
+          <div style={{ padding: '0 12px 4px 12px', fontSize: '12px', opacity: 0.6 }}>No reflog entries</div>
+        )}
+        {reflog.map(entry => {
+          const selected = entry.index === selectedIndex;
+          return (
+            <div
+              key={entry.index}
+              className={`history-item reflog ${selected ? 'selected' : ''}`}
+              onClick={() => setSelectedIndex(selected ? null : entry.index)}
+            >
+              <div className="history-item-title">
+                <span className="history-sha">HEAD@{`{${entry.index}}`}</span>
+                <span className="history-sha">{short(entry.sha)}</span>
+                <span className="history-item-action" title={entry.action}>{entry.action}</span>
+                {entry.timestamp > 0 && <span className="history-item-age">{formatAge(entry.timestamp)}</span>}
+              </div>
+              {selected && (
+                <>
+                  <ReflogPreview entry={entry} />
+                  <div className="history-item-actions" onClick={(e) => e.stopPropagation()}>
+                    <button className="toolbar-button secondary" style={{ padding: '2px 8px' }} onClick={() => onRevealCommit(entry.sha)}>
+                      Show commit
+                    </button>
+                    <button className="toolbar-button secondary" style={{ padding: '2px 8px' }} onClick={() => onCompare('HEAD', entry.sha)}>
+                      Compare with HEAD
+                    </button>
+                    <button
+                      className="toolbar-button secondary"
+                      style={{ padding: '2px 8px' }}
+                      title="Move the current branch (or detached HEAD) back to this commit"
+                      disabled={entry.index === 0}
+                      onClick={() => onAction('git/reflogRestore', { sha: entry.sha })}
+                    >
+                      Restore
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          );
+        })}
+        {reflogHasMore && (
+          <div style={{ padding: '8px 12px 16px 12px' }}>
+            <button className="toolbar-button secondary" style={{ padding: '2px 8px' }} disabled={loadingMore} onClick={loadMoreReflog}>
+              {loadingMore ? 'Loading...' : 'Show older entries'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
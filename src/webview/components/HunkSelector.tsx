@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Change, DiffHunk, FileHunks } from '../../extension/protocol/types';
+import { request, vscode } from '../state/vscode';
+
+/** Lines of one file picked for the next commit; ids are `<hunkIndex>:<lineIndex>` into the diff `fingerprint` names. */
+export interface LineSelection {
+  fingerprint: string;
+  lineIds: Set<string>;
+}
+
+interface HunkSelectorProps {
+  change: Change;
+  /** Selection made earlier for this file; ignored if the file changed since. */
+  initialSelection?: LineSelection;
+  /** `allSelected` is true when every changed line is picked, i.e. the file can be committed whole. */
+  onApply: (selection: LineSelection, allSelected: boolean) => void;
+  onClose: () => void;
+}
+
+const changedLineIds = (hunk: DiffHunk, hunkIndex: number) =>
+  hunk.lines.flatMap((line, lineIndex) => (line.type === ' ' ? [] : [`${hunkIndex}:${lineIndex}`]));
+
+export const HunkSelector: React.FC<HunkSelectorProps> = ({ change, initialSelection, onApply, onClose }) => {
+  const [data, setData] = useState<FileHunks | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    request<FileHunks>('file/hunks', { path: change.path })
+      .then(result => {
+        if (cancelled) return;
+        setData(result);
+        // Start from the earlier selection if it still refers to this diff, otherwise from "everything".
+        setSelected(initialSelection && initialSelection.fingerprint === result.fingerprint
+          ? new Set(initialSelection.lineIds)
+          : new Set(result.hunks.flatMap(changedLineIds)));
+      })
+      .catch((err: any) => {
+        if (!cancelled) setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [change.path]);
+
+  const allIds = useMemo(() => (data ? data.hunks.flatMap(changedLineIds) : []), [data]);
+
+  const toggle = (ids: string[], on: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      for (const id of ids) {
+        if (on) next.add(id);
+        else next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const openDiff = () => {
+    vscode.postMessage({
+      type: 'file/diff',
+      requestId: `diff-${Date.now()}`,
+      payload: { base: 'HEAD', target: 'UNCOMMITTED', path: change.path, oldPath: change.oldPath, status: change.status }
+    });
+  };
+
+  const handleApply = () => {
+    if (!data) return;
+    onApply({ fingerprint: data.fingerprint, lineIds: selected }, selected.size === allIds.length);
+  };
+
+  return (
+    <div className="hunk-selector" style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+      <div className="details-header" style={{ padding: '16px 16px 12px 16px', borderBottom: '1px solid var(--vscode-panel-border)' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '8px' }}>
+          <div style={{ minWidth: 0 }}>
+            <div style={{ fontWeight: 'bold', fontSize: '15px' }}>Select Lines to Commit</div>
+            <div style={{ fontSize: '11px', opacity: 0.6, marginTop: '4px', wordBreak: 'break-all' }}>
+              {change.path}
+              {data && ` • ${selected.size} of ${allIds.length} changed lines`}
+            </div>
+          </div>
+          <div style={{ display: 'flex', gap: '6px', flexShrink: 0 }}>
+            <button className="toolbar-button secondary" style={{ padding: '4px 8px' }} title="Open Diff" onClick={openDiff}>
+              <span className="codicon codicon-git-compare" />
+            </button>
+            <button className="toolbar-button secondary" style={{ padding: '4px 12px' }} onClick={onClose}>
+              Cancel
+            </button>
+            <button
+              className="toolbar-button commit-button"
+              style={{ width: 'auto', padding: '4px 12px' }}
+              onClick={handleApply}
+              disabled={!data || data.binary || allIds.length === 0}
+            >
+              Use Selection
+            </button>
+          </div>
+        </div>
+      </div>
+      <div className="details-body" style={{ flex: 1, overflowY: 'auto' }}>
+        {loading && <div style={{ padding: '16px' }}>Loading changes...</div>}
+        {error && <div style={{ padding: '16px', color: 'var(--vscode-errorForeground)' }}>{error}</div>}
+        {data && data.binary && (
+          <div style={{ padding: '16px', opacity: 0.7 }}>Binary files can only be committed as a whole.</div>
+        )}
+        {data && !data.binary && data.hunks.length === 0 && (
+          <div style={{ padding: '16px', opacity: 0.7 }}>No changes against HEAD.</div>
+        )}
+        {data && !data.binary && data.hunks.map((hunk, hunkIndex) => {
+          const hunkIds = changedLineIds(hunk, hunkIndex);
+          const pickedCount = hunkIds.filter(id => selected.has(id)).length;
+          return (
+            <div key={hunkIndex} className="hunk">
+              <label className="hunk-header">
+                <input
+                  className="file-select-checkbox"
+                  type="checkbox"
+                  checked={pickedCount === hunkIds.length}
+                  ref={el => { if (el) el.indeterminate = pickedCount > 0 && pickedCount < hunkIds.length; }}
+                  onChange={(e) => toggle(hunkIds, e.target.checked)}
+                />
+                <span className="hunk-header-text">{hunk.header}</span>
+              </label>
+              <div className="hunk-lines">
+                {hunk.lines.map((line, lineIndex) => {
+                  const id = `${hunkIndex}:${lineIndex}`;
+                  const isChange = line.type !== ' ';
+                  const isPicked = selected.has(id);
+                  return (
+                    <div
+                      key={id}
+                      className={`hunk-line ${line.type === '+' ? 'added' : line.type === '-' ? 'removed' : 'context'} ${isChange && !isPicked ? 'unpicked' : ''}`}
+                      onClick={isChange ? () => toggle([id], !isPicked) : undefined}
+                    >
+                      <span className="hunk-line-check">
+                        {isChange && (
+                          <input
+                            className="file-select-checkbox"
+                            type="checkbox"
+                            checked={isPicked}
+                            onClick={(e) => e.stopPropagation()}
+                            onChange={(e) => toggle([id], e.target.checked)}
+                          />
+                        )}
+                      </span>
+                      <span className="hunk-line-sign">{line.type}</span>
+                      <span className="hunk-line-text">{line.text}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
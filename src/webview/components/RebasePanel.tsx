@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { RebaseAction, RebasePlan, RebaseTodoEntry } from '../../extension/protocol/types';
+import { RebaseTodo } from '../../extension/git/RebaseTodo';
+import { request } from '../state/vscode';
+
+interface RebasePanelProps {
+  shas: string[];
+  onExecute: (baseSha: string, entries: RebaseTodoEntry[]) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const ACTIONS: { value: RebaseAction; label: string; title: string }[] = [
+  { value: 'pick', label: 'pick', title: 'Keep the commit as is' },
+  { value: 'reword', label: 'reword', title: 'Keep the commit, change its message' },
+  { value: 'edit', label: 'edit', title: 'Stop after this commit so it can be amended' },
+  { value: 'squash', label: 'squash', title: 'Meld into the previous commit, combining messages' },
+  { value: 'fixup', label: 'fixup', title: 'Meld into the previous commit, keeping only its message' },
+  { value: 'drop', label: 'drop', title: 'Remove the commit' }
+];
+
+export const RebasePanel: React.FC<RebasePanelProps> = ({ shas, onExecute, onClose }) => {
+  const [plan, setPlan] = useState<RebasePlan | null>(null);
+  const [entries, setEntries] = useState<RebaseTodoEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    request<RebasePlan>('rebase/plan', { shas })
+      .then(data => {
+        if (cancelled) return;
+        setPlan(data);
+        setEntries(data.entries);
+      })
+      .catch((err: any) => {
+        if (!cancelled) setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [shas]);
+
+  const updateEntry = (index: number, patch: Partial<RebaseTodoEntry>) => {
+    setEntries(prev => prev.map((e, i) => (i === index ? { ...e, ...patch } : e)));
+  };
+
+  const moveEntry = (index: number, delta: number) => {
+    setEntries(prev => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const validationError = useMemo(() => (entries.length > 0 ? RebaseTodo.validate(entries) : null), [entries]);
+  const isUnchanged = !!plan && entries.every((e, i) => e.action === 'pick' && e.sha === plan.entries[i].sha);
+  const todoPreview = useMemo(() => RebaseTodo.format(entries), [entries]);
+
+  const handleStart = async () => {
+    if (!plan || validationError || isUnchanged) return;
+    setRunning(true);
+    try {
+      const ok = await onExecute(plan.baseSha, entries);
+      if (ok) onClose();
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="rebase-panel" style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+      <div className="details-header" style={{ padding: '16px 16px 12px 16px', borderBottom: '1px solid var(--vscode-panel-border)' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '8px' }}>
+          <div>
+            <div style={{ fontWeight: 'bold', fontSize: '15px' }}>Interactive Rebase</div>
+            <div style={{ fontSize: '11px', opacity: 0.6, marginTop: '4px' }}>
+              {plan ? `${entries.length} commits on ${plan.branch}, oldest first` : 'Preparing…'}
+            </div>
+          </div>
+          <div style={{ display: 'flex', gap: '6px' }}>
+            <button className="toolbar-button secondary" style={{ padding: '4px 12px' }} onClick={onClose}>
+              Cancel
+            </button>
+            <button
+              className="toolbar-button commit-button"
+              style={{ width: 'auto', padding: '4px 12px' }}
+              onClick={handleStart}
+              disabled={!plan || running || !!validationError || isUnchanged}
+              title={validationError || (isUnchanged ? 'Nothing to change' : 'Run the rebase')}
+            >
+              <span className={`codicon ${running ? 'codicon-loading codicon-modifier-spin' : 'codicon-git-pull-request'}`} />
+              Rebase
+            </button>
+          </div>
+        </div>
+      </div>
+      <div className="details-body" style={{ flex: 1, overflowY: 'auto' }}>
+        {loading && <div style={{ padding: '16px' }}>Loading commits...</div>}
+        {error && <div style={{ padding: '16px', color: 'var(--vscode-errorForeground)' }}>{error}</div>}
+        {plan && (
+          <>
+            <div className="rebase-entries">
+              {entries.map((entry, index) => (
+                <div key={entry.sha} className={`rebase-entry action-${entry.action}`}>
+                  <div className="rebase-entry-main">
+                    <select
+                      className="rebase-action-select"
+                      value={entry.action}
+                      onChange={(e) => {
+                        const action = e.target.value as RebaseAction;
+                        // Start rewording from the current subject rather than an empty box.
+                        updateEntry(index, action === 'reword' && entry.message === undefined ? { action, message: entry.subject } : { action });
+                      }}
+                      title={ACTIONS.find(a => a.value === entry.action)?.title}
+                    >
+                      {ACTIONS.map(a => (
+                        <option key={a.value} value={a.value} title={a.title}>{a.label}</option>
+                      ))}
+                    </select>
+                    <span className="rebase-entry-sha">{entry.sha.substring(0, 7)}</span>
+                    <span className="rebase-entry-subject" title={entry.subject}>{entry.subject}</span>
+                    <button
+                      className="rebase-move-button"
+                      title="Move up (runs earlier)"
+                      disabled={index === 0}
+                      onClick={() => moveEntry(index, -1)}
+                    >
+                      <span className="codicon codicon-arrow-up" />
+                    </button>
+                    <button
+                      className="rebase-move-button"
+                      title="Move down (runs later)"
+                      disabled={index === entries.length - 1}
+                      onClick={() => moveEntry(index, 1)}
+                    >
+                      <span className="codicon codicon-arrow-down" />
+                    </button>
+                  </div>
+                  {entry.action === 'reword' && (
+                    <textarea
+                      className="commit-message-input rebase-reword-input"
+                      placeholder="New commit message"
+                      value={entry.message ?? ''}
+                      onChange={(e) => updateEntry(index, { message: e.target.value })}
+                      rows={2}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+            {validationError && (
+              <div style={{ padding: '0 16px 8px 16px', fontSize: '12px', color: 'var(--vscode-errorForeground)' }}>
+                {validationError}
+              </div>
+            )}
+            <div style={{ padding: '16px 12px 8px 12px', fontWeight: 'bold', fontSize: '11px', color: 'var(--vscode-descriptionForeground)', textTransform: 'uppercase', letterSpacing: '0.05em' }}>
+              Todo Preview
+            </div>
+            <pre className="rebase-todo-preview">{todoPreview}</pre>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
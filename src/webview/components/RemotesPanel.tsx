@@ -0,0 +1,138 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Remote } from '../../extension/protocol/types';
+import { request } from '../state/vscode';
+
+interface RemotesPanelProps {
+  onClose: () => void;
+  onAction: <T = any>(type: string, payload: any) => Promise<T | undefined>;
+}
+
+export const RemotesPanel: React.FC<RemotesPanelProps> = ({ onClose, onAction }) => {
+  const [remotes, setRemotes] = useState<Remote[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fetching, setFetching] = useState<string | null>(null);
+
+  const fetch = useCallback(async (silent = false) => {
+    if (!silent) setLoading(true);
+    try {
+      setRemotes(await request<Remote[]>('remotes/list', {}));
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      if (!silent) setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetch();
+  }, [fetch]);
+
+  useEffect(() => {
+    let timer: any;
+    const handler = (event: MessageEvent) => {
+      if (event.data?.type !== 'event/repoChanged') return;
+      clearTimeout(timer);
+      timer = setTimeout(() => fetch(true), 250);
+    };
+    window.addEventListener('message', handler);
+    return () => {
+      window.removeEventListener('message', handler);
+      clearTimeout(timer);
+    };
+  }, [fetch]);
+
+  const fetchRemote = async (remote: Remote) => {
+    setFetching(remote.name);
+    try {
+      await onAction('git/fetchRemote', { name: remote.name });
+    } finally {
+      setFetching(null);
+    }
+  };
+
+  return (
+    <div className="remotes-panel" style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+      <div className="details-header" style={{ padding: '16px 16px 12px 16px', borderBottom: '1px solid var(--vscode-panel-border)' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '8px' }}>
+          <div style={{ minWidth: 0 }}>
+            <div style={{ fontWeight: 'bold', fontSize: '15px' }}>Remotes</div>
+            <div style={{ fontSize: '11px', opacity: 0.6, marginTop: '4px' }}>
+              {remotes.length} remote{remotes.length === 1 ? '' : 's'} configured
+            </div>
+          </div>
+          <div style={{ display: 'flex', gap: '6px', flexShrink: 0 }}>
+            <button
+              className="toolbar-button commit-button"
+              style={{ width: 'auto', padding: '4px 12px' }}
+              title="Add a remote"
+              onClick={() => onAction('git/remoteAdd', {})}
+            >
+              Add…
+            </button>
+            <button className="toolbar-button secondary" style={{ padding: '4px 12px' }} onClick={onClose}>
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+      <div className="details-body" style={{ flex: 1, overflowY: 'auto' }}>
+        {loading && remotes.length === 0 && <div style={{ padding: '16px' }}>Loading...</div>}
+        {error && <div style={{ padding: '16px', color: 'var(--vscode-errorForeground)' }}>{error}</div>}
+        {!loading && !error && remotes.length === 0 && (
+          <div style={{ padding: '16px', opacity: 0.6 }}>No remotes. Add one to fetch from and push to.</div>
+        )}
+        {remotes.map(remote => (
+          <div key={remote.name} className="worktree-item remote-item">
+            <div className="worktree-item-main">
+              <div className="worktree-item-title">
+                <span className="codicon codicon-cloud" />
+                <span className="worktree-item-name">{remote.name}</span>
+              </div>
+              <div className="remote-item-url" title={`${remote.fetchUrl}\nClick to edit`} onClick={() => onAction('git/remoteSetUrl', { name: remote.name })}>
+                <span className="remote-item-url-kind">fetch</span>
+                {remote.fetchUrl}
+              </div>
+              <div
+                className="remote-item-url"
+                title={`${remote.pushUrl}\nClick to edit`}
+                onClick={() => onAction('git/remoteSetUrl', { name: remote.name, push: true })}
+              >
+                <span className="remote-item-url-kind">push</span>
+                {remote.pushUrl === remote.fetchUrl ? <span style={{ opacity: 0.6 }}>same as fetch</span> : remote.pushUrl}
+              </div>
+            </div>
+            <div className="worktree-item-actions">
+              <button
+                className="toolbar-button secondary"
+                style={{ padding: '4px 8px' }}
+                title={`Fetch ${remote.name}`}
+                disabled={fetching !== null}
+                onClick={() => fetchRemote(remote)}
+              >
+                <span className={`codicon codicon-sync ${fetching === remote.name ? 'codicon-modifier-spin' : ''}`} />
+              </button>
+              <button
+                className="toolbar-button secondary"
+                style={{ padding: '4px 8px' }}
+                title="Rename remote"
+                onClick={() => onAction('git/remoteRename', { name: remote.name })}
+              >
+                <span className="codicon codicon-edit" />
+              </button>
+              <button
+                className="toolbar-button secondary"
+                style={{ padding: '4px 8px' }}
+                title="Remove remote"
+                onClick={() => onAction('git/remoteRemove', { name: remote.name })}
+              >
+                <span className="codicon codicon-trash" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { RepoOverview, RepoBulkResult } from '../../extension/protocol/types';
+import { request } from '../state/vscode';
+import { formatAge } from '../state/time';
+
+interface RepoOverviewPanelProps {
+  selectedRoot: string;
+  onClose: () => void;
+  /** Shows another repo in the graph. */
+  onSwitch: (root: string) => void;
+  onAction: <T = any>(type: string, payload: any) => Promise<T | undefined>;
+}
+
+export const RepoOverviewPanel: React.FC<RepoOverviewPanelProps> = ({ selectedRoot, onClose, onSwitch, onAction }) => {
+  const [repos, setRepos] = useState<RepoOverview[]>([]);
+  const [scanning, setScanning] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState<'fetch' | 'pull' | null>(null);
+  // Outcome of the last bulk action, by repo root.
+  const [results, setResults] = useState<Map<string, RepoBulkResult>>(() => new Map());
+
+  const fetch = useCallback(async (silent = false) => {
+    if (!silent) setLoading(true);
+    try {
+      const data = await request<{ repos: RepoOverview[]; scanning: boolean }>('repos/overview', {});
+      setRepos(data.repos);
+      setScanning(data.scanning);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      if (!silent) setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetch();
+  }, [fetch]);
+
+  useEffect(() => {
+    // Refresh when the shown repo changes or the background scan finds more repos.
+    let timer: any;
+    const handler = (event: MessageEvent) => {
+      if (event.data?.type !== 'event/repoChanged' && event.data?.type !== 'event/reposChanged') return;
+      clearTimeout(timer);
+      timer = setTimeout(() => fetch(true), 250);
+    };
+    window.addEventListener('message', handler);
+    return () => {
+      window.removeEventListener('message', handler);
+      clearTimeout(timer);
+    };
+  }, [fetch]);
+
+  const runBulk = async (kind: 'fetch' | 'pull') => {
+    setRunning(kind);
+    try {
+      const res = await onAction<RepoBulkResult[]>(kind === 'fetch' ? 'repos/fetchAll' : 'repos/pullAll', {
+        roots: repos.map(r => r.root)
+      });
+      if (res) setResults(new Map(res.map(r => [r.root, r])));
+      await fetch(true);
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const dirtyCount = repos.filter(r => r.hasUncommittedChanges).length;
+  const behindCount = repos.filter(r => (r.behind ?? 0) > 0).length;
+
+  return (
+    <div className="repo-overview-panel" style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+      <div className="details-header" style={{ padding: '16px 16px 12px 16px', borderBottom: '1px solid var(--vscode-panel-border)' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '8px' }}>
+          <div style={{ minWidth: 0 }}>
+            <div style={{ fontWeight: 'bold', fontSize: '15px' }}>Repositories</div>
+            <div style={{ fontSize: '11px', opacity: 0.6, marginTop: '4px' }}>
+              {repos.length} repo{repos.length === 1 ? '' : 's'}
+              {dirtyCount > 0 && ` • ${dirtyCount} with local changes`}
+              {behindCount > 0 && ` • ${behindCount} behind upstream`}
+              {scanning && ' • scanning…'}
+            </div>
+          </div>
+          <div style={{ display: 'flex', gap: '6px', flexShrink: 0 }}>
+            <button
+              className="toolbar-button secondary"
+              style={{ padding: '4px 12px' }}
+              title="Fetch all remotes in every repo"
+              disabled={!!running || repos.length === 0}
+              onClick={() => runBulk('fetch')}
+            >
+              {running === 'fetch' ? 'Fetching…' : 'Fetch All'}
+            </button>
+            <button
+              className="toolbar-button secondary"
+              style={{ padding: '4px 12px' }}
+              title="Fast-forward every repo to its upstream; repos that diverged are left alone"
+              disabled={!!running || repos.length === 0}
+              onClick={() => runBulk('pull')}
+            >
+              {running === 'pull' ? 'Pulling…' : 'Pull All (ff-only)'}
+            </button>
+            <button className="toolbar-button secondary" style={{ padding: '4px 12px' }} onClick={onClose}>
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+      <div className="details-body" style={{ flex: 1, overflowY: 'auto' }}>
+        {loading && repos.length === 0 && <div style={{ padding: '16px' }}>Loading...</div>}
+        {error && <div style={{ padding: '16px', color: 'var(--vscode-errorForeground)' }}>{error}</div>}
+        {repos.map(repo => {
+          const current = repo.root === selectedRoot;
+          const result = results.get(repo.root);
+          return (
+            <div
+              key={repo.root}
+              className={`repo-overview-item ${current ? 'current' : ''}`}
+              title={current ? repo.root : `${repo.root}\nClick to show in graph`}
+              onClick={() => { if (!current) onSwitch(repo.root); }}
+            >
+              <div className="repo-overview-item-title">
+                <span className={`codicon ${current ? 'codicon-pass-filled' : 'codicon-repo'}`} />
+                <span className="repo-overview-item-name">{repo.label}</span>
+                <span className="repo-overview-item-branch">{repo.currentBranch}</span>
+              </div>
+              <div className="repo-overview-item-detail">
+                {repo.upstream ? (
+                  <span className="repo-overview-badge" title={`Compared with ${repo.upstream}`}>
+                    ↑{repo.ahead} ↓{repo.behind}
+                  </span>
+                ) : (
+                  <span className="repo-overview-badge muted">no upstream</span>
+                )}
+                {repo.hasUncommittedChanges && <span className="repo-overview-badge dirty">changes</span>}
+                {repo.stashCount > 0 && (
+                  <span className="repo-overview-badge">{repo.stashCount} stash{repo.stashCount === 1 ? '' : 'es'}</span>
+                )}
+                <span className="repo-overview-fetched">
+                  {repo.lastFetchUnix ? `fetched ${formatAge(repo.lastFetchUnix)}` : 'never fetched'}
+                </span>
+              </div>
+              {result && result.status !== 'ok' && (
+                <div className={`repo-overview-result ${result.status}`} title={result.message}>
+                  {result.status === 'failed' ? 'Failed: ' : 'Skipped: '}
+                  {result.message?.split('\n').pop()}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
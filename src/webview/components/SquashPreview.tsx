@@ -6,9 +6,12 @@ import { FileTree } from './FileTree';
 interface SquashPreviewProps {
   shas: string[];
   commits: any[];
+  onShowFileHistory?: (path: string) => void;
+  /** Switches the graph to the submodule at this path. */
+  onOpenSubmodule?: (path: string) => void;
 }
 
-export const SquashPreview: React.FC<SquashPreviewProps> = ({ shas, commits }) => {
+export const SquashPreview: React.FC<SquashPreviewProps> = ({ shas, commits, onShowFileHistory, onOpenSubmodule }) => {
   const [changes, setChanges] = useState<Change[]>([]);
   const [loading, setLoading] = useState(false);
   const [rangeInfo, setRangeInfo] = useState<{ base: string, target: string } | null>(null);
@@ -192,6 +195,8 @@ export const SquashPreview: React.FC<SquashPreviewProps> = ({ shas, commits }) =
               onFileClick={handleFileClick} 
               onSecondaryAction={handleFileDiff}
               onRevealInOS={handleRevealInOS}
+              onShowHistory={onShowFileHistory ? (change) => onShowFileHistory(change.path) : undefined}
+              onOpenSubmodule={onOpenSubmodule ? (change) => onOpenSubmodule(change.path) : undefined}
               collapsedFolders={collapsedFolders}
               onCollapsedFoldersChange={setCollapsedFolders}
             />
@@ -0,0 +1,122 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Change, Stash } from '../../extension/protocol/types';
+import { request, vscode } from '../state/vscode';
+import { FileTree } from './FileTree';
+
+interface StashDetailsProps {
+  stash: Stash;
+  onAction: (type: 'git/stashApply' | 'git/stashPop' | 'git/stashDrop', stash: Stash) => void;
+}
+
+export const StashDetails: React.FC<StashDetailsProps> = ({ stash, onAction }) => {
+  const [changes, setChanges] = useState<Change[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [collapsedFolders, setCollapsedFolders] = useState<Set<string>>(() => new Set());
+
+  const fetch = useCallback(async (silent = false) => {
+    if (!silent) setLoading(true);
+    try {
+      const data = await request<Change[]>('stash/changes', { sha: stash.sha });
+      setChanges(data);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      if (!silent) setLoading(false);
+    }
+  }, [stash.sha]);
+
+  useEffect(() => {
+    setCollapsedFolders(new Set());
+    fetch();
+  }, [fetch]);
+
+  const handleFileDiff = (change: Change) => {
+    // Untracked files are stored in the stash's third parent; everything else diffs against the base commit.
+    const isUntracked = change.status === '?';
+    vscode.postMessage({
+      type: 'file/diff',
+      requestId: `diff-${Date.now()}`,
+      payload: {
+        base: `${stash.sha}^1`,
+        target: isUntracked ? `${stash.sha}^3` : stash.sha,
+        path: change.path,
+        oldPath: change.oldPath,
+        status: isUntracked ? 'A' : change.status
+      }
+    });
+  };
+
+  const handleRevealInOS = (change: Change) => {
+    vscode.postMessage({
+      type: 'file/revealInOS',
+      requestId: `reveal-${Date.now()}`,
+      payload: {
+        path: change.path,
+        oldPath: change.oldPath,
+        status: change.status
+      }
+    });
+  };
+
+  return (
+    <div className="stash-details" style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+      <div className="details-header" style={{ padding: '16px 16px 12px 16px', borderBottom: '1px solid var(--vscode-panel-border)' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '8px' }}>
+          <div style={{ minWidth: 0 }}>
+            <div style={{ fontWeight: 'bold', fontSize: '15px', wordBreak: 'break-word' }}>{stash.message}</div>
+            <div style={{ fontSize: '11px', opacity: 0.6, marginTop: '4px' }}>
+              {stash.ref} • on {stash.baseSha.substring(0, 8)} • {stash.authorDateIso.slice(0, 10)}
+            </div>
+          </div>
+          <div style={{ display: 'flex', gap: '6px', flexShrink: 0 }}>
+            <button
+              className="toolbar-button commit-button"
+              style={{ width: 'auto', padding: '4px 12px' }}
+              title="Apply the stash and remove it from the stash list"
+              onClick={() => onAction('git/stashPop', stash)}
+            >
+              Pop
+            </button>
+            <button
+              className="toolbar-button secondary"
+              style={{ padding: '4px 12px' }}
+              title="Apply the stash and keep it in the stash list"
+              onClick={() => onAction('git/stashApply', stash)}
+            >
+              Apply
+            </button>
+            <button
+              className="toolbar-button secondary"
+              style={{ padding: '4px 8px' }}
+              title="Drop stash"
+              onClick={() => onAction('git/stashDrop', stash)}
+            >
+              <span className="codicon codicon-trash" />
+            </button>
+          </div>
+        </div>
+      </div>
+      <div className="details-body" style={{ flex: 1, overflowY: 'auto' }}>
+        {error && <div style={{ padding: '16px', color: 'var(--vscode-errorForeground)' }}>{error}</div>}
+        {loading && changes.length === 0 ? (
+          <div style={{ padding: '16px' }}>Loading...</div>
+        ) : (
+          <>
+            <div style={{ padding: '16px 12px 8px 12px', fontWeight: 'bold', fontSize: '11px', color: 'var(--vscode-descriptionForeground)', textTransform: 'uppercase', letterSpacing: '0.05em' }}>
+              Stashed Changes
+            </div>
+            <FileTree
+              changes={changes}
+              onFileClick={handleFileDiff}
+              onRevealInOS={handleRevealInOS}
+              collapsedFolders={collapsedFolders}
+              onCollapsedFoldersChange={setCollapsedFolders}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React, { useState, useEffect } from 'react';
+import { Change, SubmoduleSummary as Summary } from '../../extension/protocol/types';
+import { request } from '../state/vscode';
+
+interface SubmoduleSummaryProps {
+  change: Change;
+  depth: number;
+  onOpen?: (change: Change) => void;
+}
+
+/** Submodule commits between the old and new pointer of a submodule change, shown under its row in FileTree. */
+export const SubmoduleSummary: React.FC<SubmoduleSummaryProps> = ({ change, depth, onOpen }) => {
+  const [summary, setSummary] = useState<Summary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const oldSha = change.submodule?.oldSha;
+  const newSha = change.submodule?.newSha;
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    request<Summary>('submodule/summary', { path: change.path, oldSha, newSha })
+      .then(result => { if (!cancelled) setSummary(result); })
+      .catch((err: any) => { if (!cancelled) setError(err.message); });
+    return () => { cancelled = true; };
+  }, [change.path, oldSha, newSha]);
+
+  const short = (sha?: string) => (sha ? sha.substring(0, 8) : '—');
+
+  return (
+    <div className="submodule-summary" style={{ paddingLeft: `${42 + depth * 12}px` }}>
+      <div className="submodule-summary-header">
+        <span>
+          {change.status === 'A' ? `Added at ${short(newSha ?? summary?.newSha)}`
+            : change.status === 'D' ? `Removed (was ${short(oldSha)})`
+            : `${short(oldSha)} → ${short(newSha ?? summary?.newSha)}`}
+        </span>
+        {onOpen && change.status !== 'D' && (
+          <button className="toolbar-button secondary" style={{ padding: '1px 8px' }} onClick={() => onOpen(change)}>
+            Open as repo
+          </button>
+        )}
+      </div>
+      {error && <div style={{ color: 'var(--vscode-errorForeground)' }}>{error}</div>}
+      {!summary && !error && <div style={{ opacity: 0.6 }}>Loading...</div>}
+      {summary && !summary.initialized && (
+        <div style={{ opacity: 0.6 }}>Submodule is not initialized; open it to clone it and see its commits.</div>
+      )}
+      {summary?.missingCommits && (
+        <div style={{ opacity: 0.6 }}>These commits aren't in the local submodule clone. Fetch it to see the summary.</div>
+      )}
+      {summary && summary.initialized && !summary.missingCommits && (
+        <>
+          {summary.added.map(commit => (
+            <div key={commit.sha} className="submodule-commit" title={`${commit.authorName} • ${commit.authorDateIso.slice(0, 10)}`}>
+              <span className="submodule-commit-sign added">+</span>
+              <span className="submodule-commit-sha">{commit.sha.substring(0, 8)}</span>
+              <span className="submodule-commit-subject">{commit.subject}</span>
+            </div>
+          ))}
+          {summary.removed.map(commit => (
+            <div key={commit.sha} className="submodule-commit" title={`${commit.authorName} • ${commit.authorDateIso.slice(0, 10)}`}>
+              <span className="submodule-commit-sign removed">−</span>
+              <span className="submodule-commit-sha">{commit.sha.substring(0, 8)}</span>
+              <span className="submodule-commit-subject">{commit.subject}</span>
+            </div>
+          ))}
+          {summary.added.length === 0 && summary.removed.length === 0 && (
+            <div style={{ opacity: 0.6 }}>No commit changes (only uncommitted changes inside the submodule).</div>
+          )}
+          {summary.hasMore && <div style={{ opacity: 0.6 }}>…and more</div>}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Worktree } from '../../extension/protocol/types';
+import { request, vscode } from '../state/vscode';
+
+interface WorktreePanelProps {
+  onClose: () => void;
+  /** Shows another worktree in the graph. */
+  onSwitch: (path: string) => void;
+  onAction: <T = any>(type: string, payload: any) => Promise<T | undefined>;
+}
+
+const baseName = (p: string) => p.split(/[\\/]/).filter(Boolean).pop() || p;
+
+export const WorktreePanel: React.FC<WorktreePanelProps> = ({ onClose, onSwitch, onAction }) => {
+  const [worktrees, setWorktrees] = useState<Worktree[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetch = useCallback(async (silent = false) => {
+    if (!silent) setLoading(true);
+    try {
+      setWorktrees(await request<Worktree[]>('worktrees/list', {}));
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      if (!silent) setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetch();
+  }, [fetch]);
+
+  useEffect(() => {
+    let timer: any;
+    const handler = (event: MessageEvent) => {
+      if (event.data?.type !== 'event/repoChanged') return;
+      clearTimeout(timer);
+      timer = setTimeout(() => fetch(true), 250);
+    };
+    window.addEventListener('message', handler);
+    return () => {
+      window.removeEventListener('message', handler);
+      clearTimeout(timer);
+    };
+  }, [fetch]);
+
+  const handleAdd = async () => {
+    try {
+      const ref = await request<string | null>('compare/pickRef', { title: 'New worktree from…' });
+      if (ref) await onAction('git/worktreeAdd', { ref });
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleRemove = async (worktree: Worktree) => {
+    const res = await onAction<{ switchTo?: string }>('git/worktreeRemove', { path: worktree.path });
+    if (res?.switchTo) onSwitch(res.switchTo);
+  };
+
+  const openInNewWindow = (worktree: Worktree) => {
+    vscode.postMessage({
+      type: 'worktree/openWindow',
+      requestId: `worktree-window-${Date.now()}`,
+      payload: { path: worktree.path }
+    });
+  };
+
+  return (
+    <div className="worktree-panel" style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+      <div className="details-header" style={{ padding: '16px 16px 12px 16px', borderBottom: '1px solid var(--vscode-panel-border)' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '8px' }}>
+          <div style={{ minWidth: 0 }}>
+            <div style={{ fontWeight: 'bold', fontSize: '15px' }}>Worktrees</div>
+            <div style={{ fontSize: '11px', opacity: 0.6, marginTop: '4px' }}>
+              {worktrees.length} working tree{worktrees.length === 1 ? '' : 's'} sharing this repository
+            </div>
+          </div>
+          <div style={{ display: 'flex', gap: '6px', flexShrink: 0 }}>
+            <button
+              className="toolbar-button commit-button"
+              style={{ width: 'auto', padding: '4px 12px' }}
+              title="Check out a branch or commit in a new worktree"
+              onClick={handleAdd}
+            >
+              New…
+            </button>
+            <button
+              className="toolbar-button secondary"
+              style={{ padding: '4px 12px' }}
+              title="Forget worktrees whose folders were deleted"
+              onClick={() => onAction('git/worktreePrune', {})}
+            >
+              Prune
+            </button>
+            <button className="toolbar-button secondary" style={{ padding: '4px 12px' }} onClick={onClose}>
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+      <div className="details-body" style={{ flex: 1, overflowY: 'auto' }}>
+        {loading && worktrees.length === 0 && <div style={{ padding: '16px' }}>Loading...</div>}
+        {error && <div style={{ padding: '16px', color: 'var(--vscode-errorForeground)' }}>{error}</div>}
+        {worktrees.map(worktree => (
+          <div key={worktree.path} className={`worktree-item ${worktree.current ? 'current' : ''} ${worktree.prunable ? 'prunable' : ''}`}>
+            <div className="worktree-item-main">
+              <div className="worktree-item-title">
+                <span className={`codicon ${worktree.current ? 'codicon-pass-filled' : 'codicon-folder'}`} />
+                <span className="worktree-item-name">{baseName(worktree.path)}</span>
+                {worktree.main && <span className="worktree-badge">main</span>}
+                {worktree.locked && (
+                  <span className="worktree-badge" title={typeof worktree.locked === 'string' ? worktree.locked : 'Locked'}>locked</span>
+                )}
+                {worktree.prunable && (
+                  <span className="worktree-badge warning" title={typeof worktree.prunable === 'string' ? worktree.prunable : 'Folder is missing'}>missing</span>
+                )}
+              </div>
+              <div className="worktree-item-detail" title={worktree.path}>
+                {worktree.bare
+                  ? 'bare repository'
+                  : worktree.branch
+                    ? worktree.branch
+                    : `detached at ${worktree.head.substring(0, 8)}`}
+                {' • '}
+                {worktree.path}
+              </div>
+            </div>
+            <div className="worktree-item-actions">
+              <button
+                className="toolbar-button secondary"
+                style={{ padding: '4px 8px' }}
+                title="Show in graph"
+                disabled={worktree.current || worktree.bare || !!worktree.prunable}
+                onClick={() => onSwitch(worktree.path)}
+              >
+                <span className="codicon codicon-git-commit" />
+              </button>
+              <button
+                className="toolbar-button secondary"
+                style={{ padding: '4px 8px' }}
+                title="Open in new window"
+                disabled={worktree.bare || !!worktree.prunable}
+                onClick={() => openInNewWindow(worktree)}
+              >
+                <span className="codicon codicon-empty-window" />
+              </button>
+              {!worktree.main && (
+                <button
+                  className="toolbar-button secondary"
+                  style={{ padding: '4px 8px' }}
+                  title="Remove worktree"
+                  onClick={() => handleRemove(worktree)}
+                >
+                  <span className="codicon codicon-trash" />
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
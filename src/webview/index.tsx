@@ -1,37 +1,72 @@
 import React, { useState, useCallback, useEffect, useRef, useLayoutEffect } from 'react';
 import { createRoot } from 'react-dom/client';
 import { useCommits } from './state/useCommits';
+import { useBisect } from './state/useBisect';
+import { useSignatures } from './state/useSignatures';
 import { CommitRow } from './components/CommitRow';
 import { DetailsPane } from './components/DetailsPane';
 import { SquashPreview } from './components/SquashPreview';
+import { RebasePanel } from './components/RebasePanel';
+import { StashDetails } from './components/StashDetails';
+import { ComparePanel, CompareTarget } from './components/ComparePanel';
+import { WorktreePanel } from './components/WorktreePanel';
+import { RepoOverviewPanel } from './components/RepoOverviewPanel';
+import { RemotesPanel } from './components/RemotesPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ConflictBanner } from './components/ConflictBanner';
+import { BisectBanner } from './components/BisectBanner';
 import { ContextMenu } from './components/ContextMenu';
 import { BranchSelector } from './components/BranchSelector';
 
 
 import { RepoSelector } from './components/RepoSelector';
 import { vscode, request } from './state/vscode';
-import { RepoInfo } from '../extension/protocol/types';
+import { RepoInfo, RepoList, RebaseTodoEntry, Stash, Change } from '../extension/protocol/types';
 import './styles/main.css';
 
+// How far "Show in GitBit" pages through history looking for a commit before giving up.
+const MAX_REVEAL_PAGES = 20;
+
 const App = () => {
   const { 
     commits, 
     maxLanes,
     branches, 
+    stashes,
     loading, 
+    loadingMore,
+    hasMore,
+    loadMore,
     error, 
     hasUncommitted,
     selectedBranch, 
     setSelectedBranch, 
     searchQuery,
     setSearchQuery,
+    searching,
+    searchMode,
+    setSearchMode,
+    searchMatches,
+    searchMatchesBelow,
+    fileHistoryPath,
+    fileHistoryChanges,
+    showFileHistory,
+    reflogMode,
+    showReflog,
     refresh 
   } = useCommits();
+  const { bisect, marks: bisectMarks } = useBisect();
+  const signatureStatuses = useSignatures(commits);
 
   // Dynamic graph width based on max lanes
   const graphWidth = Math.max(40, 20 + (maxLanes * 12) + 10); // min 40px, or based on lanes
 
   const currentBranchName = branches.find(b => b.current)?.name || 'HEAD';
+  const localBranchesByName = React.useMemo(
+    () => new Map(branches.filter(b => !b.remote).map(b => [b.name, b])),
+    [branches]
+  );
+  const stashBySha = React.useMemo(() => new Map(stashes.map(s => [s.sha, s])), [stashes]);
 
   // Commit list column widths (px). Persisted in webview state.
   const initialWebviewState = vscode.getState?.() || {};
@@ -71,6 +106,8 @@ const App = () => {
   const [selectedShas, setSelectedShas] = useState<string[]>([]);
   const [anchorSha, setAnchorSha] = useState<string | null>(null);
   const [activeSha, setActiveSha] = useState<string | null>(null);
+  // The reflog lists a commit once per HEAD movement, so its rows are selected by reflog index rather than sha.
+  const [selectedReflogIndex, setSelectedReflogIndex] = useState<number | null>(null);
   const [contextMenu, setContextMenu] = useState<{ sha: string, x: number, y: number } | null>(null);
   const hasInitiallySelected = useRef(false);
   const hadUncommittedRef = useRef<boolean | null>(null);
@@ -80,6 +117,11 @@ const App = () => {
   const [dropTargetSha, setDropTargetSha] = useState<string | null>(null);
   const [movePending, setMovePending] = useState(false);
   const [moveFailedShas, setMoveFailedShas] = useState<string[]>([]);
+  // Commits the interactive rebase panel was opened for (null when the panel is closed).
+  const [rebaseShas, setRebaseShas] = useState<string[] | null>(null);
+  const [compare, setCompare] = useState<CompareTarget | null>(null);
+  // List panels opened from the toolbar; they share the right pane with the compare pane.
+  const [sidePanel, setSidePanel] = useState<'worktrees' | 'repos' | 'remotes' | 'history' | null>(null);
   const commitListRef = useRef<HTMLDivElement>(null);
   const commitRowElsRef = useRef<Map<string, HTMLDivElement>>(new Map());
   const moveFlipPrevPositionsRef = useRef<Map<string, number> | null>(null);
@@ -115,11 +157,13 @@ const App = () => {
 
   const refreshRepos = useCallback(async () => {
     try {
-      const list = await request<RepoInfo[]>('repos/list');
+      const { repos: list, scanning } = await request<RepoList>('repos/list');
       setRepos(list);
 
       // If we don't have a saved selection (or it no longer exists), default to first repo.
-      if ((!selectedRepoRoot || !list.some(r => r.root === selectedRepoRoot)) && list.length > 0) {
+      // While nested repos are still being discovered, a missing saved repo may simply not have been found yet.
+      const selectionMissing = !selectedRepoRoot || (!scanning && !list.some(r => r.root === selectedRepoRoot));
+      if (selectionMissing && list.length > 0) {
         setSelectedRepoRoot(list[0].root);
       }
 
@@ -144,6 +188,15 @@ const App = () => {
     refreshRepos();
   }, [hasUncommitted, refreshRepos]);
 
+  // The host scans for nested repos in the background and announces each batch it finds.
+  useEffect(() => {
+    const handler = (event: MessageEvent) => {
+      if (event.data?.type === 'event/reposChanged') refreshRepos();
+    };
+    window.addEventListener('message', handler);
+    return () => window.removeEventListener('message', handler);
+  }, [refreshRepos]);
+
   useEffect(() => {
     vscode.setState?.({
       ...(vscode.getState?.() || {}),
@@ -151,6 +204,13 @@ const App = () => {
     });
   }, [selectedRepoRoot]);
 
+  useEffect(() => {
+    vscode.setState?.({
+      ...(vscode.getState?.() || {}),
+      searchMode
+    });
+  }, [searchMode]);
+
   useEffect(() => {
     if (!selectedRepoRoot) return;
     (async () => {
@@ -397,11 +457,32 @@ const App = () => {
     }
   }, [commits, anchorSha]);
 
+  const selectReflogRow = useCallback((index: number) => {
+    const row = commits.find(c => c.reflog?.index === index);
+    if (!row) return;
+    setSelectedReflogIndex(index);
+    handleSelect(row.sha, false, false);
+  }, [commits, handleSelect]);
+
+  useEffect(() => {
+    setSelectedReflogIndex(null);
+  }, [reflogMode]);
+
   const handleKeyboardNavigation = useCallback((e: KeyboardEvent) => {
     if (commits.length === 0) return;
     if (document.activeElement?.tagName === 'INPUT' || document.activeElement?.tagName === 'TEXTAREA') return;
 
-    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+    if ((e.key === 'ArrowDown' || e.key === 'ArrowUp') && reflogMode) {
+      e.preventDefault();
+      const currentIndex = commits.findIndex(c => c.reflog?.index === selectedReflogIndex);
+      const next = commits[Math.min(Math.max(currentIndex + (e.key === 'ArrowDown' ? 1 : -1), 0), commits.length - 1)];
+      if (!next?.reflog) return;
+      selectReflogRow(next.reflog.index);
+      setTimeout(() => {
+        const element = document.querySelector(`[data-reflog-index="${next.reflog!.index}"]`);
+        if (element) element.scrollIntoView({ block: 'center', behavior: 'auto' });
+      }, 0);
+    } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
       e.preventDefault();
       
       const currentSha = activeSha || anchorSha || (selectedShas.length > 0 ? selectedShas[0] : commits[0].sha);
@@ -423,7 +504,100 @@ const App = () => {
         }
       }, 0);
     }
-  }, [commits, activeSha, anchorSha, selectedShas, handleSelect]);
+  }, [commits, activeSha, anchorSha, selectedShas, handleSelect, reflogMode, selectedReflogIndex, selectReflogRow]);
+
+  // Highlight mode: step through matching rows in graph order. If there's no further match among the loaded rows,
+  // page in more history and retry once it arrives (see the pendingMatchJumpRef effect below), as long as a match is still out there.
+  const pendingMatchJumpRef = useRef<'next' | 'prev' | null>(null);
+  const jumpToMatch = useCallback((direction: 'next' | 'prev') => {
+    if (!searchMatches) return;
+    const currentSha = activeSha || anchorSha;
+    const currentIndex = currentSha ? commits.findIndex(c => c.sha === currentSha) : -1;
+    const step = direction === 'next' ? 1 : -1;
+
+    let index = currentIndex === -1 ? (direction === 'next' ? 0 : commits.length - 1) : currentIndex + step;
+    while (index >= 0 && index < commits.length && !searchMatches.has(commits[index].sha)) index += step;
+
+    if (index < 0 || index >= commits.length) {
+      if (direction === 'next' && hasMore && searchMatchesBelow) {
+        pendingMatchJumpRef.current = 'next';
+        loadMore();
+      } else {
+        pendingMatchJumpRef.current = null;
+      }
+      return;
+    }
+
+    pendingMatchJumpRef.current = null;
+    const sha = commits[index].sha;
+    handleSelect(sha, false, false);
+    setTimeout(() => {
+      const element = document.querySelector(`[data-sha="${sha}"]`);
+      if (element) element.scrollIntoView({ block: 'center', behavior: 'auto' });
+    }, 0);
+  }, [searchMatches, searchMatchesBelow, activeSha, anchorSha, commits, hasMore, loadMore, handleSelect]);
+
+  useEffect(() => {
+    const pending = pendingMatchJumpRef.current;
+    if (!pending || loadingMore) return;
+    if (!searchMatches) {
+      pendingMatchJumpRef.current = null;
+      return;
+    }
+    jumpToMatch(pending);
+  }, [commits, loadingMore, searchMatches, jumpToMatch]);
+
+  // "Show in GitBit" from blame (and commits picked in the compare pane): page in history until the commit shows up, then select it.
+  const pendingRevealRef = useRef<{ sha: string; pagesLeft: number } | null>(null);
+  const [revealRequest, setRevealRequest] = useState(0);
+
+  const revealCommit = useCallback((sha: string) => {
+    // The commit may be hidden by a search, file history or the reflog; show the full graph.
+    showFileHistory(null);
+    showReflog(false);
+    setSearchQuery('');
+    pendingRevealRef.current = { sha, pagesLeft: MAX_REVEAL_PAGES };
+    setRevealRequest(n => n + 1);
+  }, [showFileHistory, showReflog, setSearchQuery]);
+
+  useEffect(() => {
+    const handler = (event: MessageEvent) => {
+      const msg = event.data;
+      if (msg?.type !== 'event/revealCommit') return;
+      const root = String(msg.payload?.root || '');
+      const sha = String(msg.payload?.sha || '');
+      if (!sha) return;
+      if (root && root !== selectedRepoRoot) setSelectedRepoRoot(root);
+      revealCommit(sha);
+    };
+    window.addEventListener('message', handler);
+    return () => window.removeEventListener('message', handler);
+  }, [selectedRepoRoot, revealCommit]);
+
+  useEffect(() => {
+    const pending = pendingRevealRef.current;
+    if (!pending || loading || loadingMore) return;
+    if (commits.some(c => c.sha === pending.sha)) {
+      pendingRevealRef.current = null;
+      handleSelect(pending.sha, false, false);
+      setTimeout(() => {
+        const element = document.querySelector(`[data-sha="${pending.sha}"]`);
+        if (element) element.scrollIntoView({ block: 'center', behavior: 'auto' });
+      }, 0);
+      return;
+    }
+    if (hasMore && pending.pagesLeft > 0) {
+      pending.pagesLeft--;
+      loadMore();
+    } else {
+      pendingRevealRef.current = null;
+    }
+  }, [commits, loading, loadingMore, hasMore, loadMore, handleSelect, revealRequest]);
+
+  const matchCount = React.useMemo(() => {
+    if (!searchMatches) return null;
+    return commits.reduce((n, c) => n + (searchMatches.has(c.sha) ? 1 : 0), 0);
+  }, [commits, searchMatches]);
 
   const cancelMoveMode = useCallback(() => {
     setMoveMode(false);
@@ -438,6 +612,11 @@ const App = () => {
         cancelMoveMode();
         return;
       }
+      if (e.key === 'F3' && searchMatches) {
+        e.preventDefault();
+        jumpToMatch(e.shiftKey ? 'prev' : 'next');
+        return;
+      }
       handleKeyboardNavigation(e);
     };
     const handleKeyUp = (e: KeyboardEvent) => {
@@ -453,7 +632,7 @@ const App = () => {
       window.removeEventListener('keyup', handleKeyUp);
       window.removeEventListener('blur', () => setIsOptionPressed(false));
     };
-  }, [handleKeyboardNavigation, moveMode, cancelMoveMode]);
+  }, [handleKeyboardNavigation, moveMode, cancelMoveMode, searchMatches, jumpToMatch]);
 
   // Allow extension host to cancel move mode (equivalent to pressing Escape).
   useEffect(() => {
@@ -467,6 +646,34 @@ const App = () => {
     return () => window.removeEventListener('message', handler);
   }, [moveMode, cancelMoveMode]);
 
+  // "Show File History" from an editor or the explorer; the file may live in another repo than the one shown.
+  useEffect(() => {
+    const handler = (event: MessageEvent) => {
+      const msg = event.data;
+      if (msg?.type !== 'event/showFileHistory') return;
+      const root = String(msg.payload?.root || '');
+      const path = String(msg.payload?.path || '');
+      if (root && root !== selectedRepoRoot) setSelectedRepoRoot(root);
+      if (path) showFileHistory(path);
+    };
+    window.addEventListener('message', handler);
+    return () => window.removeEventListener('message', handler);
+  }, [selectedRepoRoot, showFileHistory]);
+
+  const openFileHistoryDiff = useCallback((commit: { sha: string; parents: string[] }, change: Change) => {
+    vscode.postMessage({
+      type: 'file/diff',
+      requestId: `diff-${Date.now()}`,
+      payload: {
+        base: commit.parents.length > 0 ? `${commit.sha}^` : '4b825dc642cb6eb9a060e54bf8d69288fbee4904',
+        target: commit.sha,
+        path: change.path,
+        oldPath: change.oldPath,
+        status: change.status
+      }
+    });
+  }, []);
+
   // Tell extension host when move mode is active so it can cancel on outside clicks.
   useEffect(() => {
     const requestId = `ui-moveMode-${Date.now()}-${Math.random().toString(16).slice(2)}`;
@@ -501,6 +708,61 @@ const App = () => {
     }
   };
 
+  // Toolbar panels and the compare pane share the right pane; whichever was opened last wins.
+  useEffect(() => {
+    if (compare) setSidePanel(null);
+  }, [compare]);
+
+  const toggleSidePanel = (panel: 'worktrees' | 'repos' | 'remotes' | 'history') => {
+    setCompare(null);
+    setSidePanel(current => (current === panel ? null : panel));
+  };
+
+  const switchToRepo = (root: string) => {
+    showFileHistory(null);
+    showReflog(false);
+    setSelectedRepoRoot(root);
+    // New worktrees and opened submodules aren't in the repo dropdown yet.
+    refreshRepos();
+  };
+
+  const openSubmodule = async (subPath: string) => {
+    try {
+      const res = await request<{ root: string }>('submodule/open', { path: subPath });
+      switchToRepo(res.root);
+    } catch {
+      // Errors are handled by the extension host showing messages
+    }
+  };
+
+  const addWorktree = async (ref: string) => {
+    const res = await gitAction<{ path: string }>('git/worktreeAdd', { ref });
+    if (res) {
+      setCompare(null);
+      setSidePanel('worktrees');
+    }
+  };
+
+  /** Asks the host for the other side of a comparison, then opens the compare pane with `right` on the right. */
+  const compareWith = async (right: string) => {
+    try {
+      const left = await request<string | null>('compare/pickRef', { exclude: right, title: `Compare ${/^[0-9a-f]{40}$/.test(right) ? right.substring(0, 8) : right} with…` });
+      if (left) setCompare({ left, right, mode: 'two-dot' });
+    } catch {
+      // Picking only fails on an unexpected host error, which the host logs to the output channel.
+    }
+  };
+
+  const stashAction = async (type: 'git/stashApply' | 'git/stashPop' | 'git/stashDrop', stash: Stash) => {
+    const res = await gitAction(type, { ref: stash.ref, sha: stash.sha, message: stash.message });
+    if (res === undefined) return;
+    // The stash row is gone (pop/drop) or its changes are now in the working tree (apply): follow them.
+    const next = type === 'git/stashDrop' ? stash.baseSha : 'UNCOMMITTED';
+    setSelectedShas([next]);
+    setAnchorSha(next);
+    setActiveSha(next);
+  };
+
   const beginMoveDrag = useCallback((sha: string) => {
     // If the user drags a non-selected commit, treat it as single-select.
     const cleanSelected = selectedShas.filter(s => s && s !== 'UNCOMMITTED');
@@ -722,6 +984,43 @@ const App = () => {
                 ? (isOptionPressed ? 'Force Pushing…' : 'Pushing…')
                 : (isOptionPressed ? 'Force Push' : 'Push')}
             </button>
+            <button
+              className={`toolbar-button secondary ${sidePanel === 'worktrees' ? 'active' : ''}`}
+              onClick={() => toggleSidePanel('worktrees')}
+              title="Worktrees"
+            >
+              <span className="codicon codicon-repo-clone" />
+            </button>
+            <button
+              className={`toolbar-button secondary ${sidePanel === 'history' ? 'active' : ''}`}
+              onClick={() => toggleSidePanel('history')}
+              title="Undo history and reflog"
+            >
+              <span className="codicon codicon-history" />
+            </button>
+            <button
+              className={`toolbar-button secondary ${reflogMode ? 'active' : ''}`}
+              onClick={() => showReflog(!reflogMode)}
+              title={reflogMode ? 'Show the full graph' : 'Show every HEAD movement (git reflog) in the commit list'}
+            >
+              <span className="codicon codicon-list-flat" />
+            </button>
+            <button
+              className={`toolbar-button secondary ${sidePanel === 'remotes' ? 'active' : ''}`}
+              onClick={() => toggleSidePanel('remotes')}
+              title="Remotes"
+            >
+              <span className="codicon codicon-remote" />
+            </button>
+            {repos.length > 1 && (
+              <button
+                className={`toolbar-button secondary ${sidePanel === 'repos' ? 'active' : ''}`}
+                onClick={() => toggleSidePanel('repos')}
+                title="Overview of all repositories"
+              >
+                <span className="codicon codicon-repo" />
+              </button>
+            )}
           </div>
 
           <RepoSelector
@@ -729,7 +1028,11 @@ const App = () => {
             className="repo-switcher"
             repos={repos}
             selectedRoot={selectedRepoRoot}
-            onSelect={setSelectedRepoRoot}
+            onSelect={(root) => {
+              showFileHistory(null);
+              showReflog(false);
+              setSelectedRepoRoot(root);
+            }}
             onOpen={refreshRepos}
           />
           <BranchSelector 
@@ -744,10 +1047,25 @@ const App = () => {
             onHoverAction={(action, branch) => {
               if (action === 'checkout') {
                 gitAction('git/checkout', { sha: branch.name });
+              } else if (action === 'openWorktree' && branch.worktree) {
+                switchToRepo(branch.worktree);
+              } else if (action === 'addWorktree') {
+                addWorktree(branch.name);
               } else if (action === 'rebase') {
                 gitAction('git/rebase', { onto: branch.name });
+              } else if (action === 'merge') {
+                gitAction('git/merge', { ref: branch.name });
+              } else if (action === 'compare') {
+                // What the branch would bring into the current one.
+                setCompare({ left: currentBranchName, right: branch.name, mode: 'three-dot' });
               } else if (action === 'rename') {
                 gitAction('git/branchRename', { name: branch.name });
+              } else if (action === 'setUpstream') {
+                gitAction('git/branchSetUpstream', { name: branch.name });
+              } else if (action === 'unsetUpstream') {
+                gitAction('git/branchUnsetUpstream', { name: branch.name });
+              } else if (action === 'deleteGone') {
+                gitAction('git/deleteGoneBranches', {});
               } else if (action === 'delete') {
                 gitAction('git/branchDelete', { name: branch.name });
               }
@@ -764,17 +1082,64 @@ const App = () => {
               ref={searchInputRef}
               type="text" 
               className="search-input" 
-              placeholder="Search message, hash..." 
+              placeholder="Search (author: path: since: until: content:)" 
+              title="Free text matches commit messages. Filters: author:name path:dir/ since:2w until:2024-01-31 content:text"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && searchMatches) {
+                  e.preventDefault();
+                  jumpToMatch(e.shiftKey ? 'prev' : 'next');
+                }
+              }}
               style={searchWidthPx ? { width: `${searchWidthPx}px` } : undefined}
             />
             {searchQuery && (
               <span className="search-clear" onClick={() => setSearchQuery('')}>&times;</span>
             )}
           </div>
+          <button
+            className={`search-mode-toggle ${searchMode === 'highlight' ? 'active' : ''}`}
+            title={searchMode === 'highlight'
+              ? 'Highlighting matches in the full graph (click to show only matches)'
+              : 'Showing only matches (click to highlight matches in the full graph)'}
+            onClick={() => setSearchMode(searchMode === 'highlight' ? 'filter' : 'highlight')}
+          >
+            {searchMode === 'highlight' ? 'Highlight' : 'Filter'}
+          </button>
+          {searchMatches && searchQuery.trim() && (
+            <div className="search-match-nav">
+              <span className="search-match-count">{searching ? '…' : `${matchCount}${hasMore ? '+' : ''}`}</span>
+              <button title="Previous match (Shift+Enter / Shift+F3)" onClick={() => jumpToMatch('prev')}>&uarr;</button>
+              <button title="Next match (Enter / F3)" onClick={() => jumpToMatch('next')}>&darr;</button>
+            </div>
+          )}
         </div>
       </div>
+      <ConflictBanner onAction={gitAction} />
+      <BisectBanner bisect={bisect} onAction={gitAction} onRevealCommit={revealCommit} />
+      {fileHistoryPath && (
+        <div className="file-history-bar">
+          <span className="codicon codicon-history" />
+          <span className="file-history-title">
+            History of <span className="file-history-path" title={fileHistoryPath}>{fileHistoryPath}</span>
+          </span>
+          <span className="file-history-hint">including renames</span>
+          <button className="toolbar-button secondary" onClick={() => showFileHistory(null)}>
+            Show full graph
+          </button>
+        </div>
+      )}
+      {reflogMode && (
+        <div className="file-history-bar">
+          <span className="codicon codicon-list-flat" />
+          <span className="file-history-title">Reflog of HEAD</span>
+          <span className="file-history-hint">every checkout, commit, reset and rebase, newest first</span>
+          <button className="toolbar-button secondary" onClick={() => showReflog(false)}>
+            Show full graph
+          </button>
+        </div>
+      )}
       <div className="main-content" ref={mainContentRef}>
         <div className="left-pane" ref={leftPaneRef} style={{ width: `${ratio * 100}%`, flex: 'none' }}>
           <div style={{ width: 'fit-content', minWidth: '100%', display: 'flex', flexDirection: 'column', height: '100%' }}>
@@ -796,8 +1161,28 @@ const App = () => {
               </div>
               <div className="header-cell">Message</div>
             </div>
-            <div className="commit-list" ref={commitListRef}>
+            <div
+              className="commit-list"
+              ref={commitListRef}
+              onScroll={(e) => {
+                // Page in older history once the user gets close to the bottom of what's loaded.
+                if (!hasMore || loadingMore) return;
+                const el = e.currentTarget;
+                const remaining = el.scrollHeight - el.scrollTop - el.clientHeight;
+                if (remaining < el.clientHeight) loadMore();
+              }}
+            >
               {loading && commits.length === 0 && <div style={{ padding: '10px' }}>Loading...</div>}
+              {searchQuery.trim() && !searchMatches && searching && commits.length === 0 && <div style={{ padding: '10px' }}>Searching...</div>}
+              {searchQuery.trim() && !searchMatches && !searching && !error && commits.length === 0 && (
+                <div style={{ padding: '10px', opacity: 0.7 }}>No matching commits</div>
+              )}
+              {fileHistoryPath && !loading && !error && commits.length === 0 && (
+                <div style={{ padding: '10px', opacity: 0.7 }}>No commits touched this file</div>
+              )}
+              {reflogMode && !loading && !error && commits.length === 0 && (
+                <div style={{ padding: '10px', opacity: 0.7 }}>The reflog is empty</div>
+              )}
               {error && <div style={{ padding: '10px', color: 'var(--vscode-errorForeground)' }}>{error}</div>}
               {(() => {
                 const gapCss = 'calc(var(--row-height) * 3)';
@@ -830,11 +1215,22 @@ const App = () => {
                   return [
                     slot,
                 <CommitRow 
-                  key={commit.sha}
+                  key={commit.reflog ? `reflog-${commit.reflog.index}` : commit.sha}
                   commit={commit}
-                  isSelected={selectedShas.includes(commit.sha)}
-                  onSelect={handleSelect}
-                  onContextMenu={handleContextMenu}
+                  isSelected={commit.reflog ? commit.reflog.index === selectedReflogIndex : selectedShas.includes(commit.sha)}
+                  isDimmed={!!searchMatches && !searchMatches.has(commit.sha)}
+                  bisectMark={bisectMarks.get(commit.sha)}
+                  signatureStatus={signatureStatuses.get(commit.sha)}
+                  fileChange={fileHistoryPath ? fileHistoryChanges[commit.sha] : undefined}
+                  branchesByName={localBranchesByName}
+                  onOpenFileDiff={fileHistoryPath ? openFileHistoryDiff : undefined}
+                  onSelect={commit.reflog ? () => selectReflogRow(commit.reflog!.index) : handleSelect}
+                  onContextMenu={commit.reflog
+                    ? (sha, x, y) => {
+                      selectReflogRow(commit.reflog!.index);
+                      setContextMenu({ sha, x, y });
+                    }
+                    : handleContextMenu}
                       onDiscardAllUncommitted={commit.sha === 'UNCOMMITTED' ? (() => gitAction('git/discardAll', {})) : undefined}
                       rowRef={(el) => {
                         const map = commitRowElsRef.current;
@@ -860,6 +1256,9 @@ const App = () => {
                   ].filter(Boolean) as any[];
                 });
               })()}
+              {loadingMore && (
+                <div className="commit-list-loading-more">Loading more commits…</div>
+              )}
               {moveMode && (
                 <div
                   className={`commit-drop-end ${dropTargetSha === '__END__' ? 'drop-target' : ''}`}
@@ -900,10 +1299,61 @@ const App = () => {
                 Press <span style={{ fontFamily: 'monospace' }}>Esc</span> to exit.
               </div>
             </div>
+          ) : rebaseShas ? (
+            <RebasePanel
+              shas={rebaseShas}
+              onClose={() => setRebaseShas(null)}
+              onExecute={async (baseSha: string, entries: RebaseTodoEntry[]) => {
+                const res = await gitAction<{ newHead?: string; stopped?: boolean }>('git/interactiveRebase', { baseSha, entries });
+                if (!res) return false;
+                if (res.newHead) {
+                  setSelectedShas([res.newHead]);
+                  setAnchorSha(res.newHead);
+                  setActiveSha(res.newHead);
+                }
+                return true;
+              }}
+            />
+          ) : sidePanel === 'worktrees' ? (
+            <WorktreePanel
+              onClose={() => setSidePanel(null)}
+              onSwitch={switchToRepo}
+              onAction={gitAction}
+            />
+          ) : sidePanel === 'history' ? (
+            <HistoryPanel
+              onClose={() => setSidePanel(null)}
+              onAction={gitAction}
+              onCompare={(left, right) => setCompare({ left, right, mode: 'two-dot' })}
+              onRevealCommit={revealCommit}
+            />
+          ) : sidePanel === 'remotes' ? (
+            <RemotesPanel onClose={() => setSidePanel(null)} onAction={gitAction} />
+          ) : sidePanel === 'repos' ? (
+            <RepoOverviewPanel
+              selectedRoot={selectedRepoRoot}
+              onClose={() => setSidePanel(null)}
+              onSwitch={switchToRepo}
+              onAction={gitAction}
+            />
+          ) : compare ? (
+            <ComparePanel
+              target={compare}
+              onChange={setCompare}
+              onClose={() => setCompare(null)}
+              onRevealCommit={(sha) => {
+                setCompare(null);
+                revealCommit(sha);
+              }}
+              onShowFileHistory={showFileHistory}
+              onOpenSubmodule={openSubmodule}
+            />
+          ) : selectedShas.length === 1 && stashBySha.has(selectedShas[0]) ? (
+            <StashDetails stash={stashBySha.get(selectedShas[0])!} onAction={stashAction} />
           ) : selectedShas.length === 1 ? (
-            <DetailsPane sha={selectedShas[0]} />
+            <DetailsPane sha={selectedShas[0]} onShowFileHistory={showFileHistory} onOpenSubmodule={openSubmodule} />
           ) : selectedShas.length > 1 ? (
-            <SquashPreview shas={selectedShas} commits={commits} />
+            <SquashPreview shas={selectedShas} commits={commits} onShowFileHistory={showFileHistory} onOpenSubmodule={openSubmodule} />
           ) : (
             <div style={{ padding: '16px', opacity: 0.6 }}>
               Select a commit to see details
@@ -918,8 +1368,40 @@ const App = () => {
           onClose={() => setContextMenu(null)}
           actions={[
             ...(() => {
+              // Reflog rows may point at commits that no branch contains any more, so only offer ways to get them back.
+              if (reflogMode) {
+                const sha = contextMenu.sha;
+                return [
+                  {
+                    label: 'New Branch…',
+                    icon: 'codicon-git-branch-create',
+                    primary: true,
+                    onClick: async () => { await gitAction('git/branchCreate', { sha }); }
+                  },
+                  {
+                    label: 'Checkout commit',
+                    icon: 'codicon-git-branch',
+                    tone: 'warning' as const,
+                    onClick: async () => { await gitAction('git/checkout', { sha }); }
+                  },
+                  {
+                    label: 'Compare with Working Tree',
+                    icon: 'codicon-diff-multiple',
+                    onClick: () => setCompare({ left: sha, right: 'UNCOMMITTED', mode: 'two-dot' })
+                  },
+                  { separator: true },
+                  {
+                    label: 'Restore HEAD to here…',
+                    icon: 'codicon-discard',
+                    onClick: async () => { await gitAction('git/reflogRestore', { sha }); }
+                  },
+                  { label: 'Reset Soft', icon: 'codicon-history', tone: 'success' as const, onClick: async () => { await gitAction('git/reset', { sha, mode: 'soft' }); } },
+                  { label: 'Reset Hard', icon: 'codicon-warning', onClick: async () => { await gitAction('git/reset', { sha, mode: 'hard' }); }, danger: true }
+                ];
+              }
+
               const isMultiContext = selectedShas.length > 1 && selectedShas.includes(contextMenu.sha);
-              const contextShas = (isMultiContext ? selectedShas : [contextMenu.sha]).filter(s => s && s !== 'UNCOMMITTED');
+              const contextShas = (isMultiContext ? selectedShas : [contextMenu.sha]).filter(s => s && s !== 'UNCOMMITTED' && !stashBySha.has(s));
               const hasMulti = contextShas.length >= 2;
 
               const orderedForCherryPick = [...contextShas].sort((a, b) => {
@@ -943,11 +1425,27 @@ const App = () => {
                     icon: moveMode ? 'codicon-check' : 'codicon-move',
                     onClick: () => setMoveMode(v => !v)
                   },
+                  {
+                    label: 'Interactive Rebase…',
+                    icon: 'codicon-list-ordered',
+                    onClick: () => setRebaseShas(contextShas)
+                  },
                   {
                     label: 'Revert',
                     icon: 'codicon-reply',
                     onClick: () => gitAction('git/revert', { shas: contextShas })
                   },
+                  ...(contextShas.length === 2 ? [{
+                    label: 'Compare Selected',
+                    icon: 'codicon-git-compare',
+                    // Older commit on the left, like a diff.
+                    onClick: () => setCompare({ left: orderedForCherryPick[0], right: orderedForCherryPick[1], mode: 'two-dot' as const })
+                  }] : []),
+                  ...(contextShas.length === 2 && !bisect ? [{
+                    label: 'Bisect Between These…',
+                    icon: 'codicon-debug-alt',
+                    onClick: () => gitAction('git/bisectStart', { shas: contextShas })
+                  }] : []),
                   { separator: true },
                   {
                     label: 'Cherry-pick',
@@ -973,8 +1471,38 @@ const App = () => {
               }
 
               // Single selection menu (default)
+              const contextStash = stashBySha.get(contextMenu.sha);
+              if (contextStash) {
+                return [
+                  {
+                    label: 'Pop Stash',
+                    icon: 'codicon-git-stash-pop',
+                    primary: true,
+                    onClick: () => stashAction('git/stashPop', contextStash)
+                  },
+                  {
+                    label: 'Apply Stash',
+                    icon: 'codicon-git-stash-apply',
+                    onClick: () => stashAction('git/stashApply', contextStash)
+                  },
+                  { separator: true },
+                  {
+                    label: 'Drop Stash…',
+                    icon: 'codicon-trash',
+                    danger: true,
+                    onClick: () => stashAction('git/stashDrop', contextStash)
+                  }
+                ];
+              }
+
               if (contextMenu.sha === 'UNCOMMITTED') {
                 return [
+                  {
+                    label: 'Stash Changes…',
+                    icon: 'codicon-git-stash',
+                    onClick: () => gitAction('git/stashCreate', {})
+                  },
+                  { separator: true },
                   {
                     label: 'Discard',
                     icon: 'codicon-discard',
@@ -989,7 +1517,24 @@ const App = () => {
               const tagNames: string[] = (singleCommit?.refs || [])
                 .filter((r: any) => r?.type === 'tag' && typeof r?.name === 'string' && r.name.length > 0)
                 .map((r: any) => String(r.name));
+              const branchRefNames = (singleCommit?.refs || [])
+                .filter((r: any) => r?.type !== 'tag' && r?.type !== 'stash' && r?.name && r.name !== 'HEAD' && r.name !== currentBranchName)
+                .map((r: any) => String(r.name));
+              const mergeRefName: string | undefined = branchRefNames.length === 1 ? branchRefNames[0] : undefined;
               return [
+                ...(bisect ? [
+                  {
+                    label: 'Bisect: Mark as Good',
+                    icon: 'codicon-pass',
+                    onClick: () => gitAction('git/bisectMark', { verdict: 'good', sha: singleSha })
+                  },
+                  {
+                    label: 'Bisect: Mark as Bad',
+                    icon: 'codicon-error',
+                    onClick: () => gitAction('git/bisectMark', { verdict: 'bad', sha: singleSha })
+                  },
+                  { separator: true }
+                ] : []),
                 {
                   label: 'Rename',
                   icon: 'codicon-edit',
@@ -1000,6 +1545,11 @@ const App = () => {
                   icon: moveMode ? 'codicon-check' : 'codicon-move',
                   onClick: () => setMoveMode(v => !v)
                 },
+                {
+                  label: 'Interactive Rebase…',
+                  icon: 'codicon-list-ordered',
+                  onClick: () => setRebaseShas([singleSha])
+                },
                 {
                   label: 'Revert',
                   icon: 'codicon-reply',
@@ -1011,6 +1561,22 @@ const App = () => {
                   icon: 'codicon-merge-into',
                   onClick: () => gitAction('git/cherryPick', { shas: [singleSha] })
                 },
+                {
+                  label: 'Merge into current branch…',
+                  icon: 'codicon-git-merge',
+                  // Merge by branch name when the commit is a branch tip, so the merge message names the branch.
+                  onClick: () => gitAction('git/merge', { ref: mergeRefName ?? singleSha })
+                },
+                {
+                  label: 'Compare with…',
+                  icon: 'codicon-git-compare',
+                  onClick: () => compareWith(mergeRefName ?? singleSha)
+                },
+                {
+                  label: 'Compare with Working Tree',
+                  icon: 'codicon-diff-multiple',
+                  onClick: () => setCompare({ left: mergeRefName ?? singleSha, right: 'UNCOMMITTED', mode: 'two-dot' })
+                },
                 { separator: true },
                 {
                   label: 'Add tag…',
@@ -1040,6 +1606,11 @@ const App = () => {
                 // Reset Soft is a safe-ish "green" action; keep it above branch/checkout actions.
                 { label: 'Reset Soft', icon: 'codicon-history', tone: 'success' as const, onClick: async () => { await gitAction('git/reset', { sha: singleSha, mode: 'soft' }); } },
                 { separator: true },
+                {
+                  label: 'New Worktree…',
+                  icon: 'codicon-repo-clone',
+                  onClick: () => addWorktree(mergeRefName ?? singleSha)
+                },
                 {
                   label: 'New Branch…',
                   icon: 'codicon-git-branch-create',
@@ -16,6 +16,17 @@ export interface GraphConnection {
   colorLane: number;
 }
 
+/**
+ * Lane bookkeeping carried from the last laid-out row to the next one.
+ * Keeping this around lets new commits continue the existing lanes instead of recomputing everything
+ * (see IncrementalGraphLayout).
+ */
+export interface GraphLayoutState {
+  activeLanes: (string | null)[];
+  colorLanes: number[];
+  nextColorIdx: number;
+}
+
 export class GraphLayout {
   private static COLORS = [
     '#3794ff', '#4ec9b0', '#f48771', '#cca700', '#c586c0', 
@@ -26,99 +37,115 @@ export class GraphLayout {
     return this.COLORS[lane % this.COLORS.length];
   }
 
-  public static compute(commits: Commit[]): GraphCommit[] {
-    const graphCommits: GraphCommit[] = [];
-    const activeLanes: (string | null)[] = []; 
-    const colorLanes: number[] = []; // Tracks which color each active lane is using
-    const shaToIndex = new Map<string, number>();
-    
-    commits.forEach((c, i) => shaToIndex.set(c.sha, i));
-
-    let nextColorIdx = 0;
-
-    for (let i = 0; i < commits.length; i++) {
-      const commit = commits[i];
+  public static createState(): GraphLayoutState {
+    return { activeLanes: [], colorLanes: [], nextColorIdx: 0 };
+  }
 
-      // Identify which lanes are already active (passed through from the row above)
-      const initialActiveLanes = activeLanes
-        .map((sha, idx) => (sha !== null) ? { lane: idx, colorLane: colorLanes[idx] } : null)
-        .filter((l): l is { lane: number, colorLane: number } => l !== null);
+  public static cloneState(state: GraphLayoutState): GraphLayoutState {
+    return {
+      activeLanes: [...state.activeLanes],
+      colorLanes: [...state.colorLanes],
+      nextColorIdx: state.nextColorIdx
+    };
+  }
 
-      let lane = activeLanes.indexOf(commit.sha);
-      const hasChild = lane !== -1;
+  /**
+   * Lays out a complete, self-contained list of commits.
+   * Parents that are not part of `commits` are not drawn.
+   */
+  public static compute(commits: Commit[]): GraphCommit[] {
+    const state = this.createState();
+    const shas = new Set(commits.map(c => c.sha));
+    return commits.map(c => this.layoutRow(state, c, parentSha => shas.has(parentSha)));
+  }
 
-      // Determine if this commit should start a new color segment
-      // We change color ONLY if it's a branch tip (head or remote)
-      const hasBranchRef = commit.refs?.some(r => r.type === 'head' || r.type === 'remote');
-      
+  /**
+   * Lays out a single row below the rows already accounted for in `state`, and advances `state` (mutated in place).
+   * `shouldConnect` decides whether a parent gets a lane: parents that will never be laid out must not keep one open.
+   */
+  public static layoutRow(
+    state: GraphLayoutState,
+    commit: Commit,
+    shouldConnect: (parentSha: string) => boolean
+  ): GraphCommit {
+    const { activeLanes, colorLanes } = state;
+
+    // Identify which lanes are already active (passed through from the row above)
+    const initialActiveLanes = activeLanes
+      .map((sha, idx) => (sha !== null) ? { lane: idx, colorLane: colorLanes[idx] } : null)
+      .filter((l): l is { lane: number, colorLane: number } => l !== null);
+
+    let lane = activeLanes.indexOf(commit.sha);
+    const hasChild = lane !== -1;
+
+    // Determine if this commit should start a new color segment
+    // We change color ONLY if it's a branch tip (head or remote)
+    const hasBranchRef = commit.refs?.some(r => r.type === 'head' || r.type === 'remote');
+    
+    if (lane === -1) {
+      lane = activeLanes.findIndex(l => l === null);
       if (lane === -1) {
-        lane = activeLanes.findIndex(l => l === null);
-        if (lane === -1) {
-          lane = activeLanes.length;
-          activeLanes.push(commit.sha);
-          colorLanes.push(nextColorIdx++);
-        } else {
-          activeLanes[lane] = commit.sha;
-          colorLanes[lane] = nextColorIdx++;
-        }
-      } else if (hasBranchRef) {
-        colorLanes[lane] = nextColorIdx++;
+        lane = activeLanes.length;
+        activeLanes.push(commit.sha);
+        colorLanes.push(state.nextColorIdx++);
+      } else {
+        activeLanes[lane] = commit.sha;
+        colorLanes[lane] = state.nextColorIdx++;
       }
+    } else if (hasBranchRef) {
+      colorLanes[lane] = state.nextColorIdx++;
+    }
 
-      const currentColorIdx = colorLanes[lane];
-      const connections: GraphConnection[] = [];
-      const lanesToKeepOpen = new Set<number>();
-      
-      commit.parents.forEach((parentSha, pIdx) => {
-        if (shaToIndex.has(parentSha)) {
-          let parentLane = activeLanes.indexOf(parentSha);
-          if (parentLane === -1) {
-             if (pIdx === 0) {
-                activeLanes[lane] = parentSha;
-                parentLane = lane;
-             } else {
-                parentLane = activeLanes.findIndex(l => l === null);
-                if (parentLane === -1) {
-                  parentLane = activeLanes.length;
-                  activeLanes.push(parentSha);
-                  colorLanes.push(nextColorIdx++);
-                } else {
-                  activeLanes[parentLane] = parentSha;
-                  colorLanes[parentLane] = nextColorIdx++;
-                }
-             }
-          }
-          lanesToKeepOpen.add(parentLane);
-
-          connections.push({
-            fromLane: lane,
-            toLane: parentLane,
-            type: pIdx === 0 ? 'line' : 'merge',
-            toSha: parentSha,
-            colorLane: pIdx === 0 ? currentColorIdx : colorLanes[parentLane]
-          });
-        }
+    const currentColorIdx = colorLanes[lane];
+    const connections: GraphConnection[] = [];
+    const lanesToKeepOpen = new Set<number>();
+    
+    commit.parents.forEach((parentSha, pIdx) => {
+      if (!shouldConnect(parentSha)) return;
+      let parentLane = activeLanes.indexOf(parentSha);
+      if (parentLane === -1) {
+         if (pIdx === 0) {
+            activeLanes[lane] = parentSha;
+            parentLane = lane;
+         } else {
+            parentLane = activeLanes.findIndex(l => l === null);
+            if (parentLane === -1) {
+              parentLane = activeLanes.length;
+              activeLanes.push(parentSha);
+              colorLanes.push(state.nextColorIdx++);
+            } else {
+              activeLanes[parentLane] = parentSha;
+              colorLanes[parentLane] = state.nextColorIdx++;
+            }
+         }
+      }
+      lanesToKeepOpen.add(parentLane);
+
+      connections.push({
+        fromLane: lane,
+        toLane: parentLane,
+        type: pIdx === 0 ? 'line' : 'merge',
+        toSha: parentSha,
+        colorLane: pIdx === 0 ? currentColorIdx : colorLanes[parentLane]
       });
+    });
 
-      // Capture active lanes that pass through from top to bottom
-      // We exclude the current commit's lane because it handles its own lines
-      const activeAtTop = initialActiveLanes.filter(l => l.lane !== lane);
-
-      graphCommits.push({
-        ...commit,
-        lane,
-        colorLane: currentColorIdx,
-        connections,
-        activeLanes: activeAtTop,
-        hasChild
-      });
+    // Capture active lanes that pass through from top to bottom
+    // We exclude the current commit's lane because it handles its own lines
+    const activeAtTop = initialActiveLanes.filter(l => l.lane !== lane);
 
-      // If this lane is not needed for a parent, clear it
-      if (!lanesToKeepOpen.has(lane)) {
-        activeLanes[lane] = null;
-      }
+    // If this lane is not needed for a parent, clear it
+    if (!lanesToKeepOpen.has(lane)) {
+      activeLanes[lane] = null;
     }
 
-    return graphCommits;
+    return {
+      ...commit,
+      lane,
+      colorLane: currentColorIdx,
+      connections,
+      activeLanes: activeAtTop,
+      hasChild
+    };
   }
 }
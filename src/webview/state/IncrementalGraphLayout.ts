@@ -0,0 +1,220 @@
+import { Commit } from '../../extension/protocol/types';
+import { GraphCommit, GraphLayout, GraphLayoutState } from './GraphLayout';
+
+// How often (in rows) we snapshot lane state. Relayout restarts from the nearest snapshot.
+const CHECKPOINT_INTERVAL = 64;
+
+/**
+ * Stateful wrapper around GraphLayout that avoids recomputing lanes that can't have changed.
+ *
+ * - `append` continues the current layout with the next page of (older) commits.
+ * - `update` replaces the whole list (e.g. a silent refresh, or new commits on top after a fetch/commit).
+ *   Rows before the first changed commit are reused as-is. Below the change, rows are recomputed only until
+ *   the lane state lines up with the previous layout again; the rest of the old rows are reused from there.
+ *
+ * Reused rows keep their object identity, so memoized row components don't re-render.
+ */
+export class IncrementalGraphLayout {
+  private _commits: Commit[] = [];
+  private _rows: GraphCommit[] = [];
+  private _state: GraphLayoutState = GraphLayout.createState();
+  // Lane state *before* laying out the row at the given index.
+  private _checkpoints = new Map<number, GraphLayoutState>();
+  private _knownShas = new Set<string>();
+  private _final = true;
+
+  public get rows(): GraphCommit[] { return this._rows; }
+  public get commits(): Commit[] { return this._commits; }
+
+  public reset() {
+    this._commits = [];
+    this._rows = [];
+    this._state = GraphLayout.createState();
+    this._checkpoints = new Map();
+    this._knownShas = new Set();
+    this._final = true;
+  }
+
+  /**
+   * Lays out the next page of commits below the existing rows.
+   * `final` means no more pages will follow, so lanes still waiting for an unloaded parent are closed.
+   */
+  public append(commits: Commit[], final: boolean): GraphCommit[] {
+    for (const c of commits) this._knownShas.add(c.sha);
+
+    if (final) {
+      // Nothing below this page will ever arrive, so lanes waiting for unknown commits can't be resolved.
+      const lanes = this._state.activeLanes;
+      for (let i = 0; i < lanes.length; i++) {
+        const sha = lanes[i];
+        if (sha !== null && !this._knownShas.has(sha)) lanes[i] = null;
+      }
+    }
+
+    const shouldConnect = this._connector(final);
+    const added: GraphCommit[] = [];
+    let index = this._rows.length;
+    for (const commit of commits) {
+      if (index % CHECKPOINT_INTERVAL === 0) this._checkpoints.set(index, GraphLayout.cloneState(this._state));
+      added.push(GraphLayout.layoutRow(this._state, commit, shouldConnect(commit)));
+      index++;
+    }
+
+    this._commits = [...this._commits, ...commits];
+    this._rows = [...this._rows, ...added];
+    this._final = final;
+    return this._rows;
+  }
+
+  /**
+   * Replaces the laid out list with `commits`, reusing as much of the previous layout as possible.
+   */
+  public update(commits: Commit[], final: boolean): GraphCommit[] {
+    const prevCommits = this._commits;
+    const prevRows = this._rows;
+    const prevState = this._state;
+    const prevCheckpoints = this._checkpoints;
+
+    // Which parents get lanes depends on `final`, so a layout made under the other mode can't be reused.
+    const comparable = final === this._final;
+
+    // Whether a parent gets a lane depends on it being in the list, so rows pointing at commits that joined or
+    // left the list (e.g. the next page of search results) were laid out differently and can't be reused.
+    const knownShas = new Set(commits.map(c => c.sha));
+    const changedShas = new Set<string>();
+    for (const sha of knownShas) if (!this._knownShas.has(sha)) changedShas.add(sha);
+    for (const sha of this._knownShas) if (!knownShas.has(sha)) changedShas.add(sha);
+    const dependsOnChange = (commit: Commit) => commit.parents.some(p => changedShas.has(p));
+
+    let prefix = 0;
+    if (comparable) {
+      const maxPrefix = Math.min(prevCommits.length, commits.length);
+      while (prefix < maxPrefix && sameCommit(prevCommits[prefix], commits[prefix]) && !dependsOnChange(prevCommits[prefix])) prefix++;
+    }
+
+    if (prefix === prevCommits.length && prefix === commits.length) {
+      this._commits = commits;
+      return this._rows;
+    }
+
+    // The previous layout can only be picked up again below its last row affected by the change.
+    let lastDependent = -1;
+    if (changedShas.size > 0) {
+      for (let i = prevCommits.length - 1; i >= 0; i--) {
+        if (dependsOnChange(prevCommits[i])) {
+          lastDependent = i;
+          break;
+        }
+      }
+    }
+
+    let suffix = 0;
+    if (comparable) {
+      const maxSuffix = Math.min(prevCommits.length, commits.length) - prefix;
+      while (
+        suffix < maxSuffix &&
+        sameCommit(prevCommits[prevCommits.length - 1 - suffix], commits[commits.length - 1 - suffix])
+      ) suffix++;
+    }
+
+    // Restart from the last snapshot at or before the first changed row.
+    let restart = 0;
+    for (const idx of prevCheckpoints.keys()) {
+      if (idx <= prefix && idx > restart) restart = idx;
+    }
+    const restartState = prevCheckpoints.get(restart);
+    const state = restartState ? GraphLayout.cloneState(restartState) : GraphLayout.createState();
+    if (!restartState) restart = 0;
+
+    const rows = prevRows.slice(0, restart);
+    const checkpoints = new Map<number, GraphLayoutState>();
+    for (const [idx, cp] of prevCheckpoints) {
+      if (idx < restart) checkpoints.set(idx, cp);
+    }
+
+    this._knownShas = knownShas;
+    const shouldConnect = this._connector(final);
+    const delta = commits.length - prevCommits.length;
+    const tailStart = commits.length - suffix;
+
+    let converged = false;
+    for (let i = restart; i < commits.length; i++) {
+      // Once we're inside the unchanged tail, try to line up with a snapshot from the previous layout.
+      if (i > prefix && i >= tailStart && i - delta > lastDependent) {
+        const j = i - delta;
+        const previous = prevCheckpoints.get(j);
+        const offset = previous ? colorOffsetIfEquivalent(state, previous) : null;
+        if (offset !== null) {
+          for (let k = j; k < prevRows.length; k++) rows.push(shiftRowColors(prevRows[k], offset));
+          for (const [idx, cp] of prevCheckpoints) {
+            if (idx >= j) checkpoints.set(idx + delta, shiftStateColors(cp, offset));
+          }
+          this._state = shiftStateColors(prevState, offset);
+          converged = true;
+          break;
+        }
+      }
+
+      if (i % CHECKPOINT_INTERVAL === 0) checkpoints.set(i, GraphLayout.cloneState(state));
+      rows.push(GraphLayout.layoutRow(state, commits[i], shouldConnect(commits[i])));
+    }
+
+    if (!converged) this._state = state;
+    this._commits = commits;
+    this._rows = rows;
+    this._checkpoints = checkpoints;
+    this._final = final;
+    return rows;
+  }
+
+  private _connector(final: boolean) {
+    return (commit: Commit) => (parentSha: string) => {
+      if (this._knownShas.has(parentSha)) return true;
+      // Parents that aren't loaded yet will show up in a later page, so keep their lane open.
+      // The uncommitted row points at the symbolic "HEAD", which never shows up as a real row.
+      return !final && commit.sha !== 'UNCOMMITTED';
+    };
+  }
+}
+
+function sameCommit(a: Commit, b: Commit) {
+  if (a.sha !== b.sha || a.decorations !== b.decorations || a.subject !== b.subject) return false;
+  if (a.parents.length !== b.parents.length) return false;
+  return a.parents.every((p, i) => p === b.parents[i]);
+}
+
+/**
+ * Two lane states produce the same rows from here on if the same lanes wait for the same commits.
+ * Colors only need to match up to a constant offset (new commits on top consume extra color slots).
+ * Returns that offset, or null if the states diverge.
+ */
+function colorOffsetIfEquivalent(a: GraphLayoutState, b: GraphLayoutState): number | null {
+  const offset = a.nextColorIdx - b.nextColorIdx;
+  const len = Math.max(a.activeLanes.length, b.activeLanes.length);
+  for (let i = 0; i < len; i++) {
+    const sa = a.activeLanes[i] ?? null;
+    const sb = b.activeLanes[i] ?? null;
+    if (sa !== sb) return null;
+    if (sa !== null && a.colorLanes[i] !== b.colorLanes[i] + offset) return null;
+  }
+  return offset;
+}
+
+function shiftStateColors(state: GraphLayoutState, offset: number): GraphLayoutState {
+  if (offset === 0) return state;
+  return {
+    activeLanes: [...state.activeLanes],
+    colorLanes: state.colorLanes.map(c => c + offset),
+    nextColorIdx: state.nextColorIdx + offset
+  };
+}
+
+function shiftRowColors(row: GraphCommit, offset: number): GraphCommit {
+  if (offset === 0) return row;
+  return {
+    ...row,
+    colorLane: row.colorLane + offset,
+    connections: row.connections.map(c => ({ ...c, colorLane: c.colorLane + offset })),
+    activeLanes: row.activeLanes.map(l => ({ ...l, colorLane: l.colorLane + offset }))
+  };
+}
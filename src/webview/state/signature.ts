@@ -0,0 +1,37 @@
+import { SignatureStatus } from '../../extension/protocol/types';
+
+export interface SignatureDescription {
+  /** Short badge text. */
+  label: string;
+  /** Full explanation for tooltips. */
+  detail: string;
+  tone: 'verified' | 'warning' | 'bad';
+  icon: string;
+}
+
+/** How to show a `%G?` status; null for unsigned commits, which get no badge. */
+export const describeSignature = (status: SignatureStatus | undefined): SignatureDescription | null => {
+  switch (status) {
+    case 'G':
+      return { label: 'Verified', detail: 'Good signature from a trusted key', tone: 'verified', icon: 'codicon-verified-filled' };
+    case 'U':
+      return { label: 'Unverified', detail: 'Good signature, but the key is not trusted', tone: 'warning', icon: 'codicon-unverified' };
+    case 'X':
+      return { label: 'Expired', detail: 'Good signature that has expired', tone: 'warning', icon: 'codicon-unverified' };
+    case 'Y':
+      return { label: 'Expired key', detail: 'Good signature made by a key that has expired', tone: 'warning', icon: 'codicon-unverified' };
+    case 'R':
+      return { label: 'Revoked key', detail: 'Signature made by a key that was revoked', tone: 'bad', icon: 'codicon-error' };
+    case 'B':
+      return { label: 'Bad signature', detail: 'The signature does not match the commit', tone: 'bad', icon: 'codicon-error' };
+    case 'E':
+      return {
+        label: 'Unverified',
+        detail: 'Signed, but the signature can\'t be checked (missing key, or gpg.ssh.allowedSignersFile not set up)',
+        tone: 'warning',
+        icon: 'codicon-unverified'
+      };
+    default:
+      return null;
+  }
+};
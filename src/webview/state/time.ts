@@ -0,0 +1,9 @@
+/** Compact relative age of a unix timestamp (seconds), e.g. "5m ago", "3d ago". */
+export const formatAge = (unix: number) => {
+  const seconds = Math.max(0, Date.now() / 1000 - unix);
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  if (seconds < 86400 * 365) return `${Math.floor(seconds / 86400)}d ago`;
+  return `${Math.floor(seconds / (86400 * 365))}y ago`;
+};
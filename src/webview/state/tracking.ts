@@ -0,0 +1,21 @@
+import { Branch } from '../../extension/protocol/types';
+
+/** "↑2 ↓1" for a branch that is ahead of and/or behind its upstream, "gone" when the upstream was deleted; empty when in sync or not tracking. */
+export const formatTracking = (branch: Branch) => {
+  if (branch.upstreamGone) return 'gone';
+  const parts: string[] = [];
+  if (branch.ahead) parts.push(`↑${branch.ahead}`);
+  if (branch.behind) parts.push(`↓${branch.behind}`);
+  return parts.join(' ');
+};
+
+/** Tooltip line describing how a branch relates to its upstream. */
+export const describeTracking = (branch: Branch) => {
+  if (!branch.upstream) return branch.remote ? '' : 'No upstream branch';
+  if (branch.upstreamGone) return `Upstream ${branch.upstream} was deleted on the remote`;
+  if (!branch.ahead && !branch.behind) return `Up to date with ${branch.upstream}`;
+  const parts: string[] = [];
+  if (branch.ahead) parts.push(`${branch.ahead} to push`);
+  if (branch.behind) parts.push(`${branch.behind} to pull`);
+  return `${parts.join(', ')} (${branch.upstream})`;
+};
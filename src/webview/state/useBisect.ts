@@ -0,0 +1,49 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { BisectState } from '../../extension/protocol/types';
+import { request } from './vscode';
+
+/** How a commit takes part in the bisect in progress, for marking rows in the commit list. */
+export type BisectMark = 'good' | 'bad' | 'skip' | 'candidate';
+
+export function useBisect() {
+  const [bisect, setBisect] = useState<BisectState | null>(null);
+
+  const fetch = useCallback(async () => {
+    try {
+      setBisect(await request<BisectState | null>('bisect/state'));
+    } catch {
+      // The host has logged why to the output channel; without a readable state there's no banner to show.
+      setBisect(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetch();
+  }, [fetch]);
+
+  useEffect(() => {
+    let timer: any;
+    const handler = (event: MessageEvent) => {
+      if (event.data?.type !== 'event/repoChanged') return;
+      clearTimeout(timer);
+      timer = setTimeout(fetch, 200);
+    };
+    window.addEventListener('message', handler);
+    return () => {
+      window.removeEventListener('message', handler);
+      clearTimeout(timer);
+    };
+  }, [fetch]);
+
+  const marks = useMemo(() => {
+    const map = new Map<string, BisectMark>();
+    if (!bisect) return map;
+    bisect.candidates.forEach(sha => map.set(sha, 'candidate'));
+    bisect.skipped.forEach(sha => map.set(sha, 'skip'));
+    bisect.good.forEach(sha => map.set(sha, 'good'));
+    if (bisect.bad) map.set(bisect.bad, 'bad');
+    return map;
+  }, [bisect]);
+
+  return { bisect, marks, refreshBisect: fetch };
+}
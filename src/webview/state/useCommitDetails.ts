@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { Change } from '../../extension/protocol/types';
+import { Change, CommitSignature, CommitTrailer } from '../../extension/protocol/types';
 import { request } from './vscode';
 
 export interface CommitDetails {
@@ -7,9 +7,15 @@ export interface CommitDetails {
   authorName: string;
   authorEmail: string;
   authorDateIso: string;
+  committerName?: string;
+  committerEmail?: string;
+  committerDateIso?: string;
   subject: string;
   message: string;
   parents: string[];
+  /** Missing for uncommitted changes. */
+  signature?: CommitSignature;
+  trailers?: CommitTrailer[];
 }
 
 export function useCommitDetails(sha: string | null) {
@@ -1,28 +1,126 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import { Commit, Branch } from '../../extension/protocol/types';
-import { request } from './vscode';
-import { GraphLayout, GraphCommit } from './GraphLayout';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Commit, Branch, CommitPage, Stash, Change, FileHistoryPage } from '../../extension/protocol/types';
+import { request, vscode } from './vscode';
+import { GraphCommit, GraphLayout } from './GraphLayout';
+import { IncrementalGraphLayout } from './IncrementalGraphLayout';
+
+export const PAGE_SIZE = 500;
+const SEARCH_DEBOUNCE_MS = 250;
+
+/**
+ * - filter: show only matching commits (lanes only connect commits that are both in the results).
+ * - highlight: keep the full graph and dim everything that doesn't match.
+ */
+export type SearchMode = 'filter' | 'highlight';
+
+/**
+ * Inserts a row for each stash right above the commit it was created on, so the stash hangs off its base in the graph.
+ * Stashes whose base isn't in `commits` are left out; they show up once the page containing the base is loaded.
+ */
+function withStashRows(commits: Commit[], stashes: Stash[]): Commit[] {
+  if (stashes.length === 0) return commits;
+  const byBase = new Map<string, Stash[]>();
+  for (const stash of stashes) {
+    const list = byBase.get(stash.baseSha) ?? [];
+    list.push(stash);
+    byBase.set(stash.baseSha, list);
+  }
+  const result: Commit[] = [];
+  for (const commit of commits) {
+    for (const stash of byBase.get(commit.sha) ?? []) {
+      result.push({
+        sha: stash.sha,
+        parents: [stash.baseSha],
+        authorName: stash.authorName,
+        authorEmail: stash.authorEmail,
+        authorDateIso: stash.authorDateIso,
+        subject: stash.message,
+        decorations: stash.ref,
+        refs: [{ name: stash.ref, type: 'stash' }]
+      });
+    }
+    result.push(commit);
+  }
+  return result;
+}
+
+/**
+ * Reflog rows are a timeline of HEAD positions rather than history: the same commit can appear many times
+ * and consecutive rows needn't be related, so they're drawn as plain dots without lanes.
+ */
+function reflogRows(commits: Commit[]): GraphCommit[] {
+  return commits.map(commit => ({ ...commit, lane: 0, colorLane: 0, connections: [], activeLanes: [], hasChild: false }));
+}
 
 export function useCommits() {
   const [commits, setCommits] = useState<Commit[]>([]);
+  const [layoutRows, setLayoutRows] = useState<GraphCommit[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [branches, setBranches] = useState<Branch[]>([]);
+  const [stashes, setStashes] = useState<Stash[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedBranch, setSelectedBranch] = useState<string>('HEAD');
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<Commit[]>([]);
+  const [searchRows, setSearchRows] = useState<GraphCommit[]>([]);
+  // A commit whose hash matches the query; shown above the results but kept out of paging and their layout.
+  const [searchHashMatch, setSearchHashMatch] = useState<Commit | null>(null);
+  const [searchHasMore, setSearchHasMore] = useState(false);
+  const [searching, setSearching] = useState(false);
+  const [searchMode, setSearchMode] = useState<SearchMode>(() => vscode.getState?.()?.searchMode === 'highlight' ? 'highlight' : 'filter');
+  // File history replaces the graph with the commits that touched one path (`git log --follow`).
+  const [fileHistoryPath, setFileHistoryPath] = useState<string | null>(null);
+  const [fileHistoryCommits, setFileHistoryCommits] = useState<Commit[]>([]);
+  const [fileHistoryRows, setFileHistoryRows] = useState<GraphCommit[]>([]);
+  const [fileHistoryChanges, setFileHistoryChanges] = useState<Record<string, Change>>({});
+  const [fileHistoryHasMore, setFileHistoryHasMore] = useState(false);
+  // The reflog view also replaces the graph, with one row per HEAD movement (`git log --walk-reflogs`).
+  const [reflogMode, setReflogMode] = useState(false);
+  const [reflogCommits, setReflogCommits] = useState<Commit[]>([]);
+  const [reflogHasMore, setReflogHasMore] = useState(false);
   const hasUncommitted = useMemo(() => commits.some(c => c.sha === 'UNCOMMITTED'), [commits]);
 
-  const filteredCommits = useMemo(() => {
-    if (!searchQuery) return commits;
-    const query = searchQuery.toLowerCase();
-    return commits.filter(c => 
-      c.subject.toLowerCase().includes(query) || 
-      c.sha.toLowerCase().includes(query) ||
-      (c as any).message?.toLowerCase().includes(query)
-    );
-  }, [commits, searchQuery]);
+  // Bumped on every full (re)load so late "load more" responses for a previous history are ignored.
+  const generationRef = useRef(0);
+  const searchGenerationRef = useRef(0);
+  const fileHistoryGenerationRef = useRef(0);
+  const reflogGenerationRef = useRef(0);
+  const loadingMoreRef = useRef(false);
+  const stashesRef = useRef<Stash[]>([]);
+  // Layout engines live outside React state: they are mutated in place and hand back row arrays.
+  const layoutRef = useRef<IncrementalGraphLayout | null>(null);
+  if (!layoutRef.current) layoutRef.current = new IncrementalGraphLayout();
+  const searchLayoutRef = useRef<IncrementalGraphLayout | null>(null);
+  if (!searchLayoutRef.current) searchLayoutRef.current = new IncrementalGraphLayout();
+  const fileHistoryLayoutRef = useRef<IncrementalGraphLayout | null>(null);
+  if (!fileHistoryLayoutRef.current) fileHistoryLayoutRef.current = new IncrementalGraphLayout();
+
+  const isSearching = searchQuery.trim().length > 0;
+
+  const isFiltering = isSearching && searchMode === 'filter';
+
+  // Unfiltered history is laid out incrementally as pages arrive (see fetchCommits / loadMore).
+  // Search results come from `commits/search` and get their own engine, so clearing the search
+  // doesn't touch the main layout at all. File history works the same way.
+  const reflogGraphRows = useMemo(() => reflogRows(reflogCommits), [reflogCommits]);
+  // The hash match can sit anywhere in history, so it gets a standalone row rather than edges into the results.
+  const filteredRows = useMemo(
+    () => (searchHashMatch ? [GraphLayout.compute([searchHashMatch])[0], ...searchRows] : searchRows),
+    [searchHashMatch, searchRows]
+  );
+  const graphCommits = reflogMode
+    ? reflogGraphRows
+    : (fileHistoryPath ? fileHistoryRows : (isFiltering ? filteredRows : layoutRows));
 
-  const graphCommits = useMemo(() => GraphLayout.compute(filteredCommits), [filteredCommits]);
+  // In highlight mode rows stay in place; the webview dims rows that aren't in this set.
+  const searchMatches = useMemo(() => {
+    if (!isSearching || searchMode !== 'highlight') return null;
+    const matches = new Set(searchResults.map(c => c.sha));
+    if (searchHashMatch) matches.add(searchHashMatch.sha);
+    return matches;
+  }, [isSearching, searchMode, searchResults, searchHashMatch]);
 
   const maxLanes = useMemo(() => {
     let max = 0;
@@ -47,23 +145,270 @@ export function useCommits() {
     }
   }, []); // No dependency on selectedBranch
 
-  const fetchCommits = useCallback(async (limit = 500, silent = false) => {
+  const fetchCommits = useCallback(async (limit = PAGE_SIZE, silent = false) => {
+    const generation = ++generationRef.current;
+    if (!silent) setLoading(true);
+    setError(null);
+    try {
+      const [page, stashList] = await Promise.all([
+        request<CommitPage>('commits/list', { limit, branch: selectedBranch }),
+        request<Stash[]>('stash/list').catch(() => [] as Stash[])
+      ]);
+      if (generation !== generationRef.current) return;
+      stashesRef.current = stashList;
+      setStashes(stashList);
+      setCommits(page.commits);
+      setHasMore(page.hasMore);
+      setLayoutRows(layoutRef.current!.update(withStashRows(page.commits, stashList), !page.hasMore));
+    } catch (err: any) {
+      if (generation === generationRef.current) setError(err.message);
+    } finally {
+      if (!silent) setLoading(false);
+    }
+  }, [selectedBranch]);
+
+  const runSearch = useCallback(async (query: string, limit = PAGE_SIZE) => {
+    const generation = ++searchGenerationRef.current;
+    setSearching(true);
+    setError(null);
+    try {
+      const page = await request<CommitPage>('commits/search', { query, limit, branch: selectedBranch });
+      if (generation !== searchGenerationRef.current) return;
+      setSearchResults(page.commits);
+      setSearchHashMatch(page.hashMatch ?? null);
+      setSearchHasMore(page.hasMore);
+      // Results are a sparse subset of history: only draw edges between commits that are both in the results.
+      setSearchRows(searchLayoutRef.current!.update(page.commits, true));
+    } catch (err: any) {
+      if (generation === searchGenerationRef.current) setError(err.message);
+    } finally {
+      if (generation === searchGenerationRef.current) setSearching(false);
+    }
+  }, [selectedBranch]);
+
+  const fetchFileHistory = useCallback(async (path: string, limit = PAGE_SIZE, silent = false) => {
+    const generation = ++fileHistoryGenerationRef.current;
     if (!silent) setLoading(true);
     setError(null);
     try {
-      const data = await request<Commit[]>('commits/list', { limit, branch: selectedBranch });
-      setCommits(data);
+      const page = await request<FileHistoryPage>('commits/fileHistory', { path, limit, branch: selectedBranch });
+      if (generation !== fileHistoryGenerationRef.current) return;
+      setFileHistoryCommits(page.commits);
+      setFileHistoryChanges(page.changes);
+      setFileHistoryHasMore(page.hasMore);
+      setFileHistoryRows(fileHistoryLayoutRef.current!.update(page.commits, true));
     } catch (err: any) {
-      setError(err.message);
+      if (generation === fileHistoryGenerationRef.current) setError(err.message);
     } finally {
       if (!silent) setLoading(false);
     }
   }, [selectedBranch]);
 
+  const fetchReflog = useCallback(async (limit = PAGE_SIZE, silent = false) => {
+    const generation = ++reflogGenerationRef.current;
+    if (!silent) setLoading(true);
+    setError(null);
+    try {
+      const page = await request<CommitPage>('commits/reflog', { limit });
+      if (generation !== reflogGenerationRef.current) return;
+      setReflogCommits(page.commits);
+      setReflogHasMore(page.hasMore);
+    } catch (err: any) {
+      if (generation === reflogGenerationRef.current) setError(err.message);
+    } finally {
+      if (!silent) setLoading(false);
+    }
+  }, []);
+
+  const loadedCount = useMemo(() => commits.filter(c => c.sha !== 'UNCOMMITTED').length, [commits]);
+  const loadedCountRef = useRef(loadedCount);
+  loadedCountRef.current = loadedCount;
+  const searchStateRef = useRef({ query: searchQuery, count: searchResults.length });
+  searchStateRef.current = { query: searchQuery.trim(), count: searchResults.length };
+  const fileHistoryStateRef = useRef({ path: fileHistoryPath, count: fileHistoryCommits.length });
+  fileHistoryStateRef.current = { path: fileHistoryPath, count: fileHistoryCommits.length };
+  const reflogStateRef = useRef({ active: reflogMode, count: reflogCommits.length });
+  reflogStateRef.current = { active: reflogMode, count: reflogCommits.length };
+
   const refresh = useCallback((silent = false) => {
     fetchBranches();
-    fetchCommits(500, silent);
-  }, [fetchBranches, fetchCommits]);
+    // Keep everything that was already paged in, so a refresh doesn't yank the list out from under the user.
+    fetchCommits(Math.max(PAGE_SIZE, loadedCountRef.current), silent);
+    const { query, count } = searchStateRef.current;
+    if (query) runSearch(query, Math.max(PAGE_SIZE, count));
+    const history = fileHistoryStateRef.current;
+    if (history.path) fetchFileHistory(history.path, Math.max(PAGE_SIZE, history.count), silent);
+    const reflog = reflogStateRef.current;
+    if (reflog.active) fetchReflog(Math.max(PAGE_SIZE, reflog.count), silent);
+  }, [fetchBranches, fetchCommits, runSearch, fetchFileHistory, fetchReflog]);
+
+  const loadMoreSearchResults = useCallback(async () => {
+    if (loadingMoreRef.current || !searchHasMore) return;
+    const generation = searchGenerationRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    setError(null);
+    try {
+      const page = await request<CommitPage>('commits/search', {
+        query: searchQuery.trim(),
+        limit: PAGE_SIZE,
+        branch: selectedBranch,
+        skip: searchResults.length
+      });
+      if (generation !== searchGenerationRef.current) return;
+      const next = [...searchResults, ...page.commits];
+      setSearchResults(next);
+      setSearchHasMore(page.hasMore);
+      setSearchRows(searchLayoutRef.current!.update(next, true));
+    } catch (err: any) {
+      if (generation === searchGenerationRef.current) setError(err.message);
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  }, [searchHasMore, searchQuery, searchResults, selectedBranch]);
+
+  const loadMoreFileHistory = useCallback(async () => {
+    if (loadingMoreRef.current || !fileHistoryHasMore || !fileHistoryPath) return;
+    const generation = fileHistoryGenerationRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    setError(null);
+    try {
+      const page = await request<FileHistoryPage>('commits/fileHistory', {
+        path: fileHistoryPath,
+        limit: PAGE_SIZE,
+        branch: selectedBranch,
+        skip: fileHistoryCommits.length
+      });
+      if (generation !== fileHistoryGenerationRef.current) return;
+      const next = [...fileHistoryCommits, ...page.commits];
+      setFileHistoryCommits(next);
+      setFileHistoryChanges(prev => ({ ...prev, ...page.changes }));
+      setFileHistoryHasMore(page.hasMore);
+      setFileHistoryRows(fileHistoryLayoutRef.current!.update(next, true));
+    } catch (err: any) {
+      if (generation === fileHistoryGenerationRef.current) setError(err.message);
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  }, [fileHistoryHasMore, fileHistoryPath, fileHistoryCommits, selectedBranch]);
+
+  const loadMoreReflog = useCallback(async () => {
+    if (loadingMoreRef.current || !reflogHasMore) return;
+    const generation = reflogGenerationRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    setError(null);
+    try {
+      const page = await request<CommitPage>('commits/reflog', { limit: PAGE_SIZE, skip: reflogCommits.length });
+      if (generation !== reflogGenerationRef.current) return;
+      setReflogCommits(prev => [...prev, ...page.commits]);
+      setReflogHasMore(page.hasMore);
+    } catch (err: any) {
+      if (generation === reflogGenerationRef.current) setError(err.message);
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  }, [reflogHasMore, reflogCommits]);
+
+  const loadMoreHistory = useCallback(async () => {
+    if (loadingMoreRef.current || !hasMore) return;
+    const realCommits = commits.filter(c => c.sha !== 'UNCOMMITTED');
+    const afterSha = realCommits[realCommits.length - 1]?.sha;
+    if (!afterSha) return;
+
+    const generation = generationRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    setError(null);
+    try {
+      const page = await request<CommitPage>('commits/list', {
+        limit: PAGE_SIZE,
+        branch: selectedBranch,
+        skip: realCommits.length,
+        afterSha
+      });
+      if (generation !== generationRef.current) return;
+      if (page.cursorMismatch) {
+        // History changed underneath us (rebase, fetch, ...): start over from the top.
+        fetchCommits(Math.max(PAGE_SIZE, realCommits.length), true);
+        return;
+      }
+      setCommits(prev => [...prev, ...page.commits]);
+      setHasMore(page.hasMore);
+      setLayoutRows(layoutRef.current!.append(withStashRows(page.commits, stashesRef.current), !page.hasMore));
+    } catch (err: any) {
+      if (generation === generationRef.current) setError(err.message);
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  }, [hasMore, commits, selectedBranch, fetchCommits]);
+
+  const loadMore = reflogMode
+    ? loadMoreReflog
+    : (fileHistoryPath ? loadMoreFileHistory : (isFiltering ? loadMoreSearchResults : loadMoreHistory));
+
+  const showFileHistory = useCallback((path: string | null) => {
+    // File history, the reflog and search all replace the graph; the newer request wins.
+    if (path) {
+      setSearchQuery('');
+      setReflogMode(false);
+    }
+    setFileHistoryPath(path);
+  }, []);
+
+  const showReflog = useCallback((show: boolean) => {
+    if (show) {
+      setSearchQuery('');
+      setFileHistoryPath(null);
+    }
+    setReflogMode(show);
+  }, []);
+
+  useEffect(() => {
+    reflogGenerationRef.current++;
+    setReflogCommits([]);
+    setReflogHasMore(false);
+    if (reflogMode) fetchReflog();
+  }, [reflogMode, fetchReflog]);
+
+  useEffect(() => {
+    fileHistoryGenerationRef.current++;
+    setFileHistoryCommits([]);
+    setFileHistoryChanges({});
+    setFileHistoryRows([]);
+    setFileHistoryHasMore(false);
+    fileHistoryLayoutRef.current!.reset();
+    if (fileHistoryPath) fetchFileHistory(fileHistoryPath);
+  }, [fileHistoryPath, fetchFileHistory]);
+
+  useEffect(() => {
+    if (searchQuery.trim()) {
+      setFileHistoryPath(null);
+      setReflogMode(false);
+    }
+  }, [searchQuery]);
+
+  // Highlight mode scrolls through full history, so keep search results at least as deep as the loaded rows:
+  // once the oldest match is on screen, fetch the next page of matches.
+  useEffect(() => {
+    if (!searchMatches || !searchHasMore || searching || loadingMore) return;
+    const oldestMatch = searchResults[searchResults.length - 1]?.sha;
+    if (oldestMatch && commits.some(c => c.sha === oldestMatch)) loadMoreSearchResults();
+  }, [searchMatches, searchHasMore, searching, loadingMore, searchResults, commits, loadMoreSearchResults]);
+
+  // Whether some search match lies below the loaded rows, so paging in more history can reach it.
+  // The hash match is left out: it needn't be on the selected branch at all.
+  const searchMatchesBelow = useMemo(() => {
+    if (!searchMatches) return false;
+    if (searchHasMore) return true;
+    const oldestMatch = searchResults[searchResults.length - 1]?.sha;
+    return !!oldestMatch && !commits.some(c => c.sha === oldestMatch);
+  }, [searchMatches, searchHasMore, searchResults, commits]);
 
   useEffect(() => {
     fetchBranches();
@@ -73,6 +418,24 @@ export function useCommits() {
     fetchCommits();
   }, [fetchCommits]);
 
+  // Search the whole history on the host, debounced so we don't spawn a `git log` per keystroke.
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      searchGenerationRef.current++;
+      setSearching(false);
+      setSearchResults([]);
+      setSearchHashMatch(null);
+      setSearchRows([]);
+      setSearchHasMore(false);
+      searchLayoutRef.current!.reset();
+      return;
+    }
+    setSearching(true);
+    const timer = setTimeout(() => runSearch(query), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery, runSearch]);
+
   useEffect(() => {
     let timer: any;
     const handler = (event: MessageEvent) => {
@@ -95,13 +458,27 @@ export function useCommits() {
     commits: graphCommits, 
     maxLanes,
     branches,
+    stashes,
     loading, 
+    loadingMore,
+    hasMore: reflogMode ? reflogHasMore : (fileHistoryPath ? fileHistoryHasMore : (isFiltering ? searchHasMore : hasMore)),
+    loadMore,
     error, 
     hasUncommitted,
     selectedBranch,
     setSelectedBranch,
     searchQuery,
     setSearchQuery,
+    searching,
+    searchMode,
+    setSearchMode,
+    searchMatches,
+    searchMatchesBelow,
+    fileHistoryPath,
+    fileHistoryChanges,
+    showFileHistory,
+    reflogMode,
+    showReflog,
     refresh
   };
 }
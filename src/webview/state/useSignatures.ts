@@ -0,0 +1,47 @@
+import { useState, useEffect, useRef } from 'react';
+import { Commit, SignatureStatus } from '../../extension/protocol/types';
+import { request } from './vscode';
+
+// Keeps each `git show` command line well below OS argument limits.
+const BATCH_SIZE = 200;
+
+/**
+ * Signature status of the listed commits, fetched in the background since verifying is slow.
+ * Batches go out one at a time, so a long list doesn't start a verifier per signed commit all at once.
+ * A commit's signature doesn't change, so statuses are kept for the whole session.
+ */
+export function useSignatures(commits: Commit[]) {
+  const [statuses, setStatuses] = useState<Map<string, SignatureStatus>>(() => new Map());
+  // Bumped when a batch comes back, to send the next one.
+  const [round, setRound] = useState(0);
+  const requestedRef = useRef(new Set<string>());
+  const busyRef = useRef(false);
+
+  useEffect(() => {
+    if (busyRef.current) return;
+    const batch = commits
+      .map(c => c.sha)
+      .filter(sha => /^[0-9a-f]{40}$/.test(sha) && !requestedRef.current.has(sha))
+      .slice(0, BATCH_SIZE);
+    if (batch.length === 0) return;
+    busyRef.current = true;
+    batch.forEach(sha => requestedRef.current.add(sha));
+    request<Record<string, SignatureStatus>>('commits/signatures', { shas: batch })
+      .then(result => {
+        busyRef.current = false;
+        setStatuses(prev => {
+          const next = new Map(prev);
+          Object.entries(result).forEach(([sha, status]) => next.set(sha, status));
+          return next;
+        });
+        setRound(n => n + 1);
+      })
+      .catch(() => {
+        // The host logs the failure to the output channel; try again with the next list update.
+        busyRef.current = false;
+        batch.forEach(sha => requestedRef.current.delete(sha));
+      });
+  }, [commits, round]);
+
+  return statuses;
+}